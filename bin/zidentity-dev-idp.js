@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+require('../dist/dev-idp/cli')
+  .main(process.argv.slice(2))
+  .catch((e) => {
+    console.error(e.message);
+    process.exit(1);
+  });
@@ -16,17 +16,17 @@ policy.add(
     0
 );
 
+const client = {
+    client_id: 'testing',
+    client_secret: 'testing',
+    redirect_uris: ['http://127.0.0.1:3000/api/auth/callback'],
+    post_logout_redirect_uris: ['http://127.0.0.1:3000'],
+    token_endpoint_auth_method: 'client_secret_post',
+    response_types: ['code', 'code id_token', 'id_token'],
+    grant_types: ['authorization_code', 'implicit', 'refresh_token']
+};
+
 const config = {
-    clients: [
-        {
-            client_id: 'testing',
-            client_secret: 'testing',
-            redirect_uris: ['http://127.0.0.1:3000/api/auth/callback'],
-            post_logout_redirect_uris: ['http://127.0.0.1:3000'],
-            token_endpoint_auth_method: 'client_secret_post',
-            grant_types: ['authorization_code', 'refresh_token']
-        }
-    ],
     routes: {
         authorization: '/authorize', // lgtm [js/hardcoded-credentials]
         token: '/oauth/token',
@@ -38,7 +38,8 @@ const config = {
     },
     features: {
         webMessageResponseMode: {
-            enabled: true
+            enabled: true,
+            ack: 'individual-draft-00'
         }
     },
     rotateRefreshToken: true,
@@ -49,7 +50,20 @@ const config = {
 
 module.exports = function createProvider(opts) {
     const issuer = `http://127.0.0.1:${opts.port || 3000}/oidc/`;
-    const provider = new Provider(issuer, config);
+    const provider = new Provider(issuer, {
+        ...config,
+        clients: [{ ...client, redirect_uris: opts.redirectUris || client.redirect_uris }]
+    });
+
+    // The implicit and hybrid flows (`id_token` and `code id_token`) require https redirect URIs that aren't on
+    // localhost, allow http ones so they can be tried out locally.
+    const { invalidate } = provider.Client.Schema.prototype;
+    provider.Client.Schema.prototype.invalidate = function (message, code) {
+        if (code === 'implicit-force-https' || code === 'implicit-forbid-localhost') {
+            return;
+        }
+        invalidate.call(this, message, code);
+    };
 
     provider.use(async (ctx, next) => {
         await next();
@@ -0,0 +1,103 @@
+import {
+  initZeusIdentity as initServer,
+  getSession as getServerSession,
+  handleAuth as serverHandleAuth
+} from '../index';
+import { getConfig, ConfigParameters } from '../config';
+import { HandleAuth, Handlers, OnError } from '../handlers';
+import { GetSession, Session, Claims } from '../session';
+import appRouteHandlerFactory, { AppRouteHandler, HandleAppAuth } from './route-handler';
+import appSessionFactory, { AppCookies, GetAppSession } from './session';
+import withPageAuthRequiredFactory, {
+  WithPageAuthRequiredAppRouter,
+  WithPageAuthRequiredAppRouterOptions
+} from './with-page-auth-required';
+
+/**
+ * The SDK instance for the App Router.
+ *
+ * @category Server
+ */
+export interface ZeusIdentityAppRouter {
+  /**
+   * Session getter for Server Components, Server Actions and Route Handlers
+   */
+  getSession: GetAppSession;
+
+  /**
+   * Create the auth route handlers
+   */
+  handleAuth: HandleAppAuth;
+
+  /**
+   * Helper that protects pages and layouts
+   */
+  withPageAuthRequired: WithPageAuthRequiredAppRouter;
+}
+
+/**
+ * Initialise your own instance of the SDK for the App Router. It takes the same configuration as
+ * {@link InitZeusIdentity}.
+ *
+ * The default exports of `@zeushq/nextjs-zidentity/app` share their instance with the default exports of
+ * `@zeushq/nextjs-zidentity`. An instance created here doesn't share anything with a Pages Router instance, it has its
+ * own in-memory logout store, session registry and refresh token de-duplication. So if an app uses both routers with
+ * custom instances, configure a shared `store` for the logout store and session registry, or back-channel logouts
+ * and revoked sessions seen by one router are missed by the other.
+ *
+ * @category Server
+ */
+export type InitZeusIdentity = (params?: Omit<ConfigParameters, 'resolveConfig'>) => ZeusIdentityAppRouter;
+
+let instance: ZeusIdentityAppRouter;
+
+function getInstance(): ZeusIdentityAppRouter {
+  if (instance) {
+    return instance;
+  }
+  // Use the default Pages Router instance, so both routers share its in-memory state.
+  instance = fromServer(
+    { getSession: getServerSession, handleAuth: serverHandleAuth },
+    getConfig().nextConfig.routes.login
+  );
+  return instance;
+}
+
+// `next/headers` and `next/navigation` only exist in versions of Next.js with the App Router, so they're loaded
+// when they're first used rather than when this module is imported.
+/* eslint-disable @typescript-eslint/no-var-requires */
+const cookies = (): AppCookies => require('next/headers').cookies();
+const redirect = (url: string): never => (require('next/navigation').redirect as (url: string) => never)(url);
+/* eslint-enable @typescript-eslint/no-var-requires */
+
+const fromServer = (
+  server: { getSession: GetSession; handleAuth: HandleAuth },
+  loginUrl: string
+): ZeusIdentityAppRouter => {
+  const getSession = appSessionFactory(server.getSession, cookies);
+  const handleAuth = appRouteHandlerFactory(server.handleAuth);
+  const withPageAuthRequired = withPageAuthRequiredFactory(loginUrl, getSession, redirect);
+
+  return { getSession, handleAuth, withPageAuthRequired };
+};
+
+export const initZeusIdentity: InitZeusIdentity = (params) =>
+  fromServer(initServer(params), getConfig(params).nextConfig.routes.login);
+
+export const getSession: GetAppSession = (...args) => getInstance().getSession(...args);
+export const handleAuth: HandleAppAuth = (...args) => getInstance().handleAuth(...args);
+export const withPageAuthRequired: WithPageAuthRequiredAppRouter = (...args) =>
+  getInstance().withPageAuthRequired(...args);
+
+export {
+  AppRouteHandler,
+  GetAppSession,
+  HandleAppAuth,
+  Handlers,
+  OnError,
+  WithPageAuthRequiredAppRouter,
+  WithPageAuthRequiredAppRouterOptions,
+  ConfigParameters,
+  Session,
+  Claims
+};
@@ -0,0 +1,131 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { Socket } from 'net';
+import { parse } from 'querystring';
+import { NextApiRequest, NextApiResponse } from 'next';
+
+/**
+ * @ignore
+ */
+const readBody = async (request: Request): Promise<any> => {
+  if (request.method === 'GET' || request.method === 'HEAD') {
+    return undefined;
+  }
+  const contentType = request.headers.get('content-type') || '';
+  // Keep binary bodies as a `Buffer`, so the proxy route can send them on unchanged.
+  if (contentType.includes('application/octet-stream')) {
+    return Buffer.from(await request.arrayBuffer());
+  }
+  const text = await request.text();
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    return { ...parse(text) };
+  }
+  if (contentType.includes('application/json')) {
+    return text ? JSON.parse(text) : undefined;
+  }
+  return text || undefined;
+};
+
+/**
+ * Build a Node request, shaped like the one the Pages Router gives API routes, from a web `Request` so the App
+ * Router can reuse the API route handlers.
+ *
+ * @ignore
+ */
+export const toNodeRequest = async (
+  request: Request,
+  query: { [key: string]: string | string[] } = {}
+): Promise<NextApiRequest> => {
+  const url = new URL(request.url);
+  const req = new IncomingMessage(new Socket()) as NextApiRequest;
+  req.method = request.method;
+  req.url = `${url.pathname}${url.search}`;
+  request.headers.forEach((value, key) => {
+    req.headers[key.toLowerCase()] = value;
+  });
+  req.query = { ...parse(url.search.slice(1)), ...query } as NextApiRequest['query'];
+  req.body = await readBody(request);
+  // The body has been read, so end the stream.
+  req.push(null);
+  return req;
+};
+
+/**
+ * Build a Node response that records what the API route handlers write to it, and can then be turned into a web
+ * `Response`.
+ *
+ * @ignore
+ */
+export const createNodeResponse = (
+  req: IncomingMessage
+): { res: NextApiResponse; toResponse: () => Promise<Response> } => {
+  const res = new ServerResponse(req) as NextApiResponse;
+  const chunks: Buffer[] = [];
+  let onEnd: () => void;
+  let onDestroy: (err: Error) => void;
+  // The session cache can hold back the end of the response until the session store has been updated.
+  const ended = new Promise<void>((resolve, reject) => {
+    onEnd = resolve;
+    onDestroy = reject;
+  });
+  ended.catch(() => undefined);
+  const end = res.end.bind(res);
+  const writeHead = res.writeHead.bind(res);
+
+  // Node only keeps the headers passed to `writeHead` in the raw head, so set them where `toResponse` can read them.
+  res.writeHead = (statusCode: number, ...args: any[]): NextApiResponse => {
+    const headers = args[args.length - 1];
+    if (headers && typeof headers === 'object') {
+      Object.keys(headers).forEach((name) => res.setHeader(name, headers[name]));
+    }
+    writeHead(statusCode, ...(typeof args[0] === 'string' ? [args[0]] : []));
+    return res;
+  };
+  res.write = (chunk: any): boolean => {
+    chunks.push(Buffer.from(chunk));
+    return true;
+  };
+  res.end = (chunk?: any): NextApiResponse => {
+    if (chunk && typeof chunk !== 'function') {
+      chunks.push(Buffer.from(chunk));
+    }
+    // Let the response write its head, which also runs the `on-headers` listeners that save the session.
+    end();
+    onEnd();
+    return res;
+  };
+  res.destroy = (err?: Error): NextApiResponse => {
+    onDestroy(err || new Error('The response was destroyed'));
+    return res;
+  };
+  res.status = (statusCode: number): NextApiResponse => {
+    res.statusCode = statusCode;
+    return res;
+  };
+  res.json = (body: any): void => {
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(JSON.stringify(body));
+  };
+  res.send = (body: any): void => {
+    if (typeof body === 'object' && !Buffer.isBuffer(body)) {
+      return res.json(body);
+    }
+    res.end(body);
+  };
+
+  const toResponse = async (): Promise<Response> => {
+    await ended;
+    const headers = new Headers();
+    const outgoing = res.getHeaders();
+    Object.keys(outgoing).forEach((name) => {
+      const value = outgoing[name];
+      if (Array.isArray(value)) {
+        value.forEach((item) => headers.append(name, item));
+      } else if (value !== undefined) {
+        headers.set(name, `${value}`);
+      }
+    });
+    return new Response(chunks.length ? Buffer.concat(chunks) : null, { status: res.statusCode, headers });
+  };
+
+  return { res, toResponse };
+};
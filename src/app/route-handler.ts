@@ -0,0 +1,42 @@
+import { HandleAuth, Handlers } from '../handlers';
+import { createNodeResponse, toNodeRequest } from './node-bridge';
+
+/**
+ * An App Router route handler.
+ *
+ * @category Server
+ */
+export type AppRouteHandler = (req: Request, ctx: { params: { zidentity: string | string[] } }) => Promise<Response>;
+
+/**
+ * The App Router version of {@link HandleAuth}. Create the file `app/api/auth/[...zidentity]/route.js`, eg
+ *
+ * ```js
+ * // app/api/auth/[...zidentity]/route.js
+ * import { handleAuth } from '@zeushq/nextjs-zidentity/app';
+ *
+ * export const GET = handleAuth();
+ * export const POST = handleAuth();
+ * ```
+ *
+ * This creates the same routes as the Pages Router `pages/api/auth/[...zidentity].js` handler, and takes the same
+ * custom {@link Handlers}.
+ *
+ * @category Server
+ */
+export type HandleAppAuth = (userHandlers?: Partial<Handlers>) => AppRouteHandler;
+
+/**
+ * @ignore
+ */
+export default function appRouteHandlerFactory(handleAuth: HandleAuth): HandleAppAuth {
+  return (userHandlers) => {
+    const handler = handleAuth(userHandlers);
+    return async (request, { params }): Promise<Response> => {
+      const req = await toNodeRequest(request, { zidentity: params.zidentity });
+      const { res, toResponse } = createNodeResponse(req);
+      await handler(req, res);
+      return await toResponse();
+    };
+  };
+}
@@ -0,0 +1,47 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { Socket } from 'net';
+import { GetSession, Session } from '../session';
+
+/**
+ * The cookies of the current request, as returned by `cookies()` from `next/headers`.
+ *
+ * @ignore
+ */
+export interface AppCookies {
+  getAll(): { name: string; value: string }[];
+}
+
+/**
+ * Get the user's session in a Server Component, Server Action or Route Handler.
+ *
+ * ```js
+ * // app/profile/page.js
+ * import { getSession } from '@zeushq/nextjs-zidentity/app';
+ *
+ * export default async function Profile() {
+ *   const session = await getSession();
+ *   return <div>Hello {session?.user.name}</div>;
+ * }
+ * ```
+ *
+ * Server Components can't set cookies, so reading the session here doesn't extend a
+ * {@link SessionConfig.rolling rolling} session.
+ *
+ * @category Server
+ */
+export type GetAppSession = () => Promise<Session | null | undefined>;
+
+/**
+ * @ignore
+ */
+export default function appSessionFactory(getSession: GetSession, getCookies: () => AppCookies): GetAppSession {
+  return () => {
+    const req = new IncomingMessage(new Socket());
+    req.headers.cookie = getCookies()
+      .getAll()
+      .map(({ name, value }) => `${name}=${value}`)
+      .join('; ');
+    // The response is never sent, so nothing the session cache writes to it reaches the browser.
+    return getSession(req, new ServerResponse(req));
+  };
+}
@@ -0,0 +1,59 @@
+import { GetAppSession } from './session';
+
+/**
+ * Options for {@link WithPageAuthRequiredAppRouter}.
+ *
+ * @category Server
+ */
+export interface WithPageAuthRequiredAppRouterOptions<P> {
+  /**
+   * Where to return the user to after login. Server Components don't know the url they were rendered for, so set
+   * this to the page's path, or build it from the page's props (`params` and `searchParams`).
+   * Default is `/`.
+   */
+  returnTo?: string | ((props: P) => string);
+}
+
+/**
+ * Wrap an App Router page or layout to make sure the user is authenticated before it renders.
+ *
+ * ```js
+ * // app/profile/page.js
+ * import { withPageAuthRequired, getSession } from '@zeushq/nextjs-zidentity/app';
+ *
+ * export default withPageAuthRequired(
+ *   async function Profile() {
+ *     const { user } = await getSession();
+ *     return <div>Hello {user.name}</div>;
+ *   },
+ *   { returnTo: '/profile' }
+ * );
+ * ```
+ *
+ * If the user doesn't have a valid session, `redirect()` from `next/navigation` sends them to the login route.
+ *
+ * @category Server
+ */
+export type WithPageAuthRequiredAppRouter = <P>(
+  component: (props: P) => any,
+  options?: WithPageAuthRequiredAppRouterOptions<P>
+) => (props: P) => Promise<any>;
+
+/**
+ * @ignore
+ */
+export default function withPageAuthRequiredFactory(
+  loginUrl: string,
+  getSession: GetAppSession,
+  redirect: (url: string) => never
+): WithPageAuthRequiredAppRouter {
+  return (component, { returnTo = '/' } = {}) =>
+    async (props): Promise<any> => {
+      const session = await getSession();
+      if (!session?.user) {
+        const url = typeof returnTo === 'function' ? returnTo(props) : returnTo;
+        redirect(`${loginUrl}?returnTo=${encodeURIComponent(url)}`);
+      }
+      return component(props);
+    };
+}
@@ -1,6 +1,7 @@
 import { IncomingMessage } from 'http';
-import { AuthorizationParameters as OidcAuthorizationParameters } from 'openid-client';
-import { LoginOptions, DeepPartial, getConfig as getBaseConfig } from './zsession';
+import { JSONWebKey } from 'jose';
+import { AuthorizationParameters as OidcAuthorizationParameters, IssuerMetadata } from 'openid-client';
+import { LoginOptions, DeepPartial, SessionStore, Events, getConfig as getBaseConfig } from './zsession';
 
 /**
  * @category server
@@ -19,6 +20,62 @@ export interface BaseConfig {
    */
   session: SessionConfig;
 
+  /**
+   * An async key/value store used to keep sessions on the server, eg the bundled `MemoryStore` or `FileStore`.
+   * When set, the session cookie only holds a signed session id and the tokens and claims are kept in the store,
+   * which keeps the cookie small and lets you revoke sessions on the server by deleting them from the store.
+   *
+   * ```js
+   * // utils/zidentity.js
+   * import { initZeusIdentity, FileStore } from '@zeushq/nextjs-zidentity';
+   *
+   * export default initZeusIdentity({ store: new FileStore({ dir: '.sessions' }) });
+   * ```
+   *
+   * You can provide your own store (eg for Redis) by implementing {@link SessionStore}.
+   */
+  store?: SessionStore;
+
+  /**
+   * Boolean value to record every session in a registry with its user agent, IP address and creation time, so you
+   * can list a user's sessions with {@link GetSessions} and sign them out of a device with {@link RevokeSession},
+   * eg to build a "signed-in devices" page. Revoked sessions are rejected the next time they're read.
+   * The registry is kept in the {@link store}, use a shared store in production because the default in-memory store
+   * isn't shared between servers, a warning is logged when there isn't one. Default is `false`
+   * You can also use the ZIDENTITY_SESSION_REGISTRY environment variable.
+   */
+  sessionRegistry: boolean;
+
+  /**
+   * Boolean value to read the IP address the {@link sessionRegistry} records from the `X-Forwarded-For` header
+   * instead of the connection. Only enable it when your app runs behind a proxy that sets the header (eg Vercel),
+   * because clients can set it too. Default is `false`
+   * You can also use the ZIDENTITY_TRUST_PROXY environment variable.
+   */
+  trustProxy: boolean;
+
+  /**
+   * Callbacks that are called on authentication events, eg to keep an audit trail.
+   *
+   * ```js
+   * // utils/zidentity.js
+   * import { initZeusIdentity } from '@zeushq/nextjs-zidentity';
+   *
+   * export default initZeusIdentity({
+   *   events: {
+   *     onLoginSuccess: ({ session }) => audit('login', session.user.sub),
+   *     onLogout: ({ session }) => audit('logout', session.user.sub),
+   *     onSessionRejected: ({ reason }) => audit('session_rejected', reason)
+   *   }
+   * });
+   * ```
+   *
+   * The callbacks can be async and are awaited, an error thrown by a callback is logged with `console.error` but
+   * doesn't fail the request.
+   * See {@link Events} for all the events.
+   */
+  events: Events;
+
   /**
    * Boolean value to enable Zeus Identity's proprietary logout feature.
    * Since this SDK is for Zeus Identity, it's set to `true`by default.
@@ -76,6 +133,42 @@ export interface BaseConfig {
    */
   clientSecret?: string;
 
+  /**
+   * The method used to authenticate your application at the token endpoint, one of `client_secret_basic`,
+   * `client_secret_post`, `private_key_jwt`, `tls_client_auth` or `none`.
+   * Defaults to `private_key_jwt` when a {@link clientAssertionSigningKey} is set, `none` for the `id_token`
+   * response type and `client_secret_basic` otherwise.
+   * You can also use the ZIDENTITY_CLIENT_AUTH_METHOD environment variable.
+   */
+  clientAuthMethod: string;
+
+  /**
+   * The private RSA, EC or OKP key, as a PEM string or a JWK, used to sign the client assertion when
+   * {@link clientAuthMethod} is `private_key_jwt`.
+   * You can also use the ZIDENTITY_CLIENT_ASSERTION_SIGNING_KEY environment variable.
+   */
+  clientAssertionSigningKey?: string | JSONWebKey;
+
+  /**
+   * The algorithm used to sign the client assertion, eg `RS256` or `ES256`.
+   * Defaults to an algorithm the key supports and the issuer accepts.
+   * You can also use the ZIDENTITY_CLIENT_ASSERTION_SIGNING_ALG environment variable.
+   */
+  clientAssertionSigningAlg?: string;
+
+  /**
+   * The PEM encoded client certificate presented to the authorization server when {@link clientAuthMethod} is
+   * `tls_client_auth`.
+   * You can also use the ZIDENTITY_TLS_CLIENT_CERTIFICATE environment variable.
+   */
+  tlsClientCertificate?: string;
+
+  /**
+   * The PEM encoded private key of the {@link tlsClientCertificate}.
+   * You can also use the ZIDENTITY_TLS_CLIENT_KEY environment variable.
+   */
+  tlsClientKey?: string;
+
   /**
    * Integer value for the system clock's tolerance (leeway) in seconds for ID token verification.`
    * Default is 60
@@ -118,7 +211,8 @@ export interface BaseConfig {
 
   /**
    * Array value of claims to remove from the ID token before storing the cookie session.
-   * Default is `['aud', 'iss', 'iat', 'exp', 'nbf', 'nonce', 'azp', 'auth_time', 's_hash', 'at_hash', 'c_hash' ]`
+   * Default is `['aud', 'iss', 'iat', 'exp', 'nbf', 'nonce', 'azp', 's_hash', 'at_hash', 'c_hash' ]`
+   * Don't filter out `acr`, `amr` or `auth_time` if you use the step-up `acr` and `maxAge` options.
    */
   identityClaimFilter: string[];
 
@@ -137,10 +231,36 @@ export interface BaseConfig {
   /**
    * REQUIRED. The root URL for the token issuer with no trailing slash.
    * This is `https://` plus your Zeus Identity domain
+   * Defaults to the `issuer` of the {@link issuerMetadata} when that is set.
    * You can also use the ZIDENTITY_ISSUER_BASE_URL environment variable.
    */
   issuerBaseURL: string;
 
+  /**
+   * The issuer's metadata, as served from its `/.well-known/openid-configuration`. When it's set the SDK doesn't
+   * discover the issuer, which saves a round trip on every cold start of a serverless function, eg
+   *
+   * ```js
+   * // utils/zidentity.js
+   * import { initZeusIdentity } from '@zeushq/nextjs-zidentity';
+   * import issuerMetadata from './openid-configuration.json';
+   *
+   * export default initZeusIdentity({ issuerMetadata });
+   * ```
+   *
+   * The issuer's JWKS is still fetched from its `jwks_uri` when an ID Token is first validated, and fetched again
+   * when an ID Token is signed with a key (`kid`) that isn't in it.
+   */
+  issuerMetadata?: IssuerMetadata;
+
+  /**
+   * Integer value in seconds to cache the discovered issuer metadata. After that the issuer is discovered again in
+   * the background, and the cached metadata is used until that succeeds, so metadata changes are picked up without
+   * slowing down any request. Not used with {@link issuerMetadata}. Default is 600 (10 minutes)
+   * You can also use the ZIDENTITY_DISCOVERY_CACHE_MAX_AGE environment variable.
+   */
+  discoveryCacheMaxAge: number;
+
   /**
    * Set a fallback cookie with no `SameSite` attribute when `response_mode` is `form_post`.
    * The default `response_mode` for this SDK is `query` so this defaults to `false`
@@ -148,6 +268,23 @@ export interface BaseConfig {
    */
   legacySameSiteCookie: boolean;
 
+  /**
+   * Boolean value to send the authorization parameters, including the login state, to the issuer's Pushed
+   * Authorization Request endpoint and redirect to the authorization endpoint with only the `client_id` and
+   * `request_uri`. This keeps long login states out of the redirect URL.
+   * Ignored when the issuer doesn't advertise a `pushed_authorization_request_endpoint`. Default is `false`
+   * You can also use the ZIDENTITY_PUSHED_AUTHORIZATION_REQUESTS environment variable.
+   */
+  pushedAuthorizationRequests: boolean;
+
+  /**
+   * Boolean value to also revoke the Access Token, and the ones cached in {@link Session.accessTokens} for other
+   * audiences, at the issuer's `revocation_endpoint` on logout, for when they're accepted by APIs that introspect
+   * them. The Refresh Token is always revoked when the issuer has a `revocation_endpoint`. Default is `false`
+   * You can also use the ZIDENTITY_REVOKE_ACCESS_TOKEN_ON_LOGOUT environment variable.
+   */
+  revokeAccessTokenOnLogout: boolean;
+
   /**
    * Boolean value to automatically install the login and logout routes.
    */
@@ -267,6 +404,10 @@ export interface CookieConfig {
  *
  * The library uses `response_mode: 'query'` and `response_type: 'code'` (with PKCE) by default.
  *
+ * The implicit (`id_token`) and hybrid (`code id_token`) flows use `response_mode: 'form_post'`, the identity
+ * provider POSTs the response to the callback route and its ID Token is checked against the `nonce` of the login
+ * (and its `c_hash` against the code for the hybrid flow).
+ *
  * @category Server
  */
 export interface AuthorizationParameters extends OidcAuthorizationParameters {
@@ -278,7 +419,7 @@ export interface AuthorizationParameters extends OidcAuthorizationParameters {
 /**
  * @category server
  */
-export interface NextConfig extends Pick<BaseConfig, 'identityClaimFilter'> {
+export interface NextConfig extends Pick<BaseConfig, 'identityClaimFilter' | 'events'> {
   /**
    * Log users in to a specific organization.
    *
@@ -288,11 +429,78 @@ export interface NextConfig extends Pick<BaseConfig, 'identityClaimFilter'> {
    * If your app supports multiple organizations, you should take a look at {@Link AuthorizationParams.organization}
    */
   organization?: string;
+
+  /**
+   * Integer value in seconds, an access token that expires within this many seconds is refreshed (or treated as
+   * expired if there's no refresh token) by {@link GetAccessToken}, to allow for clock skew and request latency.
+   * Default is 60
+   * You can also use the ZIDENTITY_REFRESH_SKEW environment variable.
+   */
+  refreshSkew: number;
+
+  /**
+   * The name of the claim in the ID token or access token that holds the user's roles, used by the `roles` option
+   * of {@link WithApiAuthRequired}. Default is `roles`
+   * You can also use the ZIDENTITY_ROLES_CLAIM environment variable.
+   */
+  rolesClaim: string;
+
+  /**
+   * The name of the claim in the ID token or access token that holds the user's permissions, used by the
+   * `permissions` option of {@link WithApiAuthRequired}. Default is `permissions`
+   * You can also use the ZIDENTITY_PERMISSIONS_CLAIM environment variable.
+   */
+  permissionsClaim: string;
+
+  /**
+   * The upstream APIs that the {@link HandleProxy proxy route} can call with the user's Access Token, by name, eg
+   *
+   * ```js
+   * proxy: {
+   *   shows: { url: 'https://shows.example.com/api', audience: 'https://shows.example.com' }
+   * }
+   * ```
+   *
+   * A request to `/api/auth/proxy/shows/v1/list` is then sent on to `https://shows.example.com/api/v1/list`.
+   * Default is `{}`, no APIs.
+   */
+  proxy: { [api: string]: ProxyTarget };
   routes: {
     login: string;
+
+    /**
+     * Relative path to your app's error page. When set, a browser navigation to the login, callback or logout
+     * {@link HandleAuth} routes that fails is redirected here with the error in the `error` and `error_description`
+     * query parameters (eg `/auth-error?error=access_denied&error_description=...`), instead of getting a plain text
+     * response.
+     * You can also use the ZIDENTITY_ERROR_PAGE environment variable.
+     */
+    error?: string;
   };
 }
 
+/**
+ * An upstream API for the {@link NextConfig.proxy proxy route}.
+ *
+ * @category Server
+ */
+export interface ProxyTarget {
+  /**
+   * The base URL of the API, the rest of the proxy route's path is appended to it.
+   */
+  url: string;
+
+  /**
+   * The audience to get the Access Token for, see {@link AccessTokenRequest.audience}.
+   */
+  audience?: string;
+
+  /**
+   * The scopes the Access Token needs, see {@link AccessTokenRequest.scopes}.
+   */
+  scopes?: string[];
+}
+
 /**
  * ## Configuration properties.
  *
@@ -324,18 +532,32 @@ export interface NextConfig extends Pick<BaseConfig, 'identityClaimFilter'> {
  *
  * ### Optional
  *
+ * - `ZIDENTITY_CLIENT_AUTH_METHOD`: See {@link clientAuthMethod}
+ * - `ZIDENTITY_CLIENT_ASSERTION_SIGNING_KEY`: See {@link clientAssertionSigningKey}
+ * - `ZIDENTITY_CLIENT_ASSERTION_SIGNING_ALG`: See {@link clientAssertionSigningAlg}
+ * - `ZIDENTITY_TLS_CLIENT_CERTIFICATE`: See {@link tlsClientCertificate}
+ * - `ZIDENTITY_TLS_CLIENT_KEY`: See {@link tlsClientKey}
  * - `ZIDENTITY_CLOCK_TOLERANCE`: See {@link clockTolerance}
  * - `ZIDENTITY_HTTP_TIMEOUT`: See {@link httpTimeout}
+ * - `ZIDENTITY_DISCOVERY_CACHE_MAX_AGE`: See {@link discoveryCacheMaxAge}
  * - `ZIDENTITY_ENABLE_TELEMETRY`: See {@link enableTelemetry}
  * - `ZIDENTITY_IDP_LOGOUT`: See {@link idpLogout}
  * - `ZIDENTITY_ID_TOKEN_SIGNING_ALG`: See {@link idTokenSigningAlg}
  * - `ZIDENTITY_LEGACY_SAME_SITE_COOKIE`: See {@link legacySameSiteCookie}
+ * - `ZIDENTITY_PUSHED_AUTHORIZATION_REQUESTS`: See {@link pushedAuthorizationRequests}
+ * - `ZIDENTITY_REVOKE_ACCESS_TOKEN_ON_LOGOUT`: See {@link revokeAccessTokenOnLogout}
+ * - `ZIDENTITY_SESSION_REGISTRY`: See {@link sessionRegistry}
+ * - `ZIDENTITY_TRUST_PROXY`: See {@link trustProxy}
  * - `NEXT_PUBLIC_ZIDENTITY_LOGIN`: See {@link NextConfig.routes}
  * - `ZIDENTITY_CALLBACK`: See {@link BaseConfig.routes}
  * - `ZIDENTITY_POST_LOGOUT_REDIRECT`: See {@link BaseConfig.routes}
+ * - `ZIDENTITY_ERROR_PAGE`: See {@link NextConfig.routes}
  * - `ZIDENTITY_AUDIENCE`: See {@link BaseConfig.authorizationParams}
  * - `ZIDENTITY_SCOPE`: See {@link BaseConfig.authorizationParams}
  * - `ZIDENTITY_ORGANIZATION`: See {@link NextConfig.organization}
+ * - `ZIDENTITY_REFRESH_SKEW`: See {@link NextConfig.refreshSkew}
+ * - `ZIDENTITY_ROLES_CLAIM`: See {@link NextConfig.rolesClaim}
+ * - `ZIDENTITY_PERMISSIONS_CLAIM`: See {@link NextConfig.permissionsClaim}
  * - `ZIDENTITY_SESSION_NAME`: See {@link SessionConfig.name}
  * - `ZIDENTITY_SESSION_ROLLING`: See {@link SessionConfig.rolling}
  * - `ZIDENTITY_SESSION_ROLLING_DURATION`: See {@link SessionConfig.rollingDuration}
@@ -373,9 +595,55 @@ export interface NextConfig extends Pick<BaseConfig, 'identityClaimFilter'> {
  * **Note** If you use {@link InitZeusIdentity}, you should *not* use the other named exports as they
  * will use a different instance of the SDK.
  *
+ * ### 3. Resolve the configuration per request with {@link ResolveConfig}
+ *
+ * If one app serves many customer domains, each with its own client, pass a `resolveConfig` function to
+ * {@link InitZeusIdentity} and return the settings of the tenant that the request is for:
+ *
+ * ```js
+ * // utils/zidentity.js
+ * import { initZeusIdentity } from '@zeushq/nextjs-zidentity';
+ * import tenants from './tenants';
+ *
+ * export default initZeusIdentity({
+ *   secret: process.env.ZIDENTITY_SECRET,
+ *   resolveConfig(req) {
+ *     const { clientID, clientSecret, issuerBaseURL } = tenants[req.headers.host];
+ *     return { clientID, clientSecret, issuerBaseURL, baseURL: `https://${req.headers.host}` };
+ *   }
+ * });
+ * ```
+ *
+ * @category Server
+ */
+export type ConfigParameters = DeepPartial<BaseConfig & NextConfig> & {
+  /**
+   * Resolve the tenant's configuration per request, see {@link ResolveConfig}.
+   */
+  resolveConfig?: ResolveConfig;
+};
+
+/**
+ * Returns the configuration of the tenant that a request is for. It's merged over the other {@link ConfigParameters}
+ * (and the environment variables), key by key.
+ *
+ * The SDK keeps one instance, with its own openid-client `Client`, for each tenant (each `issuerBaseURL`, `clientID`
+ * and `baseURL`). Each tenant's cookies are signed and encrypted with keys derived from the `secret` and the tenant, so
+ * a session cookie from one tenant is never accepted by another.
+ *
+ * The instances are kept for the life of the server, so `resolveConfig` must return one of a bounded set of
+ * configurations, eg by looking the tenant up in a list as above. Don't build the `issuerBaseURL`, `clientID` or
+ * `baseURL` from values in the request, like the `Host` header, without checking them, or every new value would create
+ * and keep another instance.
+ *
+ * The helpers that don't get a request, `getClientCredentialsToken`, `introspectAccessToken`, `getSessions` and
+ * `revokeSession`, can't be used in this mode.
+ *
  * @category Server
  */
-export type ConfigParameters = DeepPartial<BaseConfig & NextConfig>;
+export type ResolveConfig = (
+  req: IncomingMessage
+) => Omit<ConfigParameters, 'resolveConfig'> | Promise<Omit<ConfigParameters, 'resolveConfig'>>;
 
 /**
  * @ignore
@@ -413,17 +681,31 @@ export const getConfig = (params: ConfigParameters = {}): { baseConfig: BaseConf
   const ZIDENTITY_BASE_URL = process.env.ZIDENTITY_BASE_URL;
   const ZIDENTITY_CLIENT_ID = process.env.ZIDENTITY_CLIENT_ID;
   const ZIDENTITY_CLIENT_SECRET = process.env.ZIDENTITY_CLIENT_SECRET;
+  const ZIDENTITY_CLIENT_AUTH_METHOD = process.env.ZIDENTITY_CLIENT_AUTH_METHOD;
+  const ZIDENTITY_CLIENT_ASSERTION_SIGNING_KEY = process.env.ZIDENTITY_CLIENT_ASSERTION_SIGNING_KEY;
+  const ZIDENTITY_CLIENT_ASSERTION_SIGNING_ALG = process.env.ZIDENTITY_CLIENT_ASSERTION_SIGNING_ALG;
+  const ZIDENTITY_TLS_CLIENT_CERTIFICATE = process.env.ZIDENTITY_TLS_CLIENT_CERTIFICATE;
+  const ZIDENTITY_TLS_CLIENT_KEY = process.env.ZIDENTITY_TLS_CLIENT_KEY;
   const ZIDENTITY_CLOCK_TOLERANCE = process.env.ZIDENTITY_CLOCK_TOLERANCE;
   const ZIDENTITY_HTTP_TIMEOUT = process.env.ZIDENTITY_HTTP_TIMEOUT;
+  const ZIDENTITY_DISCOVERY_CACHE_MAX_AGE = process.env.ZIDENTITY_DISCOVERY_CACHE_MAX_AGE;
   const ZIDENTITY_ENABLE_TELEMETRY = process.env.ZIDENTITY_ENABLE_TELEMETRY;
   const ZIDENTITY_IDP_LOGOUT = process.env.ZIDENTITY_IDP_LOGOUT;
   const ZIDENTITY_ID_TOKEN_SIGNING_ALG = process.env.ZIDENTITY_ID_TOKEN_SIGNING_ALG;
   const ZIDENTITY_LEGACY_SAME_SITE_COOKIE = process.env.ZIDENTITY_LEGACY_SAME_SITE_COOKIE;
+  const ZIDENTITY_PUSHED_AUTHORIZATION_REQUESTS = process.env.ZIDENTITY_PUSHED_AUTHORIZATION_REQUESTS;
+  const ZIDENTITY_REVOKE_ACCESS_TOKEN_ON_LOGOUT = process.env.ZIDENTITY_REVOKE_ACCESS_TOKEN_ON_LOGOUT;
+  const ZIDENTITY_SESSION_REGISTRY = process.env.ZIDENTITY_SESSION_REGISTRY;
+  const ZIDENTITY_TRUST_PROXY = process.env.ZIDENTITY_TRUST_PROXY;
   const ZIDENTITY_CALLBACK = process.env.ZIDENTITY_CALLBACK;
   const ZIDENTITY_POST_LOGOUT_REDIRECT = process.env.ZIDENTITY_POST_LOGOUT_REDIRECT;
+  const ZIDENTITY_ERROR_PAGE = process.env.ZIDENTITY_ERROR_PAGE;
   const ZIDENTITY_AUDIENCE = process.env.ZIDENTITY_AUDIENCE;
   const ZIDENTITY_SCOPE = process.env.ZIDENTITY_SCOPE;
   const ZIDENTITY_ORGANIZATION = process.env.ZIDENTITY_ORGANIZATION;
+  const ZIDENTITY_REFRESH_SKEW = process.env.ZIDENTITY_REFRESH_SKEW;
+  const ZIDENTITY_ROLES_CLAIM = process.env.ZIDENTITY_ROLES_CLAIM;
+  const ZIDENTITY_PERMISSIONS_CLAIM = process.env.ZIDENTITY_PERMISSIONS_CLAIM;
   const ZIDENTITY_SESSION_NAME = process.env.ZIDENTITY_SESSION_NAME;
   const ZIDENTITY_SESSION_ROLLING = process.env.ZIDENTITY_SESSION_ROLLING;
   const ZIDENTITY_SESSION_ROLLING_DURATION = process.env.ZIDENTITY_SESSION_ROLLING_DURATION;
@@ -440,7 +722,7 @@ export const getConfig = (params: ConfigParameters = {}): { baseConfig: BaseConf
       ? `https://${ZIDENTITY_BASE_URL}`
       : ZIDENTITY_BASE_URL;
 
-  const { organization, ...baseParams } = params;
+  const { organization, refreshSkew, rolesClaim, permissionsClaim, proxy, ...baseParams } = params;
 
   const baseConfig = getBaseConfig({
     secret: ZIDENTITY_SECRET,
@@ -448,13 +730,23 @@ export const getConfig = (params: ConfigParameters = {}): { baseConfig: BaseConf
     baseURL: baseURL,
     clientID: ZIDENTITY_CLIENT_ID,
     clientSecret: ZIDENTITY_CLIENT_SECRET,
+    clientAuthMethod: ZIDENTITY_CLIENT_AUTH_METHOD,
+    clientAssertionSigningKey: ZIDENTITY_CLIENT_ASSERTION_SIGNING_KEY,
+    clientAssertionSigningAlg: ZIDENTITY_CLIENT_ASSERTION_SIGNING_ALG,
+    tlsClientCertificate: ZIDENTITY_TLS_CLIENT_CERTIFICATE,
+    tlsClientKey: ZIDENTITY_TLS_CLIENT_KEY,
     clockTolerance: num(ZIDENTITY_CLOCK_TOLERANCE),
     httpTimeout: num(ZIDENTITY_HTTP_TIMEOUT),
+    discoveryCacheMaxAge: num(ZIDENTITY_DISCOVERY_CACHE_MAX_AGE),
     enableTelemetry: bool(ZIDENTITY_ENABLE_TELEMETRY),
     idpLogout: bool(ZIDENTITY_IDP_LOGOUT, true),
     zIdentityLogout: bool(ZIDENTITY_IDP_LOGOUT, true),
     idTokenSigningAlg: ZIDENTITY_ID_TOKEN_SIGNING_ALG,
     legacySameSiteCookie: bool(ZIDENTITY_LEGACY_SAME_SITE_COOKIE),
+    pushedAuthorizationRequests: bool(ZIDENTITY_PUSHED_AUTHORIZATION_REQUESTS),
+    revokeAccessTokenOnLogout: bool(ZIDENTITY_REVOKE_ACCESS_TOKEN_ON_LOGOUT),
+    sessionRegistry: bool(ZIDENTITY_SESSION_REGISTRY),
+    trustProxy: bool(ZIDENTITY_TRUST_PROXY),
     ...baseParams,
     authorizationParams: {
       response_type: 'code',
@@ -490,10 +782,16 @@ export const getConfig = (params: ConfigParameters = {}): { baseConfig: BaseConf
   const nextConfig = {
     routes: {
       ...baseConfig.routes,
-      login: baseParams.routes?.login || getLoginUrl()
+      login: baseParams.routes?.login || getLoginUrl(),
+      error: baseParams.routes?.error || ZIDENTITY_ERROR_PAGE
     },
     identityClaimFilter: baseConfig.identityClaimFilter,
-    organization: organization || ZIDENTITY_ORGANIZATION
+    events: baseConfig.events,
+    organization: organization || ZIDENTITY_ORGANIZATION,
+    refreshSkew: refreshSkew ?? num(ZIDENTITY_REFRESH_SKEW) ?? 60,
+    rolesClaim: rolesClaim || ZIDENTITY_ROLES_CLAIM || 'roles',
+    permissionsClaim: permissionsClaim || ZIDENTITY_PERMISSIONS_CLAIM || 'permissions',
+    proxy: (proxy || {}) as { [api: string]: ProxyTarget }
   };
 
   return { baseConfig, nextConfig };
@@ -0,0 +1,130 @@
+/* eslint-disable no-console */
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { DevIdpOptions } from './config';
+import { startDevIdp } from './index';
+
+/**
+ * @ignore
+ */
+const USAGE = `Usage: zidentity-dev-idp [options]
+
+Start a local identity provider for developing your app offline.
+
+Options:
+  --config <file>    JSON file with the options, eg the users, organizations and claims
+  --port <port>      port to listen on (default: 4000)
+  --base-url <url>   URL of your app (default: http://localhost:3000)
+  --env-file <file>  write the ZIDENTITY_* environment variables to this file, eg .env.local
+  --help             show this help
+`;
+
+/**
+ * @ignore
+ */
+export interface CliArgs {
+  config?: string;
+  port?: number;
+  baseURL?: string;
+  envFile?: string;
+  help?: boolean;
+}
+
+/**
+ * @ignore
+ */
+export const parseArgs = (argv: string[]): CliArgs => {
+  const args: CliArgs = {};
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inlineValue] = argv[i].split(/=(.*)/);
+    const value = (): string => {
+      const next = inlineValue !== undefined ? inlineValue : argv[++i];
+      if (next === undefined) {
+        throw new TypeError(`"${flag}" needs a value`);
+      }
+      return next;
+    };
+    switch (flag) {
+      case '--config':
+        args.config = value();
+        break;
+      case '--port':
+        args.port = parseInt(value(), 10);
+        break;
+      case '--base-url':
+        args.baseURL = value();
+        break;
+      case '--env-file':
+        args.envFile = value();
+        break;
+      case '--help':
+      case '-h':
+        args.help = true;
+        break;
+      default:
+        throw new TypeError(`Unknown option "${flag}"`);
+    }
+  }
+  return args;
+};
+
+/**
+ * @ignore
+ */
+const readLines = (file: string): string[] => (existsSync(file) ? readFileSync(file, 'utf8').split('\n') : []);
+
+/**
+ * @ignore
+ */
+const readEnvVar = (file: string, name: string): string | undefined => {
+  const line = readLines(file).find((value) => value.split('=')[0].trim() === name);
+  return line && line.slice(line.indexOf('=') + 1).trim();
+};
+
+/**
+ * Set the variables in an env file, keeping the rest of it.
+ *
+ * @ignore
+ */
+export const writeEnvFile = (file: string, env: { [name: string]: string }): void => {
+  const lines = readLines(file).filter((line) => !Object.keys(env).includes(line.split('=')[0].trim()));
+  while (lines.length && !lines[lines.length - 1]) {
+    lines.pop();
+  }
+  const vars = Object.keys(env).map((name) => `${name}=${env[name]}`);
+  writeFileSync(file, `${lines.concat(vars).join('\n')}\n`);
+};
+
+/**
+ * @ignore
+ */
+export const main = async (argv: string[]): Promise<void> => {
+  const { config, port, baseURL, envFile, help } = parseArgs(argv);
+  if (help) {
+    console.log(USAGE);
+    return;
+  }
+  const options: DevIdpOptions = config ? JSON.parse(readFileSync(resolve(config), 'utf8')) : {};
+  // Keep the app's session secret, so restarting doesn't log everyone out.
+  const secret = options.secret || (envFile && readEnvVar(envFile, 'ZIDENTITY_SECRET'));
+  const idp = await startDevIdp({
+    ...options,
+    ...(secret && { secret }),
+    ...(port !== undefined && { port }),
+    ...(baseURL && { baseURL })
+  });
+
+  console.log(`Development identity provider running at ${idp.issuer}\n`);
+  if (envFile) {
+    writeEnvFile(envFile, idp.env);
+    console.log(`Wrote the environment variables to ${envFile}\n`);
+  } else {
+    console.log(`Add these environment variables to your app:\n`);
+    Object.keys(idp.env).forEach((name) => console.log(`${name}=${idp.env[name]}`));
+    console.log();
+  }
+  console.log(`Log in with any of: ${idp.users.map(({ sub, email }) => email || sub).join(', ')}`);
+
+  process.once('SIGINT', () => idp.close());
+  process.once('SIGTERM', () => idp.close());
+};
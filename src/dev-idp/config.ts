@@ -0,0 +1,161 @@
+import Joi from 'joi';
+
+/**
+ * A user that can log in to the development identity provider.
+ *
+ * @category Server
+ */
+export interface DevIdpUser {
+  /**
+   * The user's id, you log in with it or with the user's `email`.
+   */
+  sub: string;
+
+  email?: string;
+
+  name?: string;
+
+  /**
+   * The user's roles, in the {@link DevIdpOptions.rolesClaim} claim.
+   */
+  roles?: string[];
+
+  /**
+   * The id of the user's organization, one of {@link DevIdpOptions.organizations}. It's in the `org_id` claim and
+   * its name in the `org_name` claim.
+   */
+  organization?: string;
+
+  /**
+   * Any other claim of the user.
+   */
+  [claim: string]: unknown;
+}
+
+/**
+ * An organization users of the development identity provider can belong to.
+ *
+ * @category Server
+ */
+export interface DevIdpOrganization {
+  id: string;
+  name?: string;
+}
+
+/**
+ * Configure the development identity provider, see {@link StartDevIdp}.
+ *
+ * @category Server
+ */
+export interface DevIdpOptions {
+  /**
+   * The port to listen on, defaults to `4000`. Use `0` to listen on any free port.
+   */
+  port?: number;
+
+  /**
+   * The host to listen on, defaults to `localhost`.
+   */
+  host?: string;
+
+  /**
+   * The URL of your app, defaults to `http://localhost:3000`. It's the app's {@link BaseConfig.baseURL}.
+   */
+  baseURL?: string;
+
+  /**
+   * The path of your app's callback route, defaults to `/api/auth/callback`.
+   */
+  callback?: string;
+
+  /**
+   * The client id of your app, defaults to `zidentity-dev`.
+   */
+  clientID?: string;
+
+  /**
+   * The client secret of your app, defaults to `zidentity-dev-secret`.
+   */
+  clientSecret?: string;
+
+  /**
+   * The secret your app encrypts its session cookies with, defaults to a random one.
+   */
+  secret?: string;
+
+  /**
+   * The users that can log in, defaults to a single `dev-user`.
+   */
+  users?: DevIdpUser[];
+
+  /**
+   * The organizations the users belong to.
+   */
+  organizations?: DevIdpOrganization[];
+
+  /**
+   * Claims to add to every user, the users' own claims take precedence.
+   */
+  claims?: { [claim: string]: unknown };
+
+  /**
+   * The claim with the user's roles, defaults to `roles`. It's the app's {@link NextConfig.rolesClaim}.
+   */
+  rolesClaim?: string;
+}
+
+/**
+ * @ignore
+ */
+export type DevIdpConfig = Required<Omit<DevIdpOptions, 'secret'>> & { secret?: string };
+
+/**
+ * @ignore
+ */
+const paramsSchema = Joi.object({
+  port: Joi.number().integer().min(0).max(65535).optional().default(4000),
+  host: Joi.string().optional().default('localhost'),
+  baseURL: Joi.string()
+    .uri({ scheme: ['http', 'https'] })
+    .optional()
+    .default('http://localhost:3000'),
+  callback: Joi.string().uri({ relativeOnly: true }).optional().default('/api/auth/callback'),
+  clientID: Joi.string().optional().default('zidentity-dev'),
+  clientSecret: Joi.string().optional().default('zidentity-dev-secret'),
+  secret: Joi.string().min(8).optional(),
+  organizations: Joi.array()
+    .items(Joi.object({ id: Joi.string().required(), name: Joi.string().optional() }))
+    .unique('id')
+    .optional()
+    .default([]),
+  users: Joi.array()
+    .items(
+      Joi.object({
+        sub: Joi.string().required(),
+        email: Joi.string().optional(),
+        name: Joi.string().optional(),
+        roles: Joi.array().items(Joi.string()).optional(),
+        organization: Joi.string()
+          .valid(Joi.in('/organizations', { adjust: (orgs) => orgs.map(({ id }: DevIdpOrganization) => id) }))
+          .optional()
+          .messages({ 'any.only': '{{#label}} must be the id of one of the "organizations"' })
+      }).unknown(true)
+    )
+    .min(1)
+    .unique('sub')
+    .optional()
+    .default([{ sub: 'dev-user', email: 'dev@example.com', name: 'Dev User' }]),
+  claims: Joi.object().unknown(true).optional().default({}),
+  rolesClaim: Joi.string().optional().default('roles')
+});
+
+/**
+ * @ignore
+ */
+export const getConfig = (params: DevIdpOptions = {}): DevIdpConfig => {
+  const { value, error } = paramsSchema.validate(params);
+  if (error) {
+    throw new TypeError(error.details[0].message);
+  }
+  return value;
+};
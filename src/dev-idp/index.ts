@@ -0,0 +1,197 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { randomBytes } from 'crypto';
+import { JWK } from 'jose';
+import urlJoin from 'url-join';
+import { DevIdpConfig, DevIdpOptions, DevIdpOrganization, DevIdpUser, getConfig } from './config';
+
+/**
+ * A running development identity provider.
+ *
+ * @category Server
+ */
+export interface DevIdp {
+  /**
+   * The issuer's URL, it's the app's {@link BaseConfig.issuerBaseURL}.
+   */
+  issuer: string;
+
+  /**
+   * The `ZIDENTITY_*` environment variables that configure your app to log in with this identity provider.
+   */
+  env: { [name: string]: string };
+
+  /**
+   * The users that can log in.
+   */
+  users: DevIdpUser[];
+
+  /**
+   * Stop the identity provider.
+   */
+  close: () => Promise<void>;
+}
+
+/**
+ * Start a local OpenID Connect identity provider to stand in for Zeus Identity in development, so you can work on
+ * your app offline. It uses [oidc-provider](https://github.com/panva/node-oidc-provider), which you need to install
+ * yourself.
+ *
+ * ```js
+ * // scripts/dev-idp.js
+ * const { startDevIdp } = require('@zeushq/nextjs-zidentity/dev-idp');
+ *
+ * startDevIdp({
+ *   users: [
+ *     { sub: 'alice', email: 'alice@example.com', roles: ['admin'], organization: 'org_1' },
+ *     { sub: 'bob', email: 'bob@example.com', plan: 'free' }
+ *   ],
+ *   organizations: [{ id: 'org_1', name: 'Acme' }]
+ * }).then(({ env }) => console.log(env));
+ * ```
+ *
+ * Set the {@link DevIdp.env} values in your app's `.env.local` and log in with the `sub` or `email` of any of the
+ * users, there's no password. The `zidentity-dev-idp` command does both, see `zidentity-dev-idp --help`.
+ *
+ * The signing keys are generated each time it starts, so sessions with an ID token from a previous run can't be
+ * refreshed.
+ *
+ * @category Server
+ */
+export type StartDevIdp = (options?: DevIdpOptions) => Promise<DevIdp>;
+
+/**
+ * @ignore
+ */
+const STANDARD_CLAIMS = {
+  email: ['email', 'email_verified'],
+  profile: ['name', 'nickname', 'given_name', 'family_name', 'picture', 'locale', 'updated_at']
+};
+
+/**
+ * @ignore
+ */
+const userClaims = (
+  { roles, organization, ...user }: DevIdpUser,
+  { claims, rolesClaim, organizations }: DevIdpConfig
+): { [claim: string]: unknown } => {
+  const org = organizations.find(({ id }) => id === organization) as DevIdpOrganization | undefined;
+  return {
+    ...claims,
+    ...user,
+    ...(roles && { [rolesClaim]: roles }),
+    ...(org && { org_id: org.id, org_name: org.name })
+  };
+};
+
+/**
+ * Every claim that isn't a standard one is returned for the `openid` scope, so the ID token has them.
+ *
+ * @ignore
+ */
+const customClaimNames = (config: DevIdpConfig): string[] => {
+  const standard = ['sub', ...STANDARD_CLAIMS.email, ...STANDARD_CLAIMS.profile];
+  const names = config.users.reduce(
+    (all: string[], user) => all.concat(Object.keys(userClaims(user, config))),
+    Object.keys(config.claims)
+  );
+  return names.filter((name, i) => !standard.includes(name) && names.indexOf(name) === i);
+};
+
+/**
+ * @ignore
+ */
+const listen = (server: ReturnType<typeof createServer>, { port, host }: DevIdpConfig): Promise<number> =>
+  new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.removeListener('error', reject);
+      resolve((server.address() as AddressInfo).port);
+    });
+  });
+
+/**
+ * @ignore
+ */
+export const startDevIdp: StartDevIdp = async (options) => {
+  const config = getConfig(options);
+  // oidc-provider is an optional peer dependency, so it's only loaded when the dev identity provider is used.
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const { Provider } = require('oidc-provider');
+
+  const server = createServer();
+  const port = await listen(server, config);
+  const issuer = `http://${config.host}:${port}`;
+  const findUser = (login: string): DevIdpUser | undefined =>
+    config.users.find(({ sub, email }) => sub === login || email === login);
+
+  let provider;
+  try {
+    provider = new Provider(issuer, {
+      clients: [
+        {
+          client_id: config.clientID,
+          client_secret: config.clientSecret,
+          redirect_uris: [urlJoin(config.baseURL, config.callback)],
+          post_logout_redirect_uris: [config.baseURL],
+          response_types: ['code', 'code id_token', 'id_token'],
+          grant_types: ['authorization_code', 'implicit', 'refresh_token']
+        }
+      ],
+      jwks: { keys: [JWK.generateSync('RSA', 2048, { use: 'sig', alg: 'RS256' }).toJWK(true)] },
+      cookies: { keys: [randomBytes(32).toString('hex')] },
+      claims: { openid: ['sub', ...customClaimNames(config)], ...STANDARD_CLAIMS },
+      scopes: ['openid', 'offline_access'],
+      conformIdTokenClaims: false,
+      features: { devInteractions: { enabled: true } },
+      async findAccount(_ctx: unknown, id: string) {
+        const user = findUser(id);
+        return (
+          user && {
+            accountId: id,
+            claims: () => userClaims(user, config)
+          }
+        );
+      }
+    });
+  } catch (e) {
+    // Don't leave the port taken when the provider can't be created.
+    await new Promise((resolve) => server.close(resolve));
+    throw e;
+  }
+  provider.on('server_error', (_ctx: unknown, error: Error) => console.error(error));
+
+  // The implicit and hybrid flows (`id_token` and `code id_token`) require https redirect URIs that aren't on
+  // localhost, allow http ones for the app in development. oidc-provider creates the `Client.Schema` class for each
+  // `Provider`, so this only changes the validation of this provider's clients.
+  const { invalidate } = provider.Client.Schema.prototype;
+  provider.Client.Schema.prototype.invalidate = function (message: string, code: string): void {
+    if (code === 'implicit-force-https' || code === 'implicit-forbid-localhost') {
+      return;
+    }
+    invalidate.call(this, message, code);
+  };
+
+  const callback = provider.callback();
+  server.on('request', (req: IncomingMessage, res: ServerResponse) => callback(req, res));
+
+  return {
+    issuer,
+    env: {
+      ZIDENTITY_SECRET: config.secret || randomBytes(32).toString('hex'),
+      ZIDENTITY_ISSUER_BASE_URL: issuer,
+      ZIDENTITY_BASE_URL: config.baseURL,
+      ZIDENTITY_CLIENT_ID: config.clientID,
+      ZIDENTITY_CLIENT_SECRET: config.clientSecret,
+      ZIDENTITY_CALLBACK: config.callback,
+      ZIDENTITY_ROLES_CLAIM: config.rolesClaim
+    },
+    users: config.users,
+    close: () =>
+      new Promise((resolve, reject) => {
+        server.close((err) => (err ? reject(err) : resolve()));
+      })
+  };
+};
+
+export { DevIdpOptions, DevIdpUser, DevIdpOrganization };
@@ -0,0 +1,81 @@
+import { ConfigParameters } from '../config';
+
+/**
+ * The subset of the configuration needed to read the session in Edge Middleware.
+ *
+ * @category Server
+ */
+export interface MiddlewareConfig {
+  secret: string[];
+  session: {
+    name: string;
+    rolling: boolean;
+    rollingDuration: number | false;
+    absoluteDuration: number | false;
+  };
+  routes: {
+    login: string;
+    callback: string;
+  };
+}
+
+/**
+ * @ignore
+ */
+const FALSEY = ['n', 'no', 'false', '0', 'off'];
+
+/**
+ * @ignore
+ */
+const bool = (param: string | undefined, defaultValue: boolean): boolean =>
+  param === undefined || param === '' ? defaultValue : !FALSEY.includes(param.toLowerCase().trim());
+
+/**
+ * @ignore
+ */
+const duration = (param: string | undefined, defaultValue: number | false): number | false => {
+  if (param === undefined || param === '') return defaultValue;
+  return isNaN(Number(param)) ? bool(param, true) && defaultValue : +param;
+};
+
+/**
+ * Build the middleware config from the same {@link ConfigParameters} and environment variables as the rest of the
+ * SDK, without the Node only validation in `zsession`.
+ *
+ * @ignore
+ */
+export const getConfig = (params: ConfigParameters = {}): MiddlewareConfig => {
+  // Don't use destructuring here so that the `DefinePlugin` can replace any env vars specified in `next.config.js`
+  const ZIDENTITY_SECRET = process.env.ZIDENTITY_SECRET;
+  const ZIDENTITY_SESSION_NAME = process.env.ZIDENTITY_SESSION_NAME;
+  const ZIDENTITY_SESSION_ROLLING = process.env.ZIDENTITY_SESSION_ROLLING;
+  const ZIDENTITY_SESSION_ROLLING_DURATION = process.env.ZIDENTITY_SESSION_ROLLING_DURATION;
+  const ZIDENTITY_SESSION_ABSOLUTE_DURATION = process.env.ZIDENTITY_SESSION_ABSOLUTE_DURATION;
+  const ZIDENTITY_CALLBACK = process.env.ZIDENTITY_CALLBACK;
+  const NEXT_PUBLIC_ZIDENTITY_LOGIN = process.env.NEXT_PUBLIC_ZIDENTITY_LOGIN;
+
+  const secret = params.secret || ZIDENTITY_SECRET;
+  if (!secret || (Array.isArray(secret) && !secret.length)) {
+    throw new TypeError('"secret" is required');
+  }
+
+  const rolling = params.session?.rolling ?? bool(ZIDENTITY_SESSION_ROLLING, true);
+  const rollingDuration =
+    params.session?.rollingDuration ?? duration(ZIDENTITY_SESSION_ROLLING_DURATION, rolling ? 24 * 60 * 60 : false);
+  const absoluteDuration =
+    params.session?.absoluteDuration ?? duration(ZIDENTITY_SESSION_ABSOLUTE_DURATION, 7 * 24 * 60 * 60);
+
+  return {
+    secret: (Array.isArray(secret) ? secret : [secret]) as string[],
+    session: {
+      name: params.session?.name || ZIDENTITY_SESSION_NAME || 'appSession',
+      rolling,
+      rollingDuration,
+      absoluteDuration: absoluteDuration === true ? 7 * 24 * 60 * 60 : absoluteDuration
+    },
+    routes: {
+      login: params.routes?.login || NEXT_PUBLIC_ZIDENTITY_LOGIN || '/api/auth/login',
+      callback: params.routes?.callback || ZIDENTITY_CALLBACK || '/api/auth/callback'
+    }
+  };
+};
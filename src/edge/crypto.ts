@@ -0,0 +1,122 @@
+/**
+ * Web Crypto versions of the session cookie primitives in `zsession`, so the session can be read where neither
+ * `jose@2` nor `futoin-hkdf` are available, eg Next.js Edge Middleware.
+ */
+
+const ENCRYPTION_INFO = 'JWE CEK';
+const SIGNING_INFO = 'JWS Cookie Signing';
+const BIT_LENGTH = 256;
+const alg = 'dir';
+const enc = 'A256GCM';
+const signingHeader = { alg: 'HS256', b64: false, crit: ['b64'] };
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const encode = (input: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < input.length; i++) {
+    binary += String.fromCharCode(input[i]);
+  }
+  return btoa(binary).replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_');
+};
+
+export const decode = (input: string): Uint8Array => {
+  let base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  while (base64.length % 4) {
+    base64 += '=';
+  }
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Derives the same keys as `zsession/utils/hkdf` using the Web Crypto HKDF implementation.
+ */
+const deriveKey = async (secret: string, info: string): Promise<ArrayBuffer> => {
+  const ikm = await crypto.subtle.importKey('raw', encoder.encode(secret), 'HKDF', false, ['deriveBits']);
+  return crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(), info: encoder.encode(info) },
+    ikm,
+    BIT_LENGTH
+  );
+};
+
+/**
+ * Decrypt a compact `dir`/`A256GCM` JWE made by the `CookieStore`, trying each of the secrets in turn.
+ *
+ * Returns `undefined` if the JWE is malformed or none of the secrets can decrypt it.
+ */
+export const decrypt = async (
+  jwe: string,
+  secrets: string[]
+): Promise<{ header: { [key: string]: any }; cleartext: string } | undefined> => {
+  const parts = jwe.split('.');
+  if (parts.length !== 5) {
+    return undefined;
+  }
+  const [protectedHeader, encryptedKey, iv, ciphertext, tag] = parts;
+
+  let header;
+  try {
+    header = JSON.parse(decoder.decode(decode(protectedHeader)));
+  } catch (e) {
+    return undefined;
+  }
+  if (header.alg !== alg || header.enc !== enc || encryptedKey !== '') {
+    return undefined;
+  }
+
+  const data = new Uint8Array([...decode(ciphertext), ...decode(tag)]);
+  for (const secret of secrets) {
+    try {
+      const key = await crypto.subtle.importKey('raw', await deriveKey(secret, ENCRYPTION_INFO), 'AES-GCM', false, [
+        'decrypt'
+      ]);
+      const cleartext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: decode(iv), additionalData: encoder.encode(protectedHeader), tagLength: 128 },
+        key,
+        data
+      );
+      return { header, cleartext: decoder.decode(cleartext) };
+    } catch (e) {
+      // Try the next secret.
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Verify a cookie value signed by `zsession/transient-store` and return the unsigned value.
+ *
+ * Returns `undefined` if the signature is missing or invalid for all the secrets.
+ */
+export const verifySignedCookie = async (
+  cookie: string,
+  value: string,
+  secrets: string[]
+): Promise<string | undefined> => {
+  const [unsigned, signature] = value.split('.');
+  if (!unsigned || !signature) {
+    return undefined;
+  }
+  const payload = encoder.encode(`${encode(encoder.encode(JSON.stringify(signingHeader)))}.${cookie}=${unsigned}`);
+
+  for (const secret of secrets) {
+    const key = await crypto.subtle.importKey(
+      'raw',
+      await deriveKey(secret, SIGNING_INFO),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    if (await crypto.subtle.verify('HMAC', key, decode(signature), payload)) {
+      return unsigned;
+    }
+  }
+  return undefined;
+};
@@ -0,0 +1,65 @@
+import { NextMiddleware } from 'next/server';
+import sessionFactory, { GetMiddlewareSession } from './session';
+import withMiddlewareAuthRequiredFactory, {
+  WithMiddlewareAuthRequired,
+  WithMiddlewareAuthRequiredOptions
+} from './with-middleware-auth-required';
+import { getConfig, MiddlewareConfig } from './config';
+import { ConfigParameters } from '../config';
+
+/**
+ * The SDK instance for Edge Middleware.
+ *
+ * @category Server
+ */
+export interface ZeusIdentityMiddleware {
+  /**
+   * Session getter
+   */
+  getSession: GetMiddlewareSession;
+
+  /**
+   * Helper that protects pages and API routes from middleware
+   */
+  withMiddlewareAuthRequired: WithMiddlewareAuthRequired;
+}
+
+/**
+ * Initialise your own instance of the SDK for Edge Middleware. It should be passed the same session and route
+ * configuration as {@link InitZeusIdentity}.
+ *
+ * @category Server
+ */
+export type InitZeusIdentity = (params?: Omit<ConfigParameters, 'resolveConfig'>) => ZeusIdentityMiddleware;
+
+let instance: ZeusIdentityMiddleware;
+
+function getInstance(): ZeusIdentityMiddleware {
+  if (instance) {
+    return instance;
+  }
+  instance = initZeusIdentity();
+  return instance;
+}
+
+export const initZeusIdentity: InitZeusIdentity = (params) => {
+  const config = getConfig(params);
+  const getSession = sessionFactory(config);
+  const withMiddlewareAuthRequired = withMiddlewareAuthRequiredFactory(config, getSession);
+
+  return { getSession, withMiddlewareAuthRequired };
+};
+
+export const getSession: GetMiddlewareSession = (...args) => getInstance().getSession(...args);
+export const withMiddlewareAuthRequired: WithMiddlewareAuthRequired =
+  (...args) =>
+  (req, event): ReturnType<NextMiddleware> =>
+    getInstance().withMiddlewareAuthRequired(...args)(req, event);
+
+export {
+  GetMiddlewareSession,
+  WithMiddlewareAuthRequired,
+  WithMiddlewareAuthRequiredOptions,
+  MiddlewareConfig,
+  ConfigParameters
+};
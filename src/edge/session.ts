@@ -0,0 +1,85 @@
+import { parse } from 'cookie';
+import { NextRequest } from 'next/server';
+import Session, { fromJson } from '../session/session';
+import { decrypt, verifySignedCookie } from './crypto';
+import { MiddlewareConfig } from './config';
+
+const epoch = (): number => (Date.now() / 1000) | 0; // eslint-disable-line no-bitwise
+
+/**
+ * Get the user's session in Edge Middleware.
+ *
+ * ```js
+ * // middleware.js
+ * import { NextResponse } from 'next/server';
+ * import { getSession } from '@zeushq/nextjs-zidentity/edge';
+ *
+ * export async function middleware(req) {
+ *   const session = await getSession(req);
+ *   if (!session?.user.isAdmin) {
+ *     return NextResponse.rewrite(new URL('/forbidden', req.url));
+ *   }
+ *   return NextResponse.next();
+ * }
+ * ```
+ *
+ * The middleware can't reach a server-side {@link BaseConfig.store}, so when one is configured the session
+ * has an empty `user` and only tells you that the request has a correctly signed session id. The session is fully
+ * validated when a page or API route reads it.
+ *
+ * @category Server
+ */
+export type GetMiddlewareSession = (req: NextRequest) => Promise<Session | null>;
+
+/**
+ * @ignore
+ */
+const getCookieValue = (cookies: { [key: string]: string }, sessionName: string): string | undefined => {
+  if (sessionName in cookies) {
+    return cookies[sessionName];
+  }
+  if (`${sessionName}.0` in cookies) {
+    return Object.keys(cookies)
+      .map((cookie) => cookie.match(`^${sessionName}\\.(\\d+)$`))
+      .filter((match): match is RegExpMatchArray => !!match)
+      .sort((a, b) => parseInt(a[1], 10) - parseInt(b[1], 10))
+      .map((match) => cookies[match[0]])
+      .join('');
+  }
+  return undefined;
+};
+
+/**
+ * @ignore
+ */
+export default function sessionFactory(config: MiddlewareConfig): GetMiddlewareSession {
+  return async (req) => {
+    const { name: sessionName, rollingDuration, absoluteDuration } = config.session;
+    const value = getCookieValue(parse(req.headers.get('cookie') || ''), sessionName);
+    if (!value) {
+      return null;
+    }
+
+    // A signed session id from a server-side store.
+    if (value.split('.').length === 2) {
+      const id = await verifySignedCookie(sessionName, value, config.secret);
+      return id ? new Session({}) : null;
+    }
+
+    const jwe = await decrypt(value, config.secret);
+    if (!jwe) {
+      return null;
+    }
+    const { iat, uat, exp } = jwe.header;
+    const now = epoch();
+    if (
+      !(exp > now) ||
+      (rollingDuration && !(uat + rollingDuration > now)) ||
+      (typeof absoluteDuration === 'number' && !(iat + absoluteDuration > now))
+    ) {
+      return null;
+    }
+
+    return fromJson(JSON.parse(jwe.cleartext));
+  };
+}
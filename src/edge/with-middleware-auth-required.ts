@@ -0,0 +1,92 @@
+import { NextMiddleware, NextResponse } from 'next/server';
+import { GetMiddlewareSession } from './session';
+import { MiddlewareConfig } from './config';
+
+/**
+ * Options for {@link WithMiddlewareAuthRequired}.
+ *
+ * @category Server
+ */
+export interface WithMiddlewareAuthRequiredOptions {
+  /**
+   * Path prefixes that require a session, eg `['/admin', '/account']` protects `/admin`, `/admin/users` and
+   * `/account/billing` but not `/administrators`. Defaults to every path the middleware runs for.
+   */
+  paths?: string[];
+
+  /**
+   * Your own middleware, which will only be called for authenticated users on protected paths (and for everyone on
+   * unprotected paths).
+   */
+  middleware?: NextMiddleware;
+}
+
+/**
+ * Protect your pages and API routes with Next.js Edge Middleware, eg:
+ *
+ * ```js
+ * // middleware.js
+ * import { withMiddlewareAuthRequired } from '@zeushq/nextjs-zidentity/edge';
+ *
+ * export default withMiddlewareAuthRequired({ paths: ['/admin', '/api/admin'] });
+ * ```
+ *
+ * Anonymous users visiting a protected page are redirected to the login route and returned to the page after login.
+ * Protected API routes (under `/api`) will return a 401 Unauthorized instead.
+ *
+ * The auth routes themselves (login and callback) are never protected.
+ *
+ * @category Server
+ */
+export type WithMiddlewareAuthRequired = (
+  middlewareOrOptions?: NextMiddleware | WithMiddlewareAuthRequiredOptions
+) => NextMiddleware;
+
+/**
+ * @ignore
+ */
+const matchesPrefix = (pathname: string, prefix: string): boolean => {
+  const normalized = prefix.replace(/\/+$/, '');
+  return pathname === normalized || pathname.startsWith(`${normalized}/`) || normalized === '';
+};
+
+/**
+ * @ignore
+ */
+export default function withMiddlewareAuthRequiredFactory(
+  config: MiddlewareConfig,
+  getSession: GetMiddlewareSession
+): WithMiddlewareAuthRequired {
+  return (middlewareOrOptions = {}) => {
+    const { paths, middleware } =
+      typeof middlewareOrOptions === 'function'
+        ? { paths: undefined, middleware: middlewareOrOptions }
+        : middlewareOrOptions;
+
+    return async (req, event) => {
+      const { pathname, search } = req.nextUrl;
+      const { login, callback } = config.routes;
+      const isProtected = !paths || paths.some((prefix) => matchesPrefix(pathname, prefix));
+
+      if (isProtected && ![login, callback].includes(pathname)) {
+        const session = await getSession(req);
+        if (!session?.user) {
+          if (pathname.startsWith('/api/')) {
+            return NextResponse.json(
+              {
+                error: 'not_authenticated',
+                description: 'The user does not have an active session or is not authenticated'
+              },
+              { status: 401 }
+            );
+          }
+          const loginUrl = new URL(login, req.url);
+          loginUrl.searchParams.set('returnTo', `${pathname}${search}`);
+          return NextResponse.redirect(loginUrl);
+        }
+      }
+
+      return middleware ? middleware(req, event) : NextResponse.next();
+    };
+  };
+}
@@ -0,0 +1,77 @@
+import React, { ReactElement } from 'react';
+
+import { useConfig } from './use-config';
+import { getLoginHref, getLogoutHref, LoginActionOptions, LogoutActionOptions } from './use-auth-actions';
+
+/**
+ * @ignore
+ */
+type AnchorProps = Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, 'href'>;
+
+/**
+ * Props for the {@link LoginLink} component, any other props are passed to the `<a>` element.
+ *
+ * @category Client
+ */
+export type LoginLinkProps = AnchorProps & LoginActionOptions & { signup?: boolean };
+
+/**
+ * Props for the {@link LogoutLink} component, any other props are passed to the `<a>` element.
+ *
+ * @category Client
+ */
+export type LogoutLinkProps = AnchorProps & LogoutActionOptions;
+
+/**
+ * A link to the login route configured on the {@link UserProvider}, or to the signup route with the `signup` prop.
+ *
+ * ```js
+ * <LoginLink returnTo="/dashboard" authorizationParams={{ login_hint: 'jane@example.com' }}>Login</LoginLink>
+ * ```
+ *
+ * These are plain links rather than `next/link`, because the login and logout routes are API routes.
+ *
+ * @category Client
+ */
+export type LoginLink = (props: LoginLinkProps) => ReactElement;
+
+/**
+ * A link to the logout route configured on the {@link UserProvider}.
+ *
+ * ```js
+ * <LogoutLink returnTo="/goodbye">Logout</LogoutLink>
+ * ```
+ *
+ * @category Client
+ */
+export type LogoutLink = (props: LogoutLinkProps) => ReactElement;
+
+/**
+ * @ignore
+ */
+export const LoginLink: LoginLink = ({
+  returnTo,
+  authorizationParams,
+  signup = false,
+  children,
+  ...props
+}: LoginLinkProps): ReactElement => {
+  const { loginUrl = '/api/auth/login', signupUrl = '/api/auth/signup' } = useConfig();
+  return (
+    <a {...props} href={getLoginHref(signup ? signupUrl : loginUrl, { returnTo, authorizationParams })}>
+      {children}
+    </a>
+  );
+};
+
+/**
+ * @ignore
+ */
+export const LogoutLink: LogoutLink = ({ returnTo, children, ...props }: LogoutLinkProps): ReactElement => {
+  const { logoutUrl = '/api/auth/logout' } = useConfig();
+  return (
+    <a {...props} href={getLogoutHref(logoutUrl, { returnTo })}>
+      {children}
+    </a>
+  );
+};
@@ -6,3 +6,12 @@ export {
   WithPageAuthRequiredProps,
   WithPageAuthRequiredOptions
 } from './with-page-auth-required';
+export {
+  useAuthActions,
+  UseAuthActions,
+  AuthActions,
+  LoginActionOptions,
+  LogoutActionOptions
+} from './use-auth-actions';
+export { LoginLink, LogoutLink, LoginLinkProps, LogoutLinkProps } from './auth-links';
+export { useAuthenticatedFetch, UseAuthenticatedFetch, AuthenticatedFetch } from './use-authenticated-fetch';
@@ -0,0 +1,117 @@
+import { useCallback } from 'react';
+
+import { useConfig } from './use-config';
+
+/**
+ * Options for the `login` and `signup` actions of the {@link useAuthActions} hook.
+ *
+ * @category Client
+ */
+export interface LoginActionOptions {
+  /**
+   * Path to return the user to after login, must be relative. Default is the `baseURL`.
+   */
+  returnTo?: string;
+
+  /**
+   * Authorization parameters to send to the Identity Provider. The login route only accepts `login_hint`, `ui_locales`,
+   * `acr_values` and `max_age` from the browser, any others are ignored.
+   */
+  authorizationParams?: { [key: string]: string | number | undefined };
+}
+
+/**
+ * Options for the `logout` action of the {@link useAuthActions} hook.
+ *
+ * @category Client
+ */
+export interface LogoutActionOptions {
+  /**
+   * Path to return the user to after logout, must be relative. Default is
+   * {@link BaseConfig.routes.postLogoutRedirect routes.postLogoutRedirect}.
+   */
+  returnTo?: string;
+}
+
+/**
+ * The actions returned from the {@link useAuthActions} hook.
+ *
+ * @category Client
+ */
+export type AuthActions = {
+  login: (options?: LoginActionOptions) => void;
+  signup: (options?: LoginActionOptions) => void;
+  logout: (options?: LogoutActionOptions) => void;
+};
+
+/**
+ * The `useAuthActions` hook, which sends the user to the login, signup and logout routes configured on the
+ * {@link UserProvider}.
+ *
+ * ```js
+ * // components/account.js
+ * import { useAuthActions } from '@zeushq/nextjs-zidentity';
+ *
+ * export default function Account() {
+ *   const { login, logout } = useAuthActions();
+ *
+ *   return (
+ *     <>
+ *       <button onClick={() => login({ returnTo: '/dashboard', authorizationParams: { ui_locales: 'fr' } })}>
+ *         Login
+ *       </button>
+ *       <button onClick={() => logout({ returnTo: '/goodbye' })}>Logout</button>
+ *     </>
+ *   );
+ * }
+ * ```
+ *
+ * @category Client
+ */
+export type UseAuthActions = () => AuthActions;
+
+/**
+ * @ignore
+ */
+export const withQuery = (url: string, params: { [key: string]: string | number | undefined }): string => {
+  const query = Object.keys(params)
+    .filter((key) => params[key] !== undefined)
+    .map((key) => `${encodeURIComponent(key)}=${encodeURIComponent(String(params[key]))}`)
+    .join('&');
+  if (!query) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}${query}`;
+};
+
+/**
+ * @ignore
+ */
+export const getLoginHref = (url: string, { returnTo, authorizationParams }: LoginActionOptions = {}): string =>
+  withQuery(url, { ...authorizationParams, returnTo });
+
+/**
+ * @ignore
+ */
+export const getLogoutHref = (url: string, { returnTo }: LogoutActionOptions = {}): string =>
+  withQuery(url, { returnTo });
+
+/**
+ * @ignore
+ */
+export const useAuthActions: UseAuthActions = () => {
+  const { loginUrl = '/api/auth/login', signupUrl = '/api/auth/signup', logoutUrl = '/api/auth/logout' } = useConfig();
+
+  const login = useCallback(
+    (options?: LoginActionOptions): void => window.location.assign(getLoginHref(loginUrl, options)),
+    [loginUrl]
+  );
+  const signup = useCallback(
+    (options?: LoginActionOptions): void => window.location.assign(getLoginHref(signupUrl, options)),
+    [signupUrl]
+  );
+  const logout = useCallback(
+    (options?: LogoutActionOptions): void => window.location.assign(getLogoutHref(logoutUrl, options)),
+    [logoutUrl]
+  );
+
+  return { login, signup, logout };
+};
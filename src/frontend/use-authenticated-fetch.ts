@@ -0,0 +1,63 @@
+import { useCallback } from 'react';
+
+import { useConfig } from './use-config';
+import { useUser } from './use-user';
+
+/**
+ * The fetch function returned from the {@link useAuthenticatedFetch} hook.
+ *
+ * @category Client
+ */
+export type AuthenticatedFetch = (path: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * The `useAuthenticatedFetch` hook, which calls one of the {@link NextConfig.proxy proxied APIs} through the
+ * {@link HandleProxy} API Route handler, so the user's Access Token stays on the server.
+ *
+ * ```js
+ * // pages/shows.js
+ * import { useEffect, useState } from 'react';
+ * import { useAuthenticatedFetch } from '@zeushq/nextjs-zidentity';
+ *
+ * export default function Shows() {
+ *   const fetchShows = useAuthenticatedFetch('shows');
+ *   const [shows, setShows] = useState([]);
+ *
+ *   useEffect(() => {
+ *     // Calls https://shows.example.com/api/v1/list?page=2 with the user's Access Token
+ *     fetchShows('/v1/list?page=2')
+ *       .then((res) => res.json())
+ *       .then(setShows);
+ *   }, []);
+ *
+ *   return <ul>{shows.map((show) => <li key={show.id}>{show.name}</li>)}</ul>;
+ * }
+ * ```
+ *
+ * When the response is a `401`, eg because the session expired, it calls `checkSession` to update the {@link useUser}
+ * hook and tries the request once more.
+ *
+ * @category Client
+ */
+export type UseAuthenticatedFetch = (api: string) => AuthenticatedFetch;
+
+/**
+ * @ignore
+ */
+export const useAuthenticatedFetch: UseAuthenticatedFetch = (api) => {
+  const { proxyUrl = '/api/auth/proxy' } = useConfig();
+  const { checkSession } = useUser();
+
+  return useCallback(
+    async (path: string, init?: RequestInit): Promise<Response> => {
+      const url = `${proxyUrl}/${encodeURIComponent(api)}/${path.replace(/^\//, '')}`;
+      const response = await fetch(url, init);
+      if (response.status !== 401) {
+        return response;
+      }
+      await checkSession();
+      return fetch(url, init);
+    },
+    [proxyUrl, api, checkSession]
+  );
+};
@@ -2,6 +2,9 @@ import React, { ReactElement, useContext, createContext } from 'react';
 
 export type ConfigContext = {
   loginUrl?: string;
+  signupUrl?: string;
+  logoutUrl?: string;
+  proxyUrl?: string;
 };
 
 const Config = createContext<ConfigContext>({});
@@ -12,7 +15,10 @@ export const useConfig: UseConfig = () => useContext<ConfigContext>(Config);
 
 export default ({
   children,
-  loginUrl = process.env.NEXT_PUBLIC_ZIDENTITY_LOGIN || '/api/auth/login'
+  loginUrl = process.env.NEXT_PUBLIC_ZIDENTITY_LOGIN || '/api/auth/login',
+  signupUrl = process.env.NEXT_PUBLIC_ZIDENTITY_SIGNUP || '/api/auth/signup',
+  logoutUrl = process.env.NEXT_PUBLIC_ZIDENTITY_LOGOUT || '/api/auth/logout',
+  proxyUrl = process.env.NEXT_PUBLIC_ZIDENTITY_PROXY || '/api/auth/proxy'
 }: ConfigProviderProps): ReactElement<ConfigContext> => {
-  return <Config.Provider value={{ loginUrl }}>{children}</Config.Provider>;
+  return <Config.Provider value={{ loginUrl, signupUrl, logoutUrl, proxyUrl }}>{children}</Config.Provider>;
 };
@@ -1,4 +1,4 @@
-import React, { ReactElement, useState, useEffect, useCallback, useContext, createContext } from 'react';
+import React, { ReactElement, useState, useEffect, useCallback, useContext, useRef, createContext } from 'react';
 
 import ConfigProvider, { ConfigContext } from './use-config';
 
@@ -64,10 +64,24 @@ type UserFetcher = (url: string) => Promise<UserProfile | undefined>;
  * If you have used a custom url for your {@link HandleProfile} API Route handler (the default is `/api/auth/me`) then
  * you should specify it here in the `profileUrl` option.
  *
+ * The user is only fetched once, so by default a tab keeps showing the user after they've logged out in another tab.
+ * To keep the tabs in sync you can:
+ *
+ * - set `syncTabs` to tell the other tabs when the user logs in or out, so they check the session too.
+ * - set `refetchOnWindowFocus` to check the session when the window gets the focus.
+ * - set `refetchInterval` to check the session every so many milliseconds.
+ *
  * @category Client
  */
 export type UserProviderProps = React.PropsWithChildren<
-  { user?: UserProfile; profileUrl?: string; fetcher?: UserFetcher } & ConfigContext
+  {
+    user?: UserProfile;
+    profileUrl?: string;
+    fetcher?: UserFetcher;
+    syncTabs?: boolean;
+    refetchOnWindowFocus?: boolean;
+    refetchInterval?: number;
+  } & ConfigContext
 >;
 
 /**
@@ -145,14 +159,55 @@ const userFetcher: UserFetcher = async (url) => {
   return response.ok ? response.json() : undefined;
 };
 
+/**
+ * @ignore
+ */
+const SYNC_KEY = 'zidentity-session';
+
+/**
+ * @ignore
+ */
+type SessionSync = { post: (sub?: string) => void; close: () => void };
+
+/**
+ * Tells the other tabs which user is logged in, using a `BroadcastChannel` or `storage` events in browsers that don't
+ * have one.
+ *
+ * @ignore
+ */
+const createSessionSync = (onMessage: (sub?: string) => void): SessionSync => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(SYNC_KEY);
+    channel.onmessage = ({ data }: MessageEvent): void => onMessage(data.sub);
+    return { post: (sub) => channel.postMessage({ sub }), close: () => channel.close() };
+  }
+  const onStorage = ({ key, newValue }: StorageEvent): void => {
+    if (key === SYNC_KEY && newValue) onMessage(JSON.parse(newValue).sub);
+  };
+  window.addEventListener('storage', onStorage);
+  return {
+    // A `storage` event is only fired when the value changes, hence the timestamp.
+    post: (sub) => window.localStorage.setItem(SYNC_KEY, JSON.stringify({ sub, at: Date.now() })),
+    close: () => window.removeEventListener('storage', onStorage)
+  };
+};
+
 export default ({
   children,
   user: initialUser,
   profileUrl = process.env.NEXT_PUBLIC_ZIDENTITY_PROFILE || '/api/auth/me',
   loginUrl,
-  fetcher = userFetcher
+  signupUrl,
+  logoutUrl,
+  proxyUrl,
+  fetcher = userFetcher,
+  syncTabs = false,
+  refetchOnWindowFocus = false,
+  refetchInterval
 }: UserProviderProps): ReactElement<UserContext> => {
   const [state, setState] = useState<UserProviderState>({ user: initialUser, isLoading: !initialUser });
+  const sub = useRef<string | undefined>();
+  const sync = useRef<SessionSync>();
 
   const checkSession = useCallback(async (): Promise<void> => {
     try {
@@ -174,8 +229,39 @@ export default ({
 
   const { user, error, isLoading } = state;
 
+  useEffect((): (() => void) | void => {
+    if (!syncTabs) return;
+    sync.current = createSessionSync((otherSub) => {
+      if (otherSub !== sub.current) checkSession();
+    });
+    return (): void => {
+      sync.current?.close();
+      sync.current = undefined;
+    };
+  }, [syncTabs, checkSession]);
+
+  useEffect((): void => {
+    sub.current = user?.sub || undefined;
+    if (!isLoading) sync.current?.post(sub.current);
+  }, [user?.sub, isLoading]);
+
+  useEffect((): (() => void) | void => {
+    if (!refetchOnWindowFocus) return;
+    const onFocus = (): void => {
+      checkSession();
+    };
+    window.addEventListener('focus', onFocus);
+    return (): void => window.removeEventListener('focus', onFocus);
+  }, [refetchOnWindowFocus, checkSession]);
+
+  useEffect((): (() => void) | void => {
+    if (!refetchInterval) return;
+    const interval = setInterval(checkSession, refetchInterval);
+    return (): void => clearInterval(interval);
+  }, [refetchInterval, checkSession]);
+
   return (
-    <ConfigProvider loginUrl={loginUrl}>
+    <ConfigProvider loginUrl={loginUrl} signupUrl={signupUrl} logoutUrl={logoutUrl} proxyUrl={proxyUrl}>
       <UserContext.Provider value={{ user, error, isLoading, checkSession }}>{children}</UserContext.Provider>
     </ConfigProvider>
   );
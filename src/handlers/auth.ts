@@ -2,11 +2,16 @@ import { HandleLogin } from './login';
 import { HandleLogout } from './logout';
 import { HandleCallback } from './callback';
 import { HandleProfile } from './profile';
+import { HandleBackchannelLogout } from './backchannel-logout';
+import { HandleProxy } from './proxy';
 import { NextApiHandler, NextApiRequest, NextApiResponse } from 'next';
+import { stringify } from 'querystring';
+import { NextConfig } from '../config';
+import { HandlerError } from '../utils/errors';
 
 /**
  * If you want to add some custom behavior to the default auth handlers, you can pass in custom handlers for
- * `login`, `logout`, `callback` and `profile` eg
+ * `login`, `logout`, `callback`, `profile`, `backchannelLogout` and `proxy` eg
  *
  * ```js
  * // pages/api/auth/[...zidentity].js
@@ -36,8 +41,36 @@ export interface Handlers {
   logout: HandleLogout;
   callback: HandleCallback;
   profile: HandleProfile;
+  backchannelLogout: HandleBackchannelLogout;
+  proxy: HandleProxy;
+  onError: OnError;
 }
 
+/**
+ * Handles the errors thrown by the default auth handlers, eg
+ *
+ * ```js
+ * // pages/api/auth/[...zidentity].js
+ * import { handleAuth } from '@zeushq/nextjs-zidentity';
+ * import { errorReporter } from '../../../utils';
+ *
+ * export default handleAuth({
+ *   onError(req, res, error) {
+ *     errorReporter(error);
+ *     res.redirect(`/oops?code=${error.code}`);
+ *   }
+ * });
+ * ```
+ *
+ * The default responds with the JSON `{ error, error_description }`, where `error` is the error code
+ * (eg `access_denied`). Only browser navigations to the login, callback and logout routes are redirected to the
+ * {@link NextConfig.routes error page} with the same query parameters if you have one, or get the error message as
+ * plain text. The profile, proxy and back-channel logout routes always respond with JSON.
+ *
+ * @category Server
+ */
+export type OnError = (req: NextApiRequest, res: NextApiResponse, error: HandlerError) => Promise<void> | void;
+
 /**
  * The main way to use the server SDK.
  *
@@ -50,12 +83,19 @@ export interface Handlers {
  * export default handleAuth();
  * ```
  *
- * This will create 4 handlers for the following urls:
+ * This will create 6 handlers for the following urls:
  *
  * - `/api/auth/login`: log the user in to your app by redirecting them to your Identity Provider.
+ *   `/api/auth/signup` sends them to the sign up page instead, and `/api/auth/silent-login` checks for an existing
+ *   Identity Provider session with `prompt=none`, it logs the user in if there is one and otherwise just redirects them
+ *   back to `returnTo`.
  * - `/api/auth/callback`: The page that your Identity Provider will redirect the user back to on login.
  * - `/api/auth/logout`: log the user out of your app.
  * - `/api/auth/me`: View the user profile JSON (used by the {@link UseUser} hook)
+ * - `/api/auth/backchannel-logout`: The route that your Identity Provider will POST a `logout_token` to when the
+ *   user logs out elsewhere, set this as the client's Back-Channel Logout URI.
+ * - `/api/auth/proxy/[api]/...`: Call one of the {@link NextConfig.proxy proxied APIs} with the user's Access Token
+ *   (used by the {@link UseAuthenticatedFetch} hook)
  *
  * @category Server
  */
@@ -64,16 +104,62 @@ export type HandleAuth = (userHandlers?: Partial<Handlers>) => NextApiHandler;
 /**
  * @ignore
  */
-const wrapErrorHandling =
-  (fn: NextApiHandler): NextApiHandler =>
-    async (req: NextApiRequest, res: NextApiResponse): Promise<void> => {
-      try {
-        await fn(req, res);
-      } catch (error: any) {
-        console.error(error);
-        res.status(error.status || 500).end(error.message);
-      }
+const NAVIGATION_ROUTES = ['login', 'signup', 'silent-login', 'callback', 'logout'];
+
+/**
+ * Whether the request is a browser navigation to one of the login, callback or logout routes, the other routes are
+ * called by the Identity Provider or with `fetch`.
+ *
+ * @ignore
+ */
+const isNavigation = (req: NextApiRequest): boolean => {
+  const route = Array.isArray(req.query.zidentity) ? req.query.zidentity[0] : req.query.zidentity;
+  if (!route || !NAVIGATION_ROUTES.includes(route)) {
+    return false;
+  }
+  const accept = req.headers.accept || '';
+  return !(
+    req.headers['x-requested-with'] === 'XMLHttpRequest' ||
+    (accept.includes('application/json') && !accept.includes('text/html'))
+  );
+};
+
+/**
+ * @ignore
+ */
+const defaultOnError =
+  (errorPage?: string): OnError =>
+  (req, res, error) => {
+    console.error(error);
+    const status = error.status || 500;
+    const body = {
+      error: error.code || (status < 500 ? 'invalid_request' : 'server_error'),
+      error_description: error.message
     };
+    if (!isNavigation(req)) {
+      res.status(status).json(body);
+      return;
+    }
+    if (errorPage) {
+      res.writeHead(302, { Location: `${errorPage}?${stringify(body)}` });
+      res.end();
+      return;
+    }
+    res.status(status).end(error.message);
+  };
+
+/**
+ * @ignore
+ */
+const wrapErrorHandling =
+  <O>(fn: (req: NextApiRequest, res: NextApiResponse, options?: O) => unknown, onError: OnError) =>
+  async (req: NextApiRequest, res: NextApiResponse, ...options: [O?]): Promise<void> => {
+    try {
+      await fn(req, res, ...options);
+    } catch (error: any) {
+      await onError(req, res, error instanceof HandlerError ? error : new HandlerError(error));
+    }
+  };
 
 /**
  * @ignore
@@ -82,19 +168,30 @@ export default function handlerFactory({
   handleLogin,
   handleLogout,
   handleCallback,
-  handleProfile
+  handleProfile,
+  handleBackchannelLogout,
+  handleProxy,
+  nextConfig
 }: {
   handleLogin: HandleLogin;
   handleLogout: HandleLogout;
   handleCallback: HandleCallback;
   handleProfile: HandleProfile;
+  handleBackchannelLogout: HandleBackchannelLogout;
+  handleProxy: HandleProxy;
+  nextConfig: Pick<NextConfig, 'routes'>;
 }): HandleAuth {
-  return (userHandlers: Partial<Handlers> = {}): NextApiHandler => {
-    const { login, logout, callback, profile } = {
-      login: wrapErrorHandling(handleLogin),
-      logout: wrapErrorHandling(handleLogout),
-      callback: wrapErrorHandling(handleCallback),
-      profile: wrapErrorHandling(handleProfile),
+  return ({
+    onError = defaultOnError(nextConfig.routes.error),
+    ...userHandlers
+  }: Partial<Handlers> = {}): NextApiHandler => {
+    const { login, logout, callback, profile, backchannelLogout, proxy } = {
+      login: wrapErrorHandling(handleLogin, onError),
+      logout: wrapErrorHandling(handleLogout, onError),
+      callback: wrapErrorHandling(handleCallback, onError),
+      profile: wrapErrorHandling(handleProfile, onError),
+      backchannelLogout: wrapErrorHandling(handleBackchannelLogout, onError),
+      proxy: wrapErrorHandling(handleProxy, onError),
       ...userHandlers
     };
     return async (req, res): Promise<void> => {
@@ -109,12 +206,18 @@ export default function handlerFactory({
           return login(req, res) as any;
         case 'signup':
           return login(req, res, { authorizationParams: { signup: true } }) as any;
+        case 'silent-login':
+          return login(req, res, { authorizationParams: { prompt: 'none' } }) as any;
         case 'logout':
           return logout(req, res) as any;
         case 'callback':
           return callback(req, res) as any;
         case 'me':
           return profile(req, res) as any;
+        case 'backchannel-logout':
+          return backchannelLogout(req, res) as any;
+        case 'proxy':
+          return proxy(req, res) as any;
         default:
           res.status(404).end();
       }
@@ -0,0 +1,32 @@
+import { NextApiResponse, NextApiRequest } from 'next';
+import { HandleBackchannelLogout as BaseHandleBackchannelLogout } from '../zsession';
+import { assertReqRes } from '../utils/assert';
+import { HandlerError } from '../utils/errors';
+
+/**
+ * The handler for the `api/auth/backchannel-logout` route.
+ *
+ * Zeus Identity POSTs a signed `logout_token` to this route when the user logs out elsewhere, the user's sessions
+ * are then treated as logged out on their next request.
+ *
+ * The logouts are recorded in the {@link BaseConfig.store}. Without one they're kept in the memory of the server that
+ * received the `logout_token` and a warning is logged, so set a shared store when you run more than one server or on
+ * serverless platforms.
+ *
+ * @category Server
+ */
+export type HandleBackchannelLogout = (req: NextApiRequest, res: NextApiResponse) => Promise<void>;
+
+/**
+ * @ignore
+ */
+export default function handleBackchannelLogoutFactory(handler: BaseHandleBackchannelLogout): HandleBackchannelLogout {
+  return async (req, res): Promise<void> => {
+    try {
+      assertReqRes(req, res);
+      return await handler(req, res);
+    } catch (e: any) {
+      throw new HandlerError(e);
+    }
+  };
+}
@@ -1,5 +1,6 @@
 import { strict as assert } from 'assert';
 import { NextApiResponse, NextApiRequest } from 'next';
+import { parse } from 'querystring';
 import { HandleCallback as BaseHandleCallback } from '../zsession';
 import { Session } from '../session';
 import { assertReqRes } from '../utils/assert';
@@ -115,6 +116,27 @@ const idTokenValidator =
     return session;
   };
 
+/**
+ * With `response_mode=form_post` the identity provider POSTs the callback, read the form body ourselves when the
+ * API Route has Next's body parser turned off.
+ *
+ * @ignore
+ */
+const readFormBody = (req: NextApiRequest): Promise<void> | void => {
+  if (req.method !== 'POST' || req.body !== undefined) {
+    return;
+  }
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(Buffer.from(chunk)));
+    req.on('end', () => {
+      req.body = { ...parse(Buffer.concat(chunks).toString()) };
+      resolve();
+    });
+    req.on('error', reject);
+  });
+};
+
 /**
  * @ignore
  */
@@ -122,6 +144,7 @@ export default function handleCallbackFactory(handler: BaseHandleCallback, confi
   return async (req, res, options = {}): Promise<void> => {
     try {
       assertReqRes(req, res);
+      await readFormBody(req);
       return await handler(req, res, {
         ...options,
         afterCallback: idTokenValidator(options.afterCallback, options.organization || config.organization)
@@ -1,5 +1,7 @@
 export { default as callbackHandler, HandleCallback, CallbackOptions, AfterCallback } from './callback';
 export { default as loginHandler, HandleLogin, LoginOptions, GetLoginState } from './login';
 export { default as logoutHandler, HandleLogout, LogoutOptions } from './logout';
+export { default as backchannelLogoutHandler, HandleBackchannelLogout } from './backchannel-logout';
 export { default as profileHandler, HandleProfile, ProfileOptions, AfterRefetch } from './profile';
-export { default as handlerFactory, Handlers, HandleAuth } from './auth';
+export { default as proxyHandler, HandleProxy } from './proxy';
+export { default as handlerFactory, Handlers, HandleAuth, OnError } from './auth';
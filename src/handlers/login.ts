@@ -103,6 +103,13 @@ export interface LoginOptions {
   getLoginState?: GetLoginState;
 }
 
+/**
+ * The authorization params the login route accepts from the query string.
+ *
+ * @ignore
+ */
+const QUERY_AUTHORIZATION_PARAMS = ['login_hint', 'ui_locales', 'acr_values', 'max_age'];
+
 /**
  * The handler for the `api/auth/login` route.
  *
@@ -126,6 +133,25 @@ export default function handleLoginFactory(handler: BaseHandleLogin, nextConfig:
 
         options = { ...options, returnTo };
       }
+      // The step-up params from `withPageAuthRequired` can only ask for stronger authentication, and `login_hint` and
+      // `ui_locales` only prefill and translate the login page, so a link to the login route can't weaken the login.
+      const queryParams = QUERY_AUTHORIZATION_PARAMS.reduce((params, name) => {
+        const param = req.query[name];
+        const value = Array.isArray(param) ? param[0] : param;
+        return value ? { ...params, [name]: value } : params;
+      }, {} as { [key: string]: any });
+      if (Object.keys(queryParams).length) {
+        if (queryParams.max_age) {
+          if (!/^\d+$/.test(queryParams.max_age)) {
+            throw new Error('Invalid value provided for max_age, must be a number of seconds');
+          }
+          queryParams.max_age = parseInt(queryParams.max_age, 10);
+        }
+        options = {
+          ...options,
+          authorizationParams: { ...queryParams, ...options.authorizationParams }
+        };
+      }
       if (nextConfig.organization) {
         options = {
           ...options,
@@ -1,5 +1,8 @@
 import { NextApiResponse, NextApiRequest } from 'next';
-import { HandleLogout as BaseHandleLogout } from '../zsession';
+import { HandleLogout as BaseHandleLogout, emit } from '../zsession';
+import { SessionCache } from '../session';
+import { NextConfig } from '../config';
+import isSafeRedirect from '../utils/url-helpers';
 import { assertReqRes } from '../utils/assert';
 import { HandlerError } from '../utils/errors';
 
@@ -26,11 +29,28 @@ export type HandleLogout = (req: NextApiRequest, res: NextApiResponse, options?:
 /**
  * @ignore
  */
-export default function handleLogoutFactory(handler: BaseHandleLogout): HandleLogout {
+export default function handleLogoutFactory(
+  handler: BaseHandleLogout,
+  sessionCache: SessionCache,
+  config: Pick<NextConfig, 'events'>
+): HandleLogout {
   return async (req, res, options): Promise<void> => {
     try {
       assertReqRes(req, res);
-      return await handler(req, res, options);
+      if (req.query.returnTo) {
+        const returnTo = Array.isArray(req.query.returnTo) ? req.query.returnTo[0] : req.query.returnTo;
+
+        if (!isSafeRedirect(returnTo)) {
+          throw new Error('Invalid value provided for returnTo, must be a relative url');
+        }
+
+        options = { ...options, returnTo };
+      }
+      const session = await sessionCache.get(req, res);
+      await handler(req, res, options);
+      if (session?.user) {
+        await emit(config.events, 'onLogout', { req, session });
+      }
     } catch (e: any) {
       throw new HandlerError(e);
     }
@@ -0,0 +1,185 @@
+import { NextApiResponse, NextApiRequest } from 'next';
+import http, { IncomingHttpHeaders, OutgoingHttpHeaders } from 'http';
+import https from 'https';
+import { stringify } from 'querystring';
+import { URL } from 'url';
+import urlJoin from 'url-join';
+import { SessionCache, GetAccessToken } from '../session';
+import { NextConfig } from '../config';
+import { assertReqRes } from '../utils/assert';
+import { AccessTokenError, HandlerError } from '../utils/errors';
+
+/**
+ * The handler for the `/api/auth/proxy/[api]/...` route.
+ *
+ * It sends the request on to the {@link NextConfig.proxy API} with the user's Access Token in the `Authorization`
+ * header, so that the browser never needs the token, eg
+ *
+ * ```js
+ * // A request to /api/auth/proxy/shows/v1/list?page=2 from the browser is sent to
+ * // https://shows.example.com/api/v1/list?page=2 with the header `Authorization: Bearer <access token>`
+ * ```
+ *
+ * Only the `Accept`, `Accept-Language`, `Content-Type`, `If-None-Match` and `If-Modified-Since` headers are sent on,
+ * the browser's cookies are not, and any `Set-Cookie` header from the API is dropped.
+ *
+ * Next.js parses the body of API routes, and turns any body that isn't JSON or urlencoded into a utf-8 string, which
+ * corrupts binary payloads. To send those on, give the proxy its own route with the body parser turned off, so the
+ * request is streamed to the API as it is (the other auth routes need the parsed body), eg
+ *
+ * ```js
+ * // pages/api/auth/proxy/[...path].js
+ * import { handleProxy } from '@zeushq/nextjs-zidentity';
+ *
+ * export const config = { api: { bodyParser: false } };
+ *
+ * export default function proxy(req, res) {
+ *   req.query.zidentity = ['proxy', ...req.query.path];
+ *   return handleProxy(req, res);
+ * }
+ * ```
+ *
+ * Use it with the {@link UseAuthenticatedFetch} hook.
+ *
+ * @category Server
+ */
+export type HandleProxy = (req: NextApiRequest, res: NextApiResponse) => Promise<void>;
+
+/**
+ * @ignore
+ */
+const REQUEST_HEADERS = ['accept', 'accept-language', 'content-type', 'if-none-match', 'if-modified-since'];
+
+/**
+ * @ignore
+ */
+const HOP_BY_HOP_HEADERS = [
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade'
+];
+
+/**
+ * @ignore
+ */
+const getBody = (req: NextApiRequest): string | Buffer | undefined => {
+  if (req.body === undefined || req.body === null || req.body === '') {
+    return undefined;
+  }
+  if (typeof req.body === 'string' || Buffer.isBuffer(req.body)) {
+    return req.body;
+  }
+  return (req.headers['content-type'] || '').includes('application/x-www-form-urlencoded')
+    ? stringify(req.body)
+    : JSON.stringify(req.body);
+};
+
+/**
+ * @ignore
+ */
+const forward = (url: URL, req: NextApiRequest, res: NextApiResponse, accessToken: string): Promise<void> => {
+  const headers: OutgoingHttpHeaders = { authorization: `Bearer ${accessToken}` };
+  REQUEST_HEADERS.forEach((name) => {
+    if (req.headers[name]) headers[name] = req.headers[name];
+  });
+  const body = getBody(req);
+  // Without a parsed body (eg with `bodyParser: false`) the request itself is streamed to the API.
+  const stream = body === undefined && !req.readableEnded;
+  if (body !== undefined) {
+    headers['content-length'] = Buffer.byteLength(body);
+  } else if (stream && req.headers['content-length']) {
+    headers['content-length'] = req.headers['content-length'];
+  }
+
+  return new Promise((resolve, reject) => {
+    // Once the API's status and headers have been sent to the browser the error can't be reported any more, so cut
+    // the response short instead.
+    const fail = (err: Error): void => {
+      if (res.headersSent) {
+        res.destroy(err);
+        resolve();
+      } else {
+        reject(err);
+      }
+    };
+    const upstream = (url.protocol === 'https:' ? https : http).request(
+      url,
+      { method: req.method, headers },
+      (upstreamRes) => {
+        const responseHeaders: IncomingHttpHeaders = { ...upstreamRes.headers };
+        [...HOP_BY_HOP_HEADERS, 'set-cookie'].forEach((name) => delete responseHeaders[name]);
+        res.writeHead(upstreamRes.statusCode || 502, responseHeaders);
+        upstreamRes.on('data', (chunk) => res.write(chunk));
+        upstreamRes.on('end', () => {
+          res.end();
+          resolve();
+        });
+        upstreamRes.on('error', fail);
+      }
+    );
+    upstream.on('error', fail);
+    if (stream) {
+      req.pipe(upstream);
+    } else {
+      upstream.end(body);
+    }
+  });
+};
+
+/**
+ * @ignore
+ */
+export default function proxyHandler(
+  getAccessToken: GetAccessToken,
+  sessionCache: SessionCache,
+  config: Pick<NextConfig, 'proxy'>
+): HandleProxy {
+  return async (req, res): Promise<void> => {
+    try {
+      assertReqRes(req, res);
+      const [, api, ...path] = ([] as string[]).concat(req.query.zidentity || []);
+      const target = api && config.proxy[api];
+      if (!target) {
+        res.status(404).json({ error: 'not_found', description: `There is no API called "${api}" to proxy to` });
+        return;
+      }
+
+      // The segments are joined onto the API's url, so they must not be able to leave its path.
+      if (path.some((segment) => segment === '.' || segment === '..')) {
+        res.status(400).json({ error: 'invalid_request', description: 'The path can not have "." or ".." segments' });
+        return;
+      }
+
+      if (!(await sessionCache.isAuthenticated(req, res))) {
+        res.status(401).json({
+          error: 'not_authenticated',
+          description: 'The user does not have an active session or is not authenticated'
+        });
+        return;
+      }
+
+      let accessToken: string | undefined;
+      try {
+        ({ accessToken } = await getAccessToken(req, res, { audience: target.audience, scopes: target.scopes }));
+      } catch (e) {
+        if (!(e instanceof AccessTokenError)) throw e;
+        res.status(401).json({ error: e.code, description: e.message });
+        return;
+      }
+
+      const url = new URL(urlJoin(target.url, ...path.map(encodeURIComponent)));
+      const queryIndex = (req.url || '').indexOf('?');
+      if (queryIndex !== -1) {
+        url.search = (req.url as string).slice(queryIndex);
+      }
+      await forward(url, req, res, accessToken as string);
+    } catch (e: any) {
+      throw new HandlerError(e);
+    }
+  };
+}
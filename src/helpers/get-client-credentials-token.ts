@@ -0,0 +1,125 @@
+import { TokenSet } from 'openid-client';
+import { ClientFactory } from '../zsession';
+import { NextConfig } from '../config';
+import { AccessTokenError } from '../utils/errors';
+
+/**
+ * Custom options to get a client credentials Access Token.
+ *
+ * @category Server
+ */
+export interface ClientCredentialsTokenRequest {
+  /**
+   * The audience (API identifier) of the desired Access Token.
+   */
+  audience?: string;
+
+  /**
+   * A space separated list of desired scopes for the Access Token.
+   */
+  scope?: string;
+}
+
+/**
+ * Response from requesting a client credentials Access Token.
+ *
+ * @category Server
+ */
+export interface ClientCredentialsTokenResult {
+  /**
+   * The Access Token.
+   */
+  accessToken: string;
+
+  /**
+   * The scopes granted to the Access Token.
+   */
+  scope?: string;
+
+  /**
+   * The expiration of the Access Token (in seconds since the epoch).
+   */
+  expiresAt?: number;
+}
+
+/**
+ * Get an Access Token for your application itself with the Client Credentials grant, to call other services
+ * from your API routes when there's no user involved, eg:
+ *
+ * ```js
+ * // pages/api/orders.js
+ * import { getClientCredentialsToken } from '@zeushq/nextjs-zidentity';
+ *
+ * export default async function orders(req, res) {
+ *   const { accessToken } = await getClientCredentialsToken({ audience: 'https://orders.example.com' });
+ *   const response = await fetch('https://orders.example.com/orders', {
+ *     headers: { Authorization: `Bearer ${accessToken}` }
+ *   });
+ *   res.status(response.status).json(await response.json());
+ * }
+ * ```
+ *
+ * The tokens are cached in memory until {@link NextConfig.refreshSkew} seconds before they expire.
+ *
+ * @category Server
+ */
+export type GetClientCredentialsToken = (
+  clientCredentialsTokenRequest?: ClientCredentialsTokenRequest
+) => Promise<ClientCredentialsTokenResult>;
+
+/**
+ * @ignore
+ */
+export default function getClientCredentialsTokenFactory(
+  config: NextConfig,
+  getClient: ClientFactory
+): GetClientCredentialsToken {
+  const cache = new Map<string, ClientCredentialsTokenResult>();
+  const pending = new Map<string, Promise<ClientCredentialsTokenResult>>();
+
+  const grant = async ({ audience, scope }: ClientCredentialsTokenRequest): Promise<ClientCredentialsTokenResult> => {
+    const client = await getClient();
+    const tokenSet: TokenSet = await client.grant({
+      grant_type: 'client_credentials',
+      ...(audience && { audience }),
+      ...(scope && { scope })
+    });
+    if (!tokenSet.access_token) {
+      throw new AccessTokenError(
+        'missing_access_token',
+        'The authorization server did not return an access token for the client credentials grant.'
+      );
+    }
+    return {
+      accessToken: tokenSet.access_token,
+      scope: tokenSet.scope,
+      expiresAt: tokenSet.expires_at
+    };
+  };
+
+  return async (clientCredentialsTokenRequest = {}): Promise<ClientCredentialsTokenResult> => {
+    const { audience = '', scope = '' } = clientCredentialsTokenRequest;
+    const key = `${audience}|${scope.split(' ').sort().join(' ')}`;
+
+    const cached = cache.get(key);
+    if (cached && cached.expiresAt && (cached.expiresAt - config.refreshSkew) * 1000 >= Date.now()) {
+      return cached;
+    }
+    cache.delete(key);
+
+    let request = pending.get(key);
+    if (!request) {
+      request = grant(clientCredentialsTokenRequest)
+        .then((result) => {
+          // Tokens without an expiry aren't cached, because there's no way to tell when they stop working.
+          if (result.expiresAt) {
+            cache.set(key, result);
+          }
+          return result;
+        })
+        .finally(() => pending.delete(key));
+      pending.set(key, request);
+    }
+    return request;
+  };
+}
@@ -1,5 +1,20 @@
-export { default as withApiAuthRequiredFactory, WithApiAuthRequired } from './with-api-auth-required';
+export {
+  default as withApiAuthRequiredFactory,
+  WithApiAuthRequired,
+  WithApiAuthRequiredOptions
+} from './with-api-auth-required';
 export { default as withApiAuthOptionalFactory, WithApiAuthOptional } from './with-api-auth-optional';
+export {
+  default as getClientCredentialsTokenFactory,
+  GetClientCredentialsToken,
+  ClientCredentialsTokenRequest,
+  ClientCredentialsTokenResult
+} from './get-client-credentials-token';
+export {
+  default as introspectAccessTokenFactory,
+  IntrospectAccessToken,
+  IntrospectionResult
+} from './introspect-access-token';
 export {
   default as withPageAuthRequiredFactory,
   GetServerSidePropsResultWithSession,
@@ -0,0 +1,62 @@
+import { ClientFactory } from '../zsession';
+
+/**
+ * The response of the issuer's `introspection_endpoint`, see https://www.rfc-editor.org/rfc/rfc7662#section-2.2
+ *
+ * @category Server
+ */
+export interface IntrospectionResult {
+  /**
+   * Whether the token is currently active, the other properties are only set when it is.
+   */
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  username?: string;
+  token_type?: string;
+  exp?: number;
+  iat?: number;
+  nbf?: number;
+  sub?: string;
+  aud?: string | string[];
+  iss?: string;
+  jti?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Ask the issuer whether an Access Token is active, with its `introspection_endpoint`.
+ *
+ * Use this in APIs that receive opaque Access Tokens, which can't be verified locally like a JWT, eg:
+ *
+ * ```js
+ * // pages/api/orders.js
+ * import { introspectAccessToken } from '@zeushq/nextjs-zidentity';
+ *
+ * export default async function orders(req, res) {
+ *   const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+ *   const { active, scope } = await introspectAccessToken(token);
+ *   if (!active || !scope?.split(' ').includes('read:orders')) {
+ *     res.status(401).end();
+ *     return;
+ *   }
+ *   res.json(await getOrders());
+ * }
+ * ```
+ *
+ * @category Server
+ */
+export type IntrospectAccessToken = (token: string) => Promise<IntrospectionResult>;
+
+/**
+ * @ignore
+ */
+export default function introspectAccessTokenFactory(getClient: ClientFactory): IntrospectAccessToken {
+  return async (token): Promise<IntrospectionResult> => {
+    const client = await getClient();
+    if (!client.issuer.metadata.introspection_endpoint) {
+      throw new Error('The issuer does not have an introspection_endpoint');
+    }
+    return client.introspect(token, 'access_token');
+  };
+}
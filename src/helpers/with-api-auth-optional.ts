@@ -10,8 +10,8 @@ import { assertReqRes } from '../utils/assert';
  * // pages/api/protected-route.js
  * import { withApiAuthOptional, getSession } from '@zeushq/nextjs-zidentity';
  *
- * export default withApiAuthOptional(function ProtectedRoute(req, res) {
- *   const session = getSession(req, res);
+ * export default withApiAuthOptional(async function ProtectedRoute(req, res) {
+ *   const session = await getSession(req, res);
  *   ...
  * });
  * ```
@@ -30,7 +30,7 @@ export default function withApiAuthFactory(sessionCache: SessionCache): WithApiA
         async (req: NextApiRequest, res: NextApiResponse): Promise<void> => {
             assertReqRes(req, res);
 
-            const session = sessionCache.get(req, res);
+            const session = await sessionCache.get(req, res);
 
             if (session) {
                 if ((res as any).locals === undefined) (res as any).locals = {};
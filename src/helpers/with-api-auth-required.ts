@@ -1,6 +1,48 @@
 import { NextApiResponse, NextApiRequest, NextApiHandler } from 'next';
-import { SessionCache } from '../session';
+import { Claims, Session, SessionCache } from '../session';
 import { assertReqRes } from '../utils/assert';
+import { getStepUpParams, isAuthorized, isStepUpSatisfied } from '../utils/claims';
+import { NextConfig } from '../config';
+
+/**
+ * Options to authorize the user of an API Route, see {@link WithApiAuthRequired}.
+ *
+ * @category Server
+ */
+export interface WithApiAuthRequiredOptions {
+  /**
+   * The roles the user must have, all of them, read from the {@link NextConfig.rolesClaim} claim.
+   */
+  roles?: string[];
+
+  /**
+   * The permissions the user must have, all of them, read from the {@link NextConfig.permissionsClaim} claim.
+   */
+  permissions?: string[];
+
+  /**
+   * A custom check of the user's claims, return `false` to deny access.
+   * The claims of the ID token and of the access token (when it's a JWT) are passed separately.
+   *
+   * ```js
+   * withApiAuthRequired(handler, {
+   *   claimCheck: (idTokenClaims, accessTokenClaims) => accessTokenClaims.tenant === 'acme'
+   * });
+   * ```
+   */
+  claimCheck?: (idTokenClaims: Claims, accessTokenClaims: Claims, session: Session) => boolean | Promise<boolean>;
+
+  /**
+   * The authentication context the user must have logged in with, matched against the `acr` claim or the
+   * methods in the `amr` claim, eg `'mfa'`.
+   */
+  acr?: string | string[];
+
+  /**
+   * The most seconds that can have passed since the user logged in, read from the `auth_time` claim.
+   */
+  maxAge?: number;
+}
 
 /**
  * Wrap an API Route to check that the user has a valid session. If they're not logged in the handler will return a
@@ -10,27 +52,43 @@ import { assertReqRes } from '../utils/assert';
  * // pages/api/protected-route.js
  * import { withApiAuthRequired, getSession } from '@zeushq/nextjs-zidentity';
  *
- * export default withApiAuthRequired(function ProtectedRoute(req, res) {
- *   const session = getSession(req, res);
+ * export default withApiAuthRequired(async function ProtectedRoute(req, res) {
+ *   const session = await getSession(req, res);
  *   ...
  * });
  * ```
  *
  * If you visit `/api/protected-route` without a valid session cookie, you will get a 401 response.
  *
+ * You can also require roles, permissions or a custom claim check, see {@link WithApiAuthRequiredOptions}. If the
+ * user doesn't pass them the handler will return a 403 Forbidden with an `insufficient_permissions` error.
+ *
+ * Routes that require step-up authentication return a 401 with an `insufficient_user_authentication` error and the
+ * `acr_values` and `max_age` to send the user to login with, eg
+ * `/api/auth/login?acr_values=mfa&max_age=300&returnTo=/billing`.
+ *
+ * ```js
+ * // pages/api/shows.js
+ * import { withApiAuthRequired } from '@zeushq/nextjs-zidentity';
+ *
+ * export default withApiAuthRequired(async function Shows(req, res) {
+ *   ...
+ * }, { permissions: ['read:shows'] });
+ * ```
+ *
  * @category Server
  */
-export type WithApiAuthRequired = (apiRoute: NextApiHandler) => NextApiHandler;
+export type WithApiAuthRequired = (apiRoute: NextApiHandler, options?: WithApiAuthRequiredOptions) => NextApiHandler;
 
 /**
  * @ignore
  */
-export default function withApiAuthFactory(sessionCache: SessionCache): WithApiAuthRequired {
-  return (apiRoute) =>
+export default function withApiAuthFactory(sessionCache: SessionCache, config: NextConfig): WithApiAuthRequired {
+  return (apiRoute, options = {}) =>
     async (req: NextApiRequest, res: NextApiResponse): Promise<void> => {
       assertReqRes(req, res);
 
-      const session = sessionCache.get(req, res);
+      const session = await sessionCache.get(req, res);
       if (!session || !session.user) {
         res.status(401).json({
           error: 'not_authenticated',
@@ -39,6 +97,24 @@ export default function withApiAuthFactory(sessionCache: SessionCache): WithApiA
         return;
       }
 
+      const { roles, permissions, claimCheck, acr, maxAge } = options;
+      if ((acr !== undefined || maxAge !== undefined) && !isStepUpSatisfied(session, { acr, maxAge })) {
+        res.status(401).json({
+          error: 'insufficient_user_authentication',
+          description: 'The user must authenticate again to access this resource',
+          ...getStepUpParams({ acr, maxAge })
+        });
+        return;
+      }
+
+      if ((roles || permissions || claimCheck) && !(await isAuthorized(session, config, options))) {
+        res.status(403).json({
+          error: 'insufficient_permissions',
+          description: 'The user does not have the roles or permissions required to access this resource'
+        });
+        return;
+      }
+
       if ((res as any).locals === undefined) (res as any).locals = {};
       (res as any).locals.session = session;
       (res as any).locals.user = session.user;
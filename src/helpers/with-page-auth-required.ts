@@ -1,7 +1,10 @@
 import { GetServerSideProps, GetServerSidePropsContext, GetServerSidePropsResult } from 'next';
-import { Claims, GetSession } from '../session';
+import { Claims, GetSession, Session } from '../session';
 import { assertCtx } from '../utils/assert';
+import { getStepUpParams, isAuthorized, isStepUpSatisfied } from '../utils/claims';
+import { NextConfig } from '../config';
 import React, { ComponentType } from 'react';
+import { stringify } from 'querystring';
 import {
   WithPageAuthRequiredOptions as WithPageAuthRequiredCSROptions,
   WithPageAuthRequiredProps
@@ -59,9 +62,73 @@ export type PageRoute = (cts: GetServerSidePropsContext) => Promise<GetServerSid
  * });
  * ```
  *
+ * Sensitive pages can require step-up authentication, users that haven't recently logged in with MFA are sent to
+ * login again, eg:
+ *
+ * ```js
+ * // pages/billing.js
+ * export const getServerSideProps = withPageAuthRequired({ acr: 'mfa', maxAge: 300 });
+ * ```
+ *
+ * You can also require roles, permissions or a custom claim check. Signed in users that don't pass them get a 404,
+ * or are redirected to `forbiddenRedirect` when it's set, eg:
+ *
+ * ```js
+ * // pages/admin.js
+ * import { withPageAuthRequired } from '@zeushq/nextjs-zidentity';
+ *
+ * export default function Admin({ user }) {
+ *   return <div>Admin</div>;
+ * }
+ *
+ * export const getServerSideProps = withPageAuthRequired({
+ *   roles: ['admin'],
+ *   forbiddenRedirect: '/forbidden'
+ * });
+ * ```
+ *
  * @category Server
  */
-export type WithPageAuthRequiredOptions = { getServerSideProps?: GetServerSideProps; returnTo?: string };
+export type WithPageAuthRequiredOptions = {
+  getServerSideProps?: GetServerSideProps;
+  returnTo?: string;
+
+  /**
+   * The roles the user must have, all of them, read from the {@link NextConfig.rolesClaim} claim.
+   */
+  roles?: string[];
+
+  /**
+   * The permissions the user must have, all of them, read from the {@link NextConfig.permissionsClaim} claim.
+   */
+  permissions?: string[];
+
+  /**
+   * A custom check of the user's claims, return `false` to deny access.
+   * The claims of the ID token and of the access token (when it's a JWT) are passed separately.
+   */
+  claimCheck?: (idTokenClaims: Claims, accessTokenClaims: Claims, session: Session) => boolean | Promise<boolean>;
+
+  /**
+   * Where to redirect signed in users that don't have the required roles, permissions or claims.
+   * By default they get a 404 (`notFound`) result.
+   */
+  forbiddenRedirect?: string;
+
+  /**
+   * The authentication context the user must have logged in with, matched against the `acr` claim or the
+   * methods in the `amr` claim, eg `'mfa'`. Users that don't have it are sent to login again with `acr_values`.
+   * If they come back from that login still without it, they are treated like users that are missing a role instead of
+   * being sent again.
+   */
+  acr?: string | string[];
+
+  /**
+   * The most seconds that can have passed since the user logged in, read from the `auth_time` claim. Users that
+   * logged in longer ago are sent to login again with `max_age`.
+   */
+  maxAge?: number;
+};
 
 /**
  * Wrap your `getServerSideProps` with this method to make sure the user is authenticated before visiting the page.
@@ -90,10 +157,26 @@ export type WithPageAuthRequired = {
   ): React.FC<P>;
 };
 
+// The query param added to `returnTo` when the user is sent to login for step-up authentication, with the time they
+// were sent. If they come back within `STEP_UP_RETRY_WINDOW` seconds still not meeting the requirements, the
+// identity provider didn't meet them and access is denied rather than sending them to login again.
+const STEP_UP_PARAM = 'zidentity_step_up';
+const STEP_UP_RETRY_WINDOW = 300;
+
+// Add the step-up marker to the query of a url, leaving the rest of it as it is.
+const withStepUpParam = (url: string, now: number): string => {
+  const [path, ...hash] = url.split('#');
+  return [`${path}${path.includes('?') ? '&' : '?'}${STEP_UP_PARAM}=${now}`, ...hash].join('#');
+};
+
 /**
  * @ignore
  */
-export default function withPageAuthRequiredFactory(loginUrl: string, getSession: GetSession): WithPageAuthRequired {
+export default function withPageAuthRequiredFactory(
+  loginUrl: string,
+  getSession: GetSession,
+  getConfig: () => Pick<NextConfig, 'rolesClaim' | 'permissionsClaim'>
+): WithPageAuthRequired {
   return (
     optsOrComponent: WithPageAuthRequiredOptions | ComponentType<WithPageAuthRequiredProps> = {},
     csrOpts?: WithPageAuthRequiredCSROptions
@@ -101,10 +184,14 @@ export default function withPageAuthRequiredFactory(loginUrl: string, getSession
     if (typeof optsOrComponent === 'function') {
       return withPageAuthRequiredCSR(optsOrComponent, csrOpts);
     }
-    const { getServerSideProps, returnTo } = optsOrComponent;
+    const { getServerSideProps, returnTo, roles, permissions, claimCheck, forbiddenRedirect, acr, maxAge } =
+      optsOrComponent;
+    const forbidden: GetServerSidePropsResultWithSession = forbiddenRedirect
+      ? { redirect: { destination: forbiddenRedirect, permanent: false } }
+      : { notFound: true };
     return async (ctx: GetServerSidePropsContext): Promise<GetServerSidePropsResultWithSession> => {
       assertCtx(ctx);
-      const session = getSession(ctx.req, ctx.res);
+      const session = await getSession(ctx.req, ctx.res);
       if (!session?.user) {
         // 10 - redirect
         // 9.5.4 - unstable_redirect
@@ -116,6 +203,27 @@ export default function withPageAuthRequiredFactory(loginUrl: string, getSession
           }
         };
       }
+      if ((acr !== undefined || maxAge !== undefined) && !isStepUpSatisfied(session, { acr, maxAge })) {
+        // The user is sent back with a marker, so an identity provider that can't or won't meet the requirements
+        // doesn't send the user back and forth. Anyone can add the marker to a url, so it only ever denies access.
+        const requestedAt = Number(([] as string[]).concat(ctx.query?.[STEP_UP_PARAM] || []).pop());
+        const now = Math.floor(Date.now() / 1000);
+        if (now - requestedAt < STEP_UP_RETRY_WINDOW) {
+          return forbidden;
+        }
+        return {
+          redirect: {
+            destination: `${loginUrl}?${stringify({
+              returnTo: withStepUpParam(returnTo || ctx.resolvedUrl, now),
+              ...getStepUpParams({ acr, maxAge })
+            })}`,
+            permanent: false
+          }
+        };
+      }
+      if ((roles || permissions || claimCheck) && !(await isAuthorized(session, getConfig(), optsOrComponent))) {
+        return forbidden;
+      }
       let ret: any = { props: {} };
       if (getServerSideProps) {
         ret = await getServerSideProps(ctx);
@@ -1,7 +1,15 @@
 import { InitZeusIdentity, SignInWithZeusAuth } from './instance';
-import { GetAccessToken, GetSession } from './session';
-import { WithApiAuthRequired } from './helpers';
-import { HandleAuth, HandleCallback, HandleLogin, HandleLogout, HandleProfile } from './handlers';
+import { GetAccessToken, GetSession, GetSessions, RevokeSession } from './session';
+import { GetClientCredentialsToken, IntrospectAccessToken, WithApiAuthRequired } from './helpers';
+import {
+  HandleAuth,
+  HandleBackchannelLogout,
+  HandleCallback,
+  HandleLogin,
+  HandleLogout,
+  HandleProfile,
+  HandleProxy
+} from './handlers';
 export {
   UserProvider,
   UserProviderProps,
@@ -9,7 +17,19 @@ export {
   UserContext,
   useUser,
   withPageAuthRequired,
-  WithPageAuthRequired
+  WithPageAuthRequired,
+  useAuthActions,
+  UseAuthActions,
+  AuthActions,
+  LoginActionOptions,
+  LogoutActionOptions,
+  LoginLink,
+  LogoutLink,
+  LoginLinkProps,
+  LogoutLinkProps,
+  useAuthenticatedFetch,
+  UseAuthenticatedFetch,
+  AuthenticatedFetch
 } from './frontend';
 
 const serverSideOnly = (method: string): string => `The ${method} method can only be used from the server side`;
@@ -21,6 +41,18 @@ const instance: SignInWithZeusAuth = {
   getAccessToken() {
     throw new Error(serverSideOnly('getAccessToken'));
   },
+  getClientCredentialsToken() {
+    throw new Error(serverSideOnly('getClientCredentialsToken'));
+  },
+  introspectAccessToken() {
+    throw new Error(serverSideOnly('introspectAccessToken'));
+  },
+  getSessions() {
+    throw new Error(serverSideOnly('getSessions'));
+  },
+  revokeSession() {
+    throw new Error(serverSideOnly('revokeSession'));
+  },
   withApiAuthRequired() {
     throw new Error(serverSideOnly('withApiAuthRequired'));
   },
@@ -39,6 +71,12 @@ const instance: SignInWithZeusAuth = {
   handleProfile() {
     throw new Error(serverSideOnly('handleProfile'));
   },
+  handleBackchannelLogout() {
+    throw new Error(serverSideOnly('handleBackchannelLogout'));
+  },
+  handleProxy() {
+    throw new Error(serverSideOnly('handleProxy'));
+  },
   handleAuth() {
     throw new Error(serverSideOnly('handleAuth'));
   },
@@ -50,9 +88,16 @@ const instance: SignInWithZeusAuth = {
 export const initZeusIdentity: InitZeusIdentity = () => instance;
 export const getSession: GetSession = (...args) => instance.getSession(...args);
 export const getAccessToken: GetAccessToken = (...args) => instance.getAccessToken(...args);
+export const getClientCredentialsToken: GetClientCredentialsToken = (...args) =>
+  instance.getClientCredentialsToken(...args);
+export const introspectAccessToken: IntrospectAccessToken = (...args) => instance.introspectAccessToken(...args);
+export const getSessions: GetSessions = (...args) => instance.getSessions(...args);
+export const revokeSession: RevokeSession = (...args) => instance.revokeSession(...args);
 export const withApiAuthRequired: WithApiAuthRequired = (...args) => instance.withApiAuthRequired(...args);
 export const handleLogin: HandleLogin = (...args) => instance.handleLogin(...args);
 export const handleLogout: HandleLogout = (...args) => instance.handleLogout(...args);
 export const handleCallback: HandleCallback = (...args) => instance.handleCallback(...args);
 export const handleProfile: HandleProfile = (...args) => instance.handleProfile(...args);
+export const handleBackchannelLogout: HandleBackchannelLogout = (...args) => instance.handleBackchannelLogout(...args);
+export const handleProxy: HandleProxy = (...args) => instance.handleProxy(...args);
 export const handleAuth: HandleAuth = (...args) => instance.handleAuth(...args);
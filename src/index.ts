@@ -1,10 +1,20 @@
 import {
   CookieStore,
+  StatefulStore,
+  LogoutStore,
+  SessionRegistry,
+  SessionRecord,
+  Events,
+  EventSession,
   TransientStore,
   clientFactory,
   loginHandler as baseLoginHandler,
   logoutHandler as baseLogoutHandler,
-  callbackHandler as baseCallbackHandler
+  callbackHandler as baseCallbackHandler,
+  backchannelLogoutHandler as baseBackchannelLogoutHandler,
+  SessionStore,
+  SessionStorePayload,
+  FileStoreOptions
 } from './zsession';
 import {
   handlerFactory,
@@ -12,12 +22,17 @@ import {
   loginHandler,
   logoutHandler,
   profileHandler,
+  proxyHandler,
+  backchannelLogoutHandler,
   Handlers,
   HandleAuth,
+  OnError,
   HandleLogin,
   HandleProfile,
+  HandleProxy,
   HandleLogout,
   HandleCallback,
+  HandleBackchannelLogout,
   LoginOptions,
   LogoutOptions,
   GetLoginState,
@@ -29,18 +44,31 @@ import {
 import {
   sessionFactory,
   accessTokenFactory,
+  getSessionsFactory,
+  revokeSessionFactory,
   SessionCache,
   GetSession,
+  GetSessions,
+  RevokeSession,
   GetAccessToken,
   Session,
+  AudienceAccessToken,
   AccessTokenRequest,
   GetAccessTokenResult,
   Claims
 } from './session/';
 import {
+  getClientCredentialsTokenFactory,
+  GetClientCredentialsToken,
+  ClientCredentialsTokenRequest,
+  ClientCredentialsTokenResult,
+  introspectAccessTokenFactory,
+  IntrospectAccessToken,
+  IntrospectionResult,
   withPageAuthRequiredFactory,
   withApiAuthRequiredFactory,
   WithApiAuthRequired,
+  WithApiAuthRequiredOptions,
   withApiAuthOptionalFactory,
   WithApiAuthOptional,
   WithPageAuthRequired,
@@ -49,8 +77,9 @@ import {
   PageRoute
 } from './helpers';
 import { InitZeusIdentity, SignInWithZeusAuth } from './instance';
+import tenantsFactory from './tenants';
 import version from './version';
-import { getConfig, getLoginUrl, ConfigParameters } from './config';
+import { getConfig, getLoginUrl, ConfigParameters, NextConfig, ResolveConfig } from './config';
 
 let instance: SignInWithZeusAuth;
 
@@ -63,32 +92,56 @@ function getInstance(): SignInWithZeusAuth {
 }
 
 export const initZeusIdentity: InitZeusIdentity = (params) => {
+  if (params?.resolveConfig) {
+    return tenantsFactory({ ...params, resolveConfig: params.resolveConfig }, initZeusIdentity);
+  }
   const { baseConfig, nextConfig } = getConfig(params);
 
   // Init base layer (with base config)
   const getClient = clientFactory(baseConfig, { name: 'nextjs-zidentity', version });
   const transientStore = new TransientStore(baseConfig);
-  const cookieStore = new CookieStore(baseConfig);
-  const sessionCache = new SessionCache(baseConfig, cookieStore);
+  const sessionStore = baseConfig.store ? new StatefulStore(baseConfig, baseConfig.store) : new CookieStore(baseConfig);
+  const logoutStore = new LogoutStore(baseConfig);
+  const sessionRegistry = baseConfig.sessionRegistry ? new SessionRegistry(baseConfig) : undefined;
+  const sessionCache = new SessionCache(baseConfig, sessionStore, logoutStore, sessionRegistry);
   const baseHandleLogin = baseLoginHandler(baseConfig, getClient, transientStore);
   const baseHandleLogout = baseLogoutHandler(baseConfig, getClient, sessionCache);
   const baseHandleCallback = baseCallbackHandler(baseConfig, getClient, sessionCache, transientStore);
+  const baseHandleBackchannelLogout = baseBackchannelLogoutHandler(baseConfig, getClient, logoutStore);
 
   // Init Next layer (with next config)
   const getSession = sessionFactory(sessionCache);
   const getAccessToken = accessTokenFactory(nextConfig, getClient, sessionCache);
-  const withApiAuthRequired = withApiAuthRequiredFactory(sessionCache);
+  const getClientCredentialsToken = getClientCredentialsTokenFactory(nextConfig, getClient);
+  const introspectAccessToken = introspectAccessTokenFactory(getClient);
+  const getSessions = getSessionsFactory(sessionRegistry);
+  const revokeSession = revokeSessionFactory(sessionRegistry);
+  const withApiAuthRequired = withApiAuthRequiredFactory(sessionCache, nextConfig);
   const withApiAuthOptional = withApiAuthOptionalFactory(sessionCache);
-  const withPageAuthRequired = withPageAuthRequiredFactory(nextConfig.routes.login, getSession);
+  const withPageAuthRequired = withPageAuthRequiredFactory(nextConfig.routes.login, getSession, () => nextConfig);
   const handleLogin = loginHandler(baseHandleLogin, nextConfig);
-  const handleLogout = logoutHandler(baseHandleLogout);
+  const handleLogout = logoutHandler(baseHandleLogout, sessionCache, nextConfig);
   const handleCallback = callbackHandler(baseHandleCallback, nextConfig);
   const handleProfile = profileHandler(getClient, getAccessToken, sessionCache);
-  const handleAuth = handlerFactory({ handleLogin, handleLogout, handleCallback, handleProfile });
+  const handleProxy = proxyHandler(getAccessToken, sessionCache, nextConfig);
+  const handleBackchannelLogout = backchannelLogoutHandler(baseHandleBackchannelLogout);
+  const handleAuth = handlerFactory({
+    handleLogin,
+    handleLogout,
+    handleCallback,
+    handleProfile,
+    handleBackchannelLogout,
+    handleProxy,
+    nextConfig
+  });
 
   return {
     getSession,
     getAccessToken,
+    getClientCredentialsToken,
+    introspectAccessToken,
+    getSessions,
+    revokeSession,
     withApiAuthRequired,
     withApiAuthOptional,
     withPageAuthRequired,
@@ -96,49 +149,104 @@ export const initZeusIdentity: InitZeusIdentity = (params) => {
     handleLogout,
     handleCallback,
     handleProfile,
+    handleBackchannelLogout,
+    handleProxy,
     handleAuth
   };
 };
 
 export const getSession: GetSession = (...args) => getInstance().getSession(...args);
 export const getAccessToken: GetAccessToken = (...args) => getInstance().getAccessToken(...args);
+export const getClientCredentialsToken: GetClientCredentialsToken = (...args) =>
+  getInstance().getClientCredentialsToken(...args);
+export const introspectAccessToken: IntrospectAccessToken = (...args) => getInstance().introspectAccessToken(...args);
+export const getSessions: GetSessions = (...args) => getInstance().getSessions(...args);
+export const revokeSession: RevokeSession = (...args) => getInstance().revokeSession(...args);
 export const withApiAuthRequired: WithApiAuthRequired = (...args) => getInstance().withApiAuthRequired(...args);
 export const withApiAuthOptional: WithApiAuthOptional = (...args) => getInstance().withApiAuthOptional(...args);
-export const withPageAuthRequired: WithPageAuthRequired = withPageAuthRequiredFactory(getLoginUrl(), getSession);
+let defaultNextConfig: NextConfig;
+const getDefaultNextConfig = (): NextConfig => {
+  if (!defaultNextConfig) {
+    defaultNextConfig = getConfig().nextConfig;
+  }
+  return defaultNextConfig;
+};
+
+export const withPageAuthRequired: WithPageAuthRequired = withPageAuthRequiredFactory(
+  getLoginUrl(),
+  getSession,
+  getDefaultNextConfig
+);
 export const handleLogin: HandleLogin = (...args) => getInstance().handleLogin(...args);
 export const handleLogout: HandleLogout = (...args) => getInstance().handleLogout(...args);
 export const handleCallback: HandleCallback = (...args) => getInstance().handleCallback(...args);
 export const handleProfile: HandleProfile = (...args) => getInstance().handleProfile(...args);
+export const handleBackchannelLogout: HandleBackchannelLogout = (...args) =>
+  getInstance().handleBackchannelLogout(...args);
+export const handleProxy: HandleProxy = (...args) => getInstance().handleProxy(...args);
 export const handleAuth: HandleAuth = (...args) => getInstance().handleAuth(...args);
 
+export { MemoryStore, FileStore } from './zsession';
+
 export {
   UserProvider,
   UserProviderProps,
   UserProfile,
   UserContext,
   useUser,
-  WithPageAuthRequiredProps
+  WithPageAuthRequiredProps,
+  useAuthActions,
+  UseAuthActions,
+  AuthActions,
+  LoginActionOptions,
+  LogoutActionOptions,
+  LoginLink,
+  LogoutLink,
+  LoginLinkProps,
+  LogoutLinkProps,
+  useAuthenticatedFetch,
+  UseAuthenticatedFetch,
+  AuthenticatedFetch
 } from './frontend';
 
 export {
   ConfigParameters,
+  ResolveConfig,
   HandleAuth,
   HandleLogin,
   HandleProfile,
+  HandleProxy,
   HandleLogout,
   HandleCallback,
+  HandleBackchannelLogout,
   ProfileOptions,
   Handlers,
+  OnError,
   GetServerSidePropsResultWithSession,
   WithPageAuthRequiredOptions,
   PageRoute,
   WithApiAuthRequired,
+  WithApiAuthRequiredOptions,
   WithApiAuthOptional,
   WithPageAuthRequired,
   SessionCache,
+  SessionStore,
+  SessionStorePayload,
+  FileStoreOptions,
   GetSession,
   GetAccessToken,
+  GetSessions,
+  RevokeSession,
+  SessionRecord,
+  Events,
+  EventSession,
+  GetClientCredentialsToken,
+  ClientCredentialsTokenRequest,
+  ClientCredentialsTokenResult,
+  IntrospectAccessToken,
+  IntrospectionResult,
   Session,
+  AudienceAccessToken,
   Claims,
   AccessTokenRequest,
   GetAccessTokenResult,
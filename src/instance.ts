@@ -1,7 +1,21 @@
-import { GetSession, GetAccessToken } from './session';
-import { WithApiAuthOptional, WithApiAuthRequired, WithPageAuthRequired } from './helpers';
-import { HandleAuth, HandleCallback, HandleLogin, HandleLogout, HandleProfile } from './handlers';
-import { ConfigParameters } from './zsession';
+import { GetSession, GetAccessToken, GetSessions, RevokeSession } from './session';
+import {
+  GetClientCredentialsToken,
+  IntrospectAccessToken,
+  WithApiAuthOptional,
+  WithApiAuthRequired,
+  WithPageAuthRequired
+} from './helpers';
+import {
+  HandleAuth,
+  HandleBackchannelLogout,
+  HandleCallback,
+  HandleLogin,
+  HandleLogout,
+  HandleProfile,
+  HandleProxy
+} from './handlers';
+import { ConfigParameters } from './config';
 
 /**
  * The SDK server instance.
@@ -23,6 +37,26 @@ export interface SignInWithZeusAuth {
    */
   getAccessToken: GetAccessToken;
 
+  /**
+   * Client credentials Access Token getter
+   */
+  getClientCredentialsToken: GetClientCredentialsToken;
+
+  /**
+   * Access Token introspection method, for APIs that receive opaque Access Tokens.
+   */
+  introspectAccessToken: IntrospectAccessToken;
+
+  /**
+   * Getter for a user's sessions in the session registry
+   */
+  getSessions: GetSessions;
+
+  /**
+   * Revoke a session in the session registry
+   */
+  revokeSession: RevokeSession;
+
   /**
    * Login handler which will redirect the user to ZeusAuth.
    */
@@ -43,6 +77,16 @@ export interface SignInWithZeusAuth {
    */
   handleProfile: HandleProfile;
 
+  /**
+   * Back-channel logout handler which will log out the sessions named in a `logout_token` from ZeusAuth.
+   */
+  handleBackchannelLogout: HandleBackchannelLogout;
+
+  /**
+   * Proxy handler which calls an upstream API with the user's Access Token.
+   */
+  handleProxy: HandleProxy;
+
   /**
    * Helper that adds auth to an API Route
    */
@@ -67,7 +111,7 @@ export interface SignInWithZeusAuth {
 /**
  * Initialise your own instance of the SDK.
  *
- * See {@link Config}
+ * See {@link Config}, and {@link ResolveConfig} to resolve the configuration per request.
  *
  * @category Server
  */
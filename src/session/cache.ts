@@ -2,56 +2,179 @@ import { IncomingMessage, ServerResponse } from 'http';
 import { NextApiRequest, NextApiResponse } from 'next';
 import { TokenSet } from 'openid-client';
 import onHeaders from 'on-headers';
-import { Config, SessionCache as ISessionCache, CookieStore } from '../zsession';
+import {
+  Config,
+  SessionCache as ISessionCache,
+  CookieStore,
+  StatefulStore,
+  LogoutStore,
+  SessionRegistry,
+  emit
+} from '../zsession';
+import createDebug from '../zsession/utils/debug';
 import Session, { fromJson, fromTokenSet } from './session';
 
+const debug = createDebug('session-cache');
+
 type NextApiOrPageRequest = IncomingMessage | NextApiRequest;
 type NextApiOrPageResponse = ServerResponse | NextApiResponse;
 
 export default class SessionCache implements ISessionCache {
   private cache: WeakMap<NextApiOrPageRequest, Session | null>;
+  private iatCache: WeakMap<NextApiOrPageRequest, number | undefined>;
+  private pendingSaves: WeakMap<NextApiOrPageRequest, Promise<void>>;
 
-  constructor(private config: Config, private cookieStore: CookieStore) {
+  constructor(
+    private config: Config,
+    private sessionStore: CookieStore | StatefulStore,
+    private logoutStore?: LogoutStore,
+    private sessionRegistry?: SessionRegistry
+  ) {
     this.cache = new WeakMap();
+    this.iatCache = new WeakMap();
+    this.pendingSaves = new WeakMap();
+  }
+
+  private save(req: NextApiOrPageRequest, res: NextApiOrPageResponse): void {
+    const session = this.cache.get(req);
+    let saved = this.sessionStore.save(req, res, session, this.iatCache.get(req));
+    if (session?.id && this.sessionRegistry && this.config.session.rolling) {
+      // The session is rolled whenever it's saved, so renew its record in the session registry along with it.
+      const touched = this.sessionRegistry.touch(session.id);
+      saved = saved ? Promise.all([saved, touched]).then(() => undefined) : touched;
+    }
+    if (saved) {
+      // Handled when the response ends, this only stops it from being reported as unhandled in the meantime.
+      saved.catch(() => undefined);
+      this.pendingSaves.set(req, saved);
+    }
   }
 
-  init(req: NextApiOrPageRequest, res: NextApiOrPageResponse): void {
+  /**
+   * Save the session when the response writes its headers, and hold back the end of the response until a session
+   * store has been updated, so the browser never gets a session the store doesn't have yet.
+   *
+   * If the store can't be updated the response is destroyed with the error instead of being sent.
+   */
+  private saveOnHeaders(req: NextApiOrPageRequest, res: NextApiOrPageResponse): void {
+    onHeaders(res, () => this.save(req, res));
+    const end = res.end;
+    res.end = ((...args: any[]) => {
+      if (!res.headersSent) {
+        // Write the head now, which runs the `on-headers` listener, so the store write starts before the body ends.
+        res.writeHead(res.statusCode);
+      }
+      const saved = this.pendingSaves.get(req);
+      if (!saved) {
+        return end.apply(res, args as any);
+      }
+      this.pendingSaves.delete(req);
+      saved.then(
+        () => end.apply(res, args as any),
+        (err) => {
+          console.error(err);
+          res.destroy(err);
+        }
+      );
+      return res;
+    }) as typeof res.end;
+  }
+
+  async init(req: NextApiOrPageRequest, res: NextApiOrPageResponse): Promise<void> {
     if (!this.cache.has(req)) {
-      const [json, iat] = this.cookieStore.read(req);
-      this.cache.set(req, fromJson(json));
-      onHeaders(res, () => this.cookieStore.save(req, res, this.cache.get(req), iat));
+      const [json, iat] = await this.sessionStore.read(req);
+      let session = fromJson(json);
+      if (session && this.logoutStore && (await this.logoutStore.isLoggedOut(session.user, iat))) {
+        debug('existing session was rejected because it was logged out through back-channel logout');
+        await emit(this.config.events, 'onSessionRejected', {
+          req,
+          reason: 'it was logged out through back-channel logout'
+        });
+        session = null;
+      }
+      if (session?.id && this.sessionRegistry && !(await this.sessionRegistry.isActive(session.id))) {
+        debug('existing session was rejected because it was revoked or is missing from the session registry');
+        await emit(this.config.events, 'onSessionRejected', {
+          req,
+          reason: 'it was revoked or is missing from the session registry'
+        });
+        session = null;
+      }
+      // The session may have been read or created by another call while the store was being read.
+      if (this.cache.has(req)) {
+        return;
+      }
+      this.cache.set(req, session);
+      this.iatCache.set(req, iat);
+      this.saveOnHeaders(req, res);
     }
   }
 
-  create(req: NextApiOrPageRequest, res: NextApiOrPageResponse, session: Session): void {
+  async create(req: NextApiOrPageRequest, res: NextApiOrPageResponse, session: Session): Promise<void> {
+    const hasListener = this.cache.has(req);
+    if (this.sessionRegistry) {
+      session.id = this.sessionRegistry.generateId();
+    }
     this.cache.set(req, session);
-    onHeaders(res, () => this.cookieStore.save(req, res, this.cache.get(req)));
+    // A created session is always saved as a new session.
+    this.iatCache.set(req, undefined);
+    if (!hasListener) {
+      this.saveOnHeaders(req, res);
+    }
+    if (this.sessionRegistry && session.id) {
+      await this.sessionRegistry.register(req, session.id, session.user.sub);
+    }
   }
 
-  delete(req: NextApiOrPageRequest, res: NextApiOrPageResponse): void {
-    this.init(req, res);
+  async delete(req: NextApiOrPageRequest, res: NextApiOrPageResponse): Promise<void> {
+    await this.init(req, res);
+    const session = this.cache.get(req);
     this.cache.set(req, null);
+    if (session?.id && this.sessionRegistry) {
+      await this.sessionRegistry.revoke(session.id);
+    }
   }
 
-  isAuthenticated(req: NextApiOrPageRequest, res: NextApiOrPageResponse): boolean {
-    this.init(req, res);
+  async isAuthenticated(req: NextApiOrPageRequest, res: NextApiOrPageResponse): Promise<boolean> {
+    await this.init(req, res);
     const session = this.cache.get(req);
     return !!session?.user;
   }
 
-  getIdToken(req: NextApiOrPageRequest, res: NextApiOrPageResponse): string | undefined {
-    this.init(req, res);
+  async getIdToken(req: NextApiOrPageRequest, res: NextApiOrPageResponse): Promise<string | undefined> {
+    await this.init(req, res);
     const session = this.cache.get(req);
     return session?.idToken;
   }
 
-  set(req: NextApiOrPageRequest, res: NextApiOrPageResponse, session: Session | null): void {
-    this.init(req, res);
+  async getRefreshToken(req: NextApiOrPageRequest, res: NextApiOrPageResponse): Promise<string | undefined> {
+    await this.init(req, res);
+    const session = this.cache.get(req);
+    return session?.refreshToken;
+  }
+
+  async getAccessToken(req: NextApiOrPageRequest, res: NextApiOrPageResponse): Promise<string | undefined> {
+    await this.init(req, res);
+    const session = this.cache.get(req);
+    return session?.accessToken;
+  }
+
+  async getAccessTokens(req: NextApiOrPageRequest, res: NextApiOrPageResponse): Promise<string[]> {
+    await this.init(req, res);
+    const session = this.cache.get(req);
+    return [
+      ...(session?.accessToken ? [session.accessToken] : []),
+      ...Object.values(session?.accessTokens || {}).map(({ accessToken }) => accessToken)
+    ];
+  }
+
+  async set(req: NextApiOrPageRequest, res: NextApiOrPageResponse, session: Session | null): Promise<void> {
+    await this.init(req, res);
     this.cache.set(req, session);
   }
 
-  get(req: NextApiOrPageRequest, res: NextApiOrPageResponse): Session | null | undefined {
-    this.init(req, res);
+  async get(req: NextApiOrPageRequest, res: NextApiOrPageResponse): Promise<Session | null | undefined> {
+    await this.init(req, res);
     return this.cache.get(req);
   }
 
@@ -1,9 +1,10 @@
 import { IncomingMessage, ServerResponse } from 'http';
 import { NextApiRequest, NextApiResponse } from 'next';
-import { ClientFactory } from '../zsession';
+import { TokenSet } from 'openid-client';
+import { ClientFactory, emit } from '../zsession';
 import { AccessTokenError } from '../utils/errors';
 import { intersect, match } from '../utils/arrays';
-import { SessionCache, fromTokenSet } from '../session';
+import { SessionCache, Session, fromTokenSet } from '../session';
 import { NextConfig } from '../config';
 
 /**
@@ -17,6 +18,15 @@ export interface AccessTokenRequest {
    */
   scopes?: string[];
 
+  /**
+   * The audience (API identifier) of the desired Access Token.
+   *
+   * When set, or when the session's Access Token doesn't have the requested {@link scopes}, an Access Token for the
+   * audience and scopes is requested with the Refresh Token grant and cached in the session under
+   * {@link Session.accessTokens}.
+   */
+  audience?: string;
+
   /**
    * If set to `true`, a new Access Token will be requested with the Refresh Token grant, regardless of whether
    * the Access Token has expired or not.
@@ -36,6 +46,10 @@ export interface GetAccessTokenResult {
   accessToken?: string | undefined;
 }
 
+// The number of seconds the result of a refresh grant that rotated the refresh token is reused for requests that
+// still have the old refresh token.
+const REFRESH_GRACE_PERIOD = 10;
+
 /**
  * Get an Access Token to access an external API.
  *
@@ -55,8 +69,122 @@ export default function accessTokenFactory(
   getClient: ClientFactory,
   sessionCache: SessionCache
 ): GetAccessToken {
-  return async (req, res, accessTokenRequest): Promise<GetAccessTokenResult> => {
-    const session = sessionCache.get(req, res);
+  // Refresh grants, keyed by the refresh token they used and then by audience/scopes, so that parallel requests with
+  // the same session share a single grant. This matters when the authorization server rotates refresh tokens: grants
+  // that rotated the refresh token are kept for `REFRESH_GRACE_PERIOD` seconds after they complete, because a request
+  // that was sent before the browser got the updated session still has the old refresh token, and using it again
+  // would be rejected as reuse. A failed grant is never kept, so it can be tried again.
+  const refreshes = new Map<
+    string,
+    { first: Promise<TokenSet>; grants: Map<string, Promise<TokenSet>>; expiresAt: number }
+  >();
+
+  const refresh = async (
+    refreshToken: string,
+    key = '',
+    exchangeBody?: { [key: string]: string }
+  ): Promise<TokenSet> => {
+    const now = Date.now();
+    refreshes.forEach(({ expiresAt }, token) => {
+      if (expiresAt <= now) {
+        refreshes.delete(token);
+      }
+    });
+
+    let entry = refreshes.get(refreshToken);
+    if (entry && !entry.grants.has(key)) {
+      // Another audience/scopes was refreshed with this refresh token, if it was rotated use the new one instead.
+      const rotated = await entry.first.then(
+        ({ refresh_token }) => refresh_token,
+        () => undefined
+      );
+      if (rotated && rotated !== refreshToken) {
+        return refresh(rotated, key, exchangeBody);
+      }
+      entry = refreshes.get(refreshToken);
+    }
+
+    const shared = entry?.grants.get(key);
+    if (shared) {
+      return shared;
+    }
+
+    const grant = getClient().then((client) =>
+      exchangeBody ? client.refresh(refreshToken, { exchangeBody }) : client.refresh(refreshToken)
+    );
+    const current = entry || { first: grant, grants: new Map(), expiresAt: Infinity };
+    current.grants.set(key, grant);
+    refreshes.set(refreshToken, current);
+    const forget = (): void => {
+      current.grants.delete(key);
+      if (!current.grants.size && refreshes.get(refreshToken) === current) {
+        refreshes.delete(refreshToken);
+      }
+    };
+    grant.then(({ refresh_token }) => {
+      // Only a rotated refresh token can't be used again, otherwise there's no need to keep the grant.
+      if (refresh_token && refresh_token !== refreshToken) {
+        current.expiresAt = Date.now() + REFRESH_GRACE_PERIOD * 1000;
+      } else {
+        forget();
+      }
+    }, forget);
+    return grant;
+  };
+
+  const getAudienceAccessToken = async (
+    req: IncomingMessage,
+    session: Session,
+    { audience, scopes = [], refresh: forceRefresh }: AccessTokenRequest
+  ): Promise<GetAccessTokenResult> => {
+    const sortedScopes = [...scopes].sort().join(' ');
+    const key = `${audience || ''}|${sortedScopes}`;
+
+    if (!session.refreshToken) {
+      throw new AccessTokenError(
+        'missing_refresh_token',
+        `An access token for ${audience ? `the audience "${audience}"` : `the scopes "${sortedScopes}"`} ` +
+          'could not be provided because a refresh token is not available. The user will need to sign in again.'
+      );
+    }
+
+    const cached = session.accessTokens?.[key];
+    if (
+      !forceRefresh &&
+      cached?.accessTokenExpiresAt &&
+      (cached.accessTokenExpiresAt - config.refreshSkew) * 1000 >= Date.now()
+    ) {
+      return { accessToken: cached.accessToken };
+    }
+
+    const tokenSet = await refresh(session.refreshToken, key, {
+      ...(audience && { audience }),
+      ...(sortedScopes && { scope: sortedScopes })
+    });
+    if (!tokenSet.access_token) {
+      throw new AccessTokenError(
+        'invalid_session',
+        `The authorization server did not return an access token for the ${audience ? 'audience' : 'scopes'}.`
+      );
+    }
+
+    // Update the session, a rotated refresh token replaces the old one for every audience.
+    session.accessTokens = {
+      ...session.accessTokens,
+      [key]: {
+        accessToken: tokenSet.access_token,
+        accessTokenScope: tokenSet.scope || sortedScopes || undefined,
+        accessTokenExpiresAt: tokenSet.expires_at
+      }
+    };
+    session.refreshToken = tokenSet.refresh_token || session.refreshToken;
+    await emit(config.events, 'onTokenRefresh', { req, session, audience, scopes });
+
+    return { accessToken: tokenSet.access_token };
+  };
+
+  const getAccessToken: GetAccessToken = async (req, res, accessTokenRequest) => {
+    const session = await sessionCache.get(req, res);
     if (!session) {
       throw new AccessTokenError('invalid_session', 'The user does not have a valid session.');
     }
@@ -65,6 +193,10 @@ export default function accessTokenFactory(
       throw new AccessTokenError('invalid_session', 'The user does not have a valid access token.');
     }
 
+    if (accessTokenRequest && accessTokenRequest.audience) {
+      return getAudienceAccessToken(req, session, accessTokenRequest);
+    }
+
     if (!session.accessTokenExpiresAt) {
       throw new AccessTokenError(
         'access_token_expired',
@@ -74,6 +206,14 @@ export default function accessTokenFactory(
 
     if (accessTokenRequest && accessTokenRequest.scopes) {
       const persistedScopes = session.accessTokenScope;
+      const matchingScopes = intersect(accessTokenRequest.scopes, persistedScopes ? persistedScopes.split(' ') : []);
+      const hasScopes = match(accessTokenRequest.scopes, [...matchingScopes]);
+
+      // Get a separate access token for the requested scopes rather than making the user sign in again.
+      if (!hasScopes && session.refreshToken) {
+        return getAudienceAccessToken(req, session, accessTokenRequest);
+      }
+
       if (!persistedScopes || persistedScopes.length === 0) {
         throw new AccessTokenError(
           'insufficient_scope',
@@ -81,8 +221,7 @@ export default function accessTokenFactory(
         );
       }
 
-      const matchingScopes = intersect(accessTokenRequest.scopes, persistedScopes.split(' '));
-      if (!match(accessTokenRequest.scopes, [...matchingScopes])) {
+      if (!hasScopes) {
         throw new AccessTokenError(
           'insufficient_scope',
           `Could not retrieve an access token with scopes "${accessTokenRequest.scopes.join(
@@ -94,23 +233,17 @@ export default function accessTokenFactory(
 
     // Check if the token has expired.
     // There is an edge case where we might have some clock skew where our code assumes the token is still valid.
-    // Adding a skew of 1 minute to compensate.
-    if (!session.refreshToken && session.accessTokenExpiresAt * 1000 - 60000 < Date.now()) {
+    // Adding a skew of `refreshSkew` seconds to compensate.
+    const expiresSoon = (session.accessTokenExpiresAt - config.refreshSkew) * 1000 < Date.now();
+    if (!session.refreshToken && expiresSoon) {
       throw new AccessTokenError(
         'access_token_expired',
         'The access token expired and a refresh token is not available. The user will need to sign in again.'
       );
     }
 
-    // Check if the token has expired.
-    // There is an edge case where we might have some clock skew where our code assumes the token is still valid.
-    // Adding a skew of 1 minute to compensate.
-    if (
-      (session.refreshToken && session.accessTokenExpiresAt * 1000 - 60000 < Date.now()) ||
-      (session.refreshToken && accessTokenRequest && accessTokenRequest.refresh)
-    ) {
-      const client = await getClient();
-      const tokenSet = await client.refresh(session.refreshToken);
+    if (session.refreshToken && (expiresSoon || (accessTokenRequest && accessTokenRequest.refresh))) {
+      const tokenSet = await refresh(session.refreshToken);
 
       // Update the session.
       const newSession = fromTokenSet(tokenSet, config);
@@ -119,6 +252,7 @@ export default function accessTokenFactory(
         refreshToken: newSession.refreshToken || session.refreshToken,
         user: { ...session.user, ...newSession.user }
       });
+      await emit(config.events, 'onTokenRefresh', { req, session });
 
       // Return the new access token.
       return {
@@ -136,4 +270,13 @@ export default function accessTokenFactory(
       accessToken: session.accessToken
     };
   };
+
+  return async (req, res, accessTokenRequest): Promise<GetAccessTokenResult> => {
+    try {
+      return await getAccessToken(req, res, accessTokenRequest);
+    } catch (error: any) {
+      await emit(config.events, 'onAccessTokenError', { req, error });
+      throw error;
+    }
+  };
 }
@@ -10,13 +10,13 @@ import { SessionCache, Session } from '../session';
 export type GetSession = (
   req: IncomingMessage | NextApiRequest,
   res: ServerResponse | NextApiResponse
-) => Session | null | undefined;
+) => Promise<Session | null | undefined>;
 
 /**
  * @ignore
  */
 export default function sessionFactory(sessionCache: SessionCache): GetSession {
-  return (req, res): Session | null | undefined => {
+  return (req, res): Promise<Session | null | undefined> => {
     return sessionCache.get(req, res);
   };
 }
@@ -0,0 +1,39 @@
+import { SessionRecord, SessionRegistry } from '../zsession';
+
+/**
+ * Get a user's active sessions from the session registry, eg to build a "signed-in devices" page.
+ *
+ * ```js
+ * // pages/api/sessions.js
+ * import { withApiAuthRequired, getSession, getSessions } from '@zeushq/nextjs-zidentity';
+ *
+ * export default withApiAuthRequired(async function sessions(req, res) {
+ *   const { user, id } = await getSession(req, res);
+ *   const sessions = await getSessions(user.sub);
+ *   res.json(sessions.map((session) => ({ ...session, current: session.id === id })));
+ * });
+ * ```
+ *
+ * Requires {@link BaseConfig.sessionRegistry}.
+ *
+ * @category Server
+ */
+export type GetSessions = (sub: string) => Promise<SessionRecord[]>;
+
+/**
+ * @ignore
+ */
+export const registryRequired = (method: string): string =>
+  `The ${method} method requires the session registry, set "sessionRegistry" to true`;
+
+/**
+ * @ignore
+ */
+export default function getSessionsFactory(sessionRegistry?: SessionRegistry): GetSessions {
+  return async (sub) => {
+    if (!sessionRegistry) {
+      throw new Error(registryRequired('getSessions'));
+    }
+    return sessionRegistry.getSessions(sub);
+  };
+}
@@ -1,4 +1,4 @@
-export { default as Session, Claims, fromJson, fromTokenSet } from './session';
+export { default as Session, Claims, AudienceAccessToken, fromJson, fromTokenSet } from './session';
 export { default as sessionFactory, GetSession } from './get-session';
 export {
   default as accessTokenFactory,
@@ -6,4 +6,6 @@ export {
   AccessTokenRequest,
   GetAccessTokenResult
 } from './get-access-token';
+export { default as getSessionsFactory, GetSessions } from './get-sessions';
+export { default as revokeSessionFactory, RevokeSession } from './revoke-session';
 export { default as SessionCache } from './cache';
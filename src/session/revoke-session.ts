@@ -0,0 +1,38 @@
+import { SessionRegistry } from '../zsession';
+import { registryRequired } from './get-sessions';
+
+/**
+ * Revoke one of a user's sessions, it's rejected the next time it's read so the user is signed out on that device.
+ *
+ * ```js
+ * // pages/api/sessions/[id].js
+ * import { withApiAuthRequired, getSession, getSessions, revokeSession } from '@zeushq/nextjs-zidentity';
+ *
+ * export default withApiAuthRequired(async function revoke(req, res) {
+ *   const { user } = await getSession(req, res);
+ *   const sessions = await getSessions(user.sub);
+ *   if (!sessions.some(({ id }) => id === req.query.id)) {
+ *     return res.status(404).end();
+ *   }
+ *   await revokeSession(req.query.id);
+ *   res.status(204).end();
+ * });
+ * ```
+ *
+ * Requires {@link BaseConfig.sessionRegistry}.
+ *
+ * @category Server
+ */
+export type RevokeSession = (id: string) => Promise<void>;
+
+/**
+ * @ignore
+ */
+export default function revokeSessionFactory(sessionRegistry?: SessionRegistry): RevokeSession {
+  return async (id) => {
+    if (!sessionRegistry) {
+      throw new Error(registryRequired('revokeSession'));
+    }
+    await sessionRegistry.revoke(id);
+  };
+}
@@ -11,6 +11,28 @@ export interface Claims {
   [key: string]: any;
 }
 
+/**
+ * An access token for a specific audience and set of scopes.
+ *
+ * @category Server
+ */
+export interface AudienceAccessToken {
+  /**
+   * The access token.
+   */
+  accessToken: string;
+
+  /**
+   * The access token scopes.
+   */
+  accessTokenScope?: string | undefined;
+
+  /**
+   * The expiration of the access token.
+   */
+  accessTokenExpiresAt?: number;
+}
+
 /**
  * The user's session
  *
@@ -47,6 +69,17 @@ export default class Session {
    */
   refreshToken?: string | undefined;
 
+  /**
+   * Access tokens for other audiences or scopes, obtained with the refresh token by {@link GetAccessToken}.
+   * They are keyed by audience and scopes.
+   */
+  accessTokens?: { [key: string]: AudienceAccessToken };
+
+  /**
+   * The id of the session in the session registry, when {@link BaseConfig.sessionRegistry} is on.
+   */
+  id?: string;
+
   [key: string]: any;
 
   constructor(user: Claims) {
@@ -0,0 +1,97 @@
+import { IncomingMessage } from 'http';
+import { createHmac } from 'crypto';
+import { GetServerSidePropsContext } from 'next';
+import React, { ComponentType } from 'react';
+import {
+  withPageAuthRequired as withPageAuthRequiredCSR,
+  WithPageAuthRequiredOptions as WithPageAuthRequiredCSROptions,
+  WithPageAuthRequiredProps
+} from './frontend';
+import { PageRoute, WithPageAuthRequiredOptions } from './helpers';
+import { SignInWithZeusAuth } from './instance';
+import { ConfigParameters, ResolveConfig } from './config';
+
+/**
+ * Derive a secret for each tenant, so the keys of one tenant's cookies can't read or verify another tenant's cookies.
+ *
+ * @ignore
+ */
+const tenantSecret = (secret: string | Array<string | undefined> | undefined, tenant: string): string[] | undefined => {
+  if (!secret) {
+    return undefined;
+  }
+  const secrets = Array.isArray(secret) ? secret : [secret];
+  return secrets.map((value) =>
+    createHmac('sha256', value as string)
+      .update(tenant)
+      .digest('hex')
+  );
+};
+
+/**
+ * @ignore
+ */
+const notAvailable = (name: string) => (): never => {
+  throw new Error(`"${name}" can't be used with "resolveConfig", it has no request to resolve the tenant from`);
+};
+
+/**
+ * @ignore
+ */
+export default function tenantsFactory(
+  { resolveConfig, ...params }: ConfigParameters & { resolveConfig: ResolveConfig },
+  createInstance: (params: ConfigParameters) => SignInWithZeusAuth
+): SignInWithZeusAuth {
+  // Never evicted, `resolveConfig` is documented to return a bounded set of tenants.
+  const instances: { [tenant: string]: SignInWithZeusAuth } = {};
+
+  const getInstance = async (req: IncomingMessage): Promise<SignInWithZeusAuth> => {
+    const tenantParams: ConfigParameters = { ...params, ...(await resolveConfig(req)) };
+    const tenant = [tenantParams.issuerBaseURL, tenantParams.clientID, tenantParams.baseURL].join(' ');
+    if (!instances[tenant]) {
+      instances[tenant] = createInstance({
+        ...tenantParams,
+        secret: tenantSecret(tenantParams.secret || process.env.ZIDENTITY_SECRET, tenant)
+      });
+    }
+    return instances[tenant];
+  };
+
+  function withPageAuthRequired(opts?: WithPageAuthRequiredOptions): PageRoute;
+  function withPageAuthRequired<P extends WithPageAuthRequiredProps>(
+    Component: ComponentType<P>,
+    options?: WithPageAuthRequiredCSROptions
+  ): React.FC<P>;
+  function withPageAuthRequired(
+    optsOrComponent: WithPageAuthRequiredOptions | ComponentType<WithPageAuthRequiredProps> = {},
+    csrOpts?: WithPageAuthRequiredCSROptions
+  ): PageRoute | React.FC<WithPageAuthRequiredProps> {
+    if (typeof optsOrComponent === 'function') {
+      return withPageAuthRequiredCSR(optsOrComponent, csrOpts);
+    }
+    return async (ctx: GetServerSidePropsContext) =>
+      (await getInstance(ctx.req)).withPageAuthRequired(optsOrComponent)(ctx);
+  }
+
+  return {
+    getSession: async (req, res) => (await getInstance(req)).getSession(req, res),
+    getAccessToken: async (req, res, accessTokenRequest) =>
+      (await getInstance(req)).getAccessToken(req, res, accessTokenRequest),
+    getClientCredentialsToken: notAvailable('getClientCredentialsToken'),
+    introspectAccessToken: notAvailable('introspectAccessToken'),
+    getSessions: notAvailable('getSessions'),
+    revokeSession: notAvailable('revokeSession'),
+    withApiAuthRequired: (apiRoute, options) => async (req, res) =>
+      (await getInstance(req)).withApiAuthRequired(apiRoute, options)(req, res),
+    withApiAuthOptional: (apiRoute) => async (req, res) =>
+      (await getInstance(req)).withApiAuthOptional(apiRoute)(req, res),
+    withPageAuthRequired,
+    handleLogin: async (req, res, options) => (await getInstance(req)).handleLogin(req, res, options),
+    handleLogout: async (req, res, options) => (await getInstance(req)).handleLogout(req, res, options),
+    handleCallback: async (req, res, options) => (await getInstance(req)).handleCallback(req, res, options),
+    handleProfile: async (req, res, options) => (await getInstance(req)).handleProfile(req, res, options),
+    handleBackchannelLogout: async (req, res) => (await getInstance(req)).handleBackchannelLogout(req, res),
+    handleProxy: async (req, res) => (await getInstance(req)).handleProxy(req, res),
+    handleAuth: (userHandlers) => async (req, res) => (await getInstance(req)).handleAuth(userHandlers)(req, res)
+  };
+}
@@ -0,0 +1,60 @@
+import { JWK } from 'jose';
+import { encrypt } from '../zsession/cookie-store';
+import { encryption as deriveKey } from '../zsession/utils/hkdf';
+import { Session } from '../session';
+
+const epoch = (): number => (Date.now() / 1000) | 0; // eslint-disable-line no-bitwise
+
+/**
+ * Configure {@link generateSessionCookie}.
+ *
+ * @category Server
+ */
+export interface GenerateSessionCookieConfig {
+  /**
+   * The secret the app encrypts its session cookies with, see {@link BaseConfig.secret}.
+   */
+  secret: string;
+
+  /**
+   * How long the session lasts for in seconds, defaults to 7 days like {@link SessionConfig.absoluteDuration}.
+   * The session is also subject to the app's {@link SessionConfig.rollingDuration}.
+   */
+  duration?: number;
+}
+
+/**
+ * Generate the value of a session cookie, so tests can visit pages that need a session without logging in, eg
+ *
+ * ```js
+ * // cypress/plugins/index.js
+ * const { generateSessionCookie } = require('@zeushq/nextjs-zidentity/testing');
+ *
+ * module.exports = (on) => {
+ *   on('task', {
+ *     sessionCookie: (user) => generateSessionCookie({ user }, { secret: process.env.ZIDENTITY_SECRET })
+ *   });
+ * };
+ *
+ * // cypress/integration/profile.spec.js
+ * cy.task('sessionCookie', { sub: 'user_1', name: 'Jane' }).then((value) => cy.setCookie('appSession', value));
+ * cy.visit('/profile');
+ * ```
+ *
+ * Set it as the app's {@link SessionConfig.name session cookie}, which is `appSession` by default.
+ *
+ * @category Server
+ */
+export type GenerateSessionCookie = (session: Partial<Session>, config: GenerateSessionCookieConfig) => string;
+
+/**
+ * @ignore
+ */
+export const generateSessionCookie: GenerateSessionCookie = (session, { secret, duration = 7 * 24 * 60 * 60 }) => {
+  const iat = epoch();
+  return encrypt(JSON.stringify(session), JWK.asKey(deriveKey(secret)) as JWK.OctKey, {
+    iat,
+    uat: iat,
+    exp: iat + duration
+  });
+};
@@ -0,0 +1,3 @@
+export { generateSessionCookie, GenerateSessionCookie, GenerateSessionCookieConfig } from './generate-session-cookie';
+export { MockUserProvider, MockUserProviderProps } from './mock-user-provider';
+export { mockHandleAuth, MockHandleAuth, MockHandleAuthOptions } from './mock-handle-auth';
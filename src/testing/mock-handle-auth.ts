@@ -0,0 +1,145 @@
+import { NextApiHandler, NextApiRequest, NextApiResponse } from 'next';
+import { stringify } from 'querystring';
+import { parse } from 'url';
+import { JWK } from 'jose';
+import { decrypt } from '../zsession/cookie-store';
+import { encryption as deriveKey } from '../zsession/utils/hkdf';
+import { get as getCookie, set as setCookie, clear as clearCookie } from '../zsession/utils/cookies';
+import { Claims } from '../session';
+import isSafeRedirect from '../utils/url-helpers';
+import { generateSessionCookie } from './generate-session-cookie';
+
+const epoch = (): number => (Date.now() / 1000) | 0; // eslint-disable-line no-bitwise
+
+/**
+ * Configure {@link mockHandleAuth}.
+ *
+ * @category Server
+ */
+export interface MockHandleAuthOptions {
+  /**
+   * The claims of the user that is logged in.
+   */
+  user: Claims;
+
+  /**
+   * The secret the app encrypts its session cookies with, defaults to the ZIDENTITY_SECRET environment variable.
+   */
+  secret?: string;
+
+  /**
+   * How long the session lasts for in seconds, see {@link GenerateSessionCookieConfig.duration}.
+   */
+  duration?: number;
+
+  /**
+   * The name of the session cookie, defaults to the ZIDENTITY_SESSION_NAME environment variable or `appSession`.
+   */
+  sessionName?: string;
+}
+
+/**
+ * Use `mockHandleAuth` instead of {@link HandleAuth} in end to end tests to log in without an Identity Provider, eg
+ *
+ * ```js
+ * // pages/api/auth/[...zidentity].js
+ * import { handleAuth } from '@zeushq/nextjs-zidentity';
+ * import { mockHandleAuth } from '@zeushq/nextjs-zidentity/testing';
+ *
+ * export default process.env.E2E
+ *   ? mockHandleAuth({ user: { sub: 'user_1', name: 'Jane' } })
+ *   : handleAuth();
+ * ```
+ *
+ * `/api/auth/login` redirects straight to `/api/auth/callback`, which logs `user` in and redirects to `returnTo`.
+ * `/api/auth/logout` and `/api/auth/me` work like they do with {@link HandleAuth}. The session is the same as a
+ * {@link generateSessionCookie generated one}, so the rest of the app can read it with the same secret.
+ *
+ * @category Server
+ */
+export type MockHandleAuth = (options: MockHandleAuthOptions) => NextApiHandler;
+
+/**
+ * @ignore
+ */
+const getReturnTo = (req: NextApiRequest): string => {
+  const returnTo = Array.isArray(req.query.returnTo) ? req.query.returnTo[0] : req.query.returnTo;
+  return returnTo && isSafeRedirect(returnTo) ? returnTo : '/';
+};
+
+/**
+ * @ignore
+ */
+const redirect = (res: NextApiResponse, location: string): void => {
+  res.writeHead(302, { Location: location });
+  res.end();
+};
+
+/**
+ * @ignore
+ */
+export const mockHandleAuth: MockHandleAuth = ({
+  user,
+  secret = process.env.ZIDENTITY_SECRET,
+  duration,
+  sessionName = process.env.ZIDENTITY_SESSION_NAME || 'appSession'
+}) => {
+  if (!secret) {
+    throw new TypeError('"secret" is required');
+  }
+  const cookieOptions = { httpOnly: true, sameSite: 'lax' as const, path: '/' };
+
+  const readUser = (req: NextApiRequest): Claims | undefined => {
+    const value = getCookie(req, sessionName);
+    if (!value) {
+      return undefined;
+    }
+    try {
+      const { protected: header, cleartext } = decrypt(value, JWK.asKey(deriveKey(secret)) as JWK.OctKey);
+      return (header as { exp: number }).exp > epoch() ? JSON.parse(cleartext.toString()).user : undefined;
+    } catch (e) {
+      return undefined;
+    }
+  };
+
+  return async (req, res): Promise<void> => {
+    let {
+      query: { zidentity: route }
+    } = req;
+
+    route = Array.isArray(route) ? route[0] : route;
+
+    switch (route) {
+      case 'login':
+      case 'signup':
+      case 'silent-login': {
+        const callback = (parse(req.url as string).pathname as string).replace(/[^/]*$/, 'callback');
+        redirect(res, `${callback}?${stringify({ returnTo: getReturnTo(req) })}`);
+        return;
+      }
+      case 'callback':
+        setCookie(res, sessionName, generateSessionCookie({ user }, { secret, duration }), cookieOptions);
+        redirect(res, getReturnTo(req));
+        return;
+      case 'logout':
+        clearCookie(res, sessionName, { path: cookieOptions.path });
+        redirect(res, getReturnTo(req));
+        return;
+      case 'me': {
+        const sessionUser = readUser(req);
+        if (!sessionUser) {
+          res.status(401).json({
+            error: 'not_authenticated',
+            description: 'The user does not have an active session or is not authenticated'
+          });
+          return;
+        }
+        res.setHeader('Cache-Control', 'no-store');
+        res.json(sessionUser);
+        return;
+      }
+      default:
+        res.status(404).end();
+    }
+  };
+};
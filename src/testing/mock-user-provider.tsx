@@ -0,0 +1,67 @@
+import React, { ReactElement } from 'react';
+
+import ConfigProvider, { ConfigContext } from '../frontend/use-config';
+import { UserContext, UserProfile } from '../frontend/use-user';
+
+/**
+ * Configure the {@link MockUserProvider} component.
+ *
+ * @category Client
+ */
+export type MockUserProviderProps = React.PropsWithChildren<
+  {
+    user?: UserProfile;
+    error?: Error;
+    isLoading?: boolean;
+    checkSession?: () => Promise<void>;
+  } & ConfigContext
+>;
+
+/**
+ * Use `<MockUserProvider>` instead of {@link UserProvider} to render components that use the {@link useUser} hook
+ * with a given user, without fetching the user from the {@link HandleProfile} API Route handler, eg
+ *
+ * ```js
+ * import { render, screen } from '@testing-library/react';
+ * import { MockUserProvider } from '@zeushq/nextjs-zidentity/testing';
+ * import Profile from '../pages/profile';
+ *
+ * test('should greet the user', () => {
+ *   render(
+ *     <MockUserProvider user={{ sub: 'user_1', name: 'Jane' }}>
+ *       <Profile />
+ *     </MockUserProvider>
+ *   );
+ *   expect(screen.getByText('Hello Jane')).toBeInTheDocument();
+ * });
+ * ```
+ *
+ * @category Client
+ */
+export type MockUserProvider = (props: MockUserProviderProps) => ReactElement<UserContext>;
+
+/**
+ * @ignore
+ */
+const checkSession = (): Promise<void> => Promise.resolve();
+
+/**
+ * @ignore
+ */
+export const MockUserProvider: MockUserProvider = ({
+  children,
+  user,
+  error,
+  isLoading = false,
+  checkSession: mockCheckSession = checkSession,
+  loginUrl,
+  signupUrl,
+  logoutUrl,
+  proxyUrl
+}: MockUserProviderProps): ReactElement<UserContext> => (
+  <ConfigProvider loginUrl={loginUrl} signupUrl={signupUrl} logoutUrl={logoutUrl} proxyUrl={proxyUrl}>
+    <UserContext.Provider value={{ user, error, isLoading, checkSession: mockCheckSession }}>
+      {children}
+    </UserContext.Provider>
+  </ConfigProvider>
+);
@@ -0,0 +1,128 @@
+import { JWT } from 'jose';
+import { Claims, Session } from '../session';
+import { NextConfig } from '../config';
+
+/**
+ * The roles and permissions of a user, read from the claims named by {@link NextConfig.rolesClaim} and
+ * {@link NextConfig.permissionsClaim} in the ID token and the access token.
+ *
+ * @ignore
+ */
+export interface Authorization {
+  roles: string[];
+  permissions: string[];
+}
+
+const toArray = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.filter((item) => typeof item === 'string');
+  }
+  if (typeof value === 'string') {
+    return value.split(' ').filter(Boolean);
+  }
+  return [];
+};
+
+/**
+ * Get the claims of the session's access token, the access token was received directly from the token endpoint so
+ * it's not verified again here. Returns an empty object for opaque access tokens.
+ *
+ * @ignore
+ */
+export const getAccessTokenClaims = (session: Session): Claims => {
+  if (!session.accessToken) {
+    return {};
+  }
+  try {
+    return JWT.decode(session.accessToken) as Claims;
+  } catch (e) {
+    return {};
+  }
+};
+
+/**
+ * The authorization requirements shared by {@link WithApiAuthRequiredOptions} and {@link WithPageAuthRequiredOptions}.
+ *
+ * @ignore
+ */
+export interface AuthorizationOptions {
+  roles?: string[];
+  permissions?: string[];
+  claimCheck?: (idTokenClaims: Claims, accessTokenClaims: Claims, session: Session) => boolean | Promise<boolean>;
+}
+
+/**
+ * @ignore
+ */
+export const getAuthorization = (
+  session: Session,
+  config: Pick<NextConfig, 'rolesClaim' | 'permissionsClaim'>
+): Authorization => {
+  const accessTokenClaims = getAccessTokenClaims(session);
+  const read = (claim: string): string[] => [
+    ...new Set([...toArray(session.user[claim]), ...toArray(accessTokenClaims[claim])])
+  ];
+  return { roles: read(config.rolesClaim), permissions: read(config.permissionsClaim) };
+};
+
+/**
+ * Check that the session has all the required roles and permissions and passes the claim check.
+ *
+ * @ignore
+ */
+export const isAuthorized = async (
+  session: Session,
+  config: Pick<NextConfig, 'rolesClaim' | 'permissionsClaim'>,
+  { roles = [], permissions = [], claimCheck }: AuthorizationOptions
+): Promise<boolean> => {
+  const authorization = getAuthorization(session, config);
+  return (
+    roles.every((role) => authorization.roles.includes(role)) &&
+    permissions.every((permission) => authorization.permissions.includes(permission)) &&
+    (!claimCheck || (await claimCheck(session.user, getAccessTokenClaims(session), session)))
+  );
+};
+
+/**
+ * The step-up authentication requirements shared by {@link WithApiAuthRequiredOptions} and
+ * {@link WithPageAuthRequiredOptions}.
+ *
+ * @ignore
+ */
+export interface StepUpOptions {
+  acr?: string | string[];
+  maxAge?: number;
+}
+
+/**
+ * Check that the user authenticated with one of the required `acr` values (or `amr` methods), no more than `maxAge`
+ * seconds ago.
+ *
+ * @ignore
+ */
+export const isStepUpSatisfied = (session: Session, { acr, maxAge }: StepUpOptions): boolean => {
+  const { acr: sessionAcr, amr, auth_time } = session.user;
+  if (acr !== undefined) {
+    const acrValues = toArray(acr);
+    if (!acrValues.includes(sessionAcr) && !toArray(amr).some((method) => acrValues.includes(method))) {
+      return false;
+    }
+  }
+  if (maxAge !== undefined) {
+    if (typeof auth_time !== 'number' || Date.now() / 1000 - auth_time > maxAge) {
+      return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * The `acr_values` and `max_age` authorization params that ask the user to authenticate again to meet the step-up
+ * requirements.
+ *
+ * @ignore
+ */
+export const getStepUpParams = ({ acr, maxAge }: StepUpOptions): { acr_values?: string; max_age?: number } => ({
+  ...(acr !== undefined && { acr_values: toArray(acr).join(' ') }),
+  ...(maxAge !== undefined && { max_age: maxAge })
+});
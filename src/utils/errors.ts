@@ -11,6 +11,9 @@ export class AccessTokenError extends Error {
   constructor(code: string, message: string) {
     super(message) /* istanbul ignore next */;
 
+    // Restore the prototype chain, which is lost when extending `Error` in ES5, so `instanceof` works.
+    Object.setPrototypeOf(this, AccessTokenError.prototype);
+
     // Saving class name in the property of our custom error as a shortcut.
     this.name = this.constructor.name;
 
@@ -51,6 +54,8 @@ export class HandlerError extends Error {
   constructor(error: Error | AccessTokenError | HttpError) {
     super(htmlSafe(error.message)) /* istanbul ignore next */;
 
+    Object.setPrototypeOf(this, HandlerError.prototype);
+
     this.name = error.name;
 
     if ('code' in error) {
@@ -1,5 +1,6 @@
-import { Issuer, custom, HttpOptions, Client, EndSessionParameters } from 'openid-client';
+import { Issuer, custom, HttpOptions, Client, ClientAuthMethod, EndSessionParameters } from 'openid-client';
 import url, { UrlObject } from 'url';
+import { JSONWebKey, JWK, JWKS, JWT } from 'jose';
 import urlJoin from 'url-join';
 import createDebug from './utils/debug';
 import { Config } from './config';
@@ -30,14 +31,57 @@ function normalizeAggregateError(e: Error | (Error & { _errors: Error[] })): Err
   return e;
 }
 
-export default function get(config: Config, { name, version }: Telemetry): ClientFactory {
-  let client: Client | null = null;
+// openid-client only fetches the JWKS again for an unknown `kid` when it hasn't been fetched in the last minute, which
+// fails the logins signed with a new key in the minute after a rotation. `refetchSigningKey` fetches it again straight
+// away instead, but not more than once every `JWKS_REFETCH_INTERVAL` seconds for each issuer, so tokens with made up
+// `kid`s can't flood the issuer.
+const JWKS_REFETCH_INTERVAL = 10;
+
+const jwksRefetchedAt = new WeakMap<Issuer<Client>, number>();
+
+/**
+ * Fetch the issuer's JWKS again if it doesn't have the key that `idToken` is signed with. Resolves to `true` when the
+ * key has been fetched, so the validation of the token is worth trying again.
+ */
+export async function refetchSigningKey({ issuer }: Client, idToken: string): Promise<boolean> {
+  let kid: string | undefined;
+  try {
+    ({ kid } = JWT.decode(idToken, { complete: true }).header as { kid?: string });
+  } catch (e) {
+    return false;
+  }
+  if (!kid || (await issuer.keystore()).all({ kid }).length) {
+    return false;
+  }
+  if (Date.now() - (jwksRefetchedAt.get(issuer) || 0) < JWKS_REFETCH_INTERVAL * 1000) {
+    return false;
+  }
+  debug('no key with kid %o in the JWKS, fetching it again', kid);
+  jwksRefetchedAt.set(issuer, Date.now());
+  return (await issuer.keystore(true)).all({ kid }).length > 0;
+}
 
-  return async (): Promise<Client> => {
-    if (client) {
-      return client;
-    }
+// Only private asymmetric keys can sign the client assertion, a symmetric (`oct`) key would need `client_secret_jwt`.
+function asSigningKey(key: string | JSONWebKey): JWK.Key {
+  // `JWK.asKey` has an overload for each key type but none for a union of them.
+  const jwk: JWK.Key = JWK.asKey(key as any);
+  if (!['RSA', 'EC', 'OKP'].includes(jwk.kty) || !jwk.private) {
+    throw new TypeError(
+      `"clientAssertionSigningKey" must be a private RSA, EC or OKP key, got a ${jwk.type} ${jwk.kty} key`
+    );
+  }
+  return jwk;
+}
 
+// How long to keep using the cached client before trying again when discovering the issuer again fails.
+const DISCOVERY_RETRY_INTERVAL = 60;
+
+export default function get(config: Config, { name, version }: Telemetry): ClientFactory {
+  let cachedClient: Client | null = null;
+  let expiresAt = 0;
+  let pending: Promise<Client> | null = null;
+
+  const createClient = async (): Promise<Client> => {
     const defaultHttpOptions = (options: HttpOptions): HttpOptions => ({
       ...options,
       headers: {
@@ -57,7 +101,16 @@ export default function get(config: Config, { name, version }: Telemetry): Clien
             }
           : undefined)
       },
-      timeout: config.httpTimeout
+      timeout: config.httpTimeout,
+      ...(config.tlsClientCertificate
+        ? {
+            https: {
+              ...options.https,
+              certificate: config.tlsClientCertificate,
+              key: config.tlsClientKey
+            }
+          }
+        : undefined)
     });
 
     const applyHttpOptionsCustom = (entity: Issuer<Client> | typeof Issuer | Client): void => {
@@ -68,10 +121,14 @@ export default function get(config: Config, { name, version }: Telemetry): Clien
     applyHttpOptionsCustom(Issuer);
 
     let issuer: Issuer<Client>;
-    try {
-      issuer = await Issuer.discover(config.issuerBaseURL);
-    } catch (e: any) {
-      throw normalizeAggregateError(e);
+    if (config.issuerMetadata) {
+      issuer = new Issuer(config.issuerMetadata);
+    } else {
+      try {
+        issuer = await Issuer.discover(config.issuerBaseURL);
+      } catch (e: any) {
+        throw normalizeAggregateError(e);
+      }
     }
     applyHttpOptionsCustom(issuer);
 
@@ -107,11 +164,38 @@ export default function get(config: Config, { name, version }: Telemetry): Clien
       );
     }
 
-    client = new issuer.Client({
-      client_id: config.clientID,
-      client_secret: config.clientSecret,
-      id_token_signed_response_alg: config.idTokenSigningAlg
-    });
+    if (config.pushedAuthorizationRequests && !issuer.pushed_authorization_request_endpoint) {
+      debug(
+        'the issuer does not support Pushed Authorization Requests, authorization parameters will be sent in the URL'
+      );
+    }
+
+    const issuerAuthMethods = Array.isArray(issuer.token_endpoint_auth_methods_supported)
+      ? issuer.token_endpoint_auth_methods_supported
+      : [];
+    if (issuerAuthMethods.length && !issuerAuthMethods.includes(config.clientAuthMethod)) {
+      debug(
+        'Client auth method %o is not supported by the issuer. Supported client auth methods are: %o.',
+        config.clientAuthMethod,
+        issuerAuthMethods
+      );
+    }
+
+    const jwks =
+      config.clientAuthMethod === 'private_key_jwt'
+        ? new JWKS.KeyStore([asSigningKey(config.clientAssertionSigningKey as string | JSONWebKey)]).toJWKS(true)
+        : undefined;
+
+    const client = new issuer.Client(
+      {
+        client_id: config.clientID,
+        client_secret: config.clientSecret,
+        id_token_signed_response_alg: config.idTokenSigningAlg,
+        token_endpoint_auth_method: config.clientAuthMethod as ClientAuthMethod,
+        ...(config.clientAssertionSigningAlg && { token_endpoint_auth_signing_alg: config.clientAssertionSigningAlg })
+      },
+      jwks
+    );
     applyHttpOptionsCustom(client);
     client[custom.clock_tolerance] = config.clockTolerance;
 
@@ -134,4 +218,37 @@ export default function get(config: Config, { name, version }: Telemetry): Clien
 
     return client;
   };
+
+  const refresh = (): Promise<Client> => {
+    if (!pending) {
+      pending = createClient().then(
+        (client) => {
+          cachedClient = client;
+          expiresAt = Date.now() + config.discoveryCacheMaxAge * 1000;
+          pending = null;
+          return client;
+        },
+        (e) => {
+          pending = null;
+          if (cachedClient) {
+            // Don't discover the issuer again on every request while it's failing.
+            expiresAt = Date.now() + Math.min(config.discoveryCacheMaxAge, DISCOVERY_RETRY_INTERVAL) * 1000;
+          }
+          throw e;
+        }
+      );
+    }
+    return pending;
+  };
+
+  return async (): Promise<Client> => {
+    if (!cachedClient) {
+      return refresh();
+    }
+    if (!config.issuerMetadata && Date.now() >= expiresAt) {
+      // Keep using the cached client while the issuer is discovered again.
+      refresh().catch((e) => debug('discovering the issuer failed, using the cached metadata: %s', e.message));
+    }
+    return cachedClient;
+  };
 }
@@ -1,5 +1,8 @@
 import { IncomingMessage } from 'http';
-import { AuthorizationParameters as OidcAuthorizationParameters } from 'openid-client';
+import { AuthorizationParameters as OidcAuthorizationParameters, IssuerMetadata } from 'openid-client';
+import { JSONWebKey } from 'jose';
+import { SessionStore } from './session-store';
+import { Events } from './events';
 
 /**
  * Configuration properties.
@@ -17,6 +20,29 @@ export interface Config {
    */
   session: SessionConfig;
 
+  /**
+   * An async key/value store to keep sessions on the server.
+   * When set, only a signed session id is stored in the session cookie.
+   */
+  store?: SessionStore;
+
+  /**
+   * Boolean value to record every session in a registry, so a user's sessions can be listed and revoked.
+   * The registry is kept in the {@link store}, or in memory if there isn't one. Default is `false`
+   */
+  sessionRegistry: boolean;
+
+  /**
+   * Boolean value to read the IP address the {@link sessionRegistry} records from the `X-Forwarded-For` header.
+   * Only enable it behind a proxy that sets the header, because clients can set it too. Default is `false`
+   */
+  trustProxy: boolean;
+
+  /**
+   * Callbacks that are called on authentication events.
+   */
+  events: Events;
+
   /**
    * Boolean value to enable ZeusAuth's logout feature.
    */
@@ -85,6 +111,37 @@ export interface Config {
    */
   clientSecret?: string;
 
+  /**
+   * The method used to authenticate your application at the token endpoint, one of `client_secret_basic`,
+   * `client_secret_post`, `private_key_jwt`, `tls_client_auth` or `none`.
+   * Defaults to `private_key_jwt` when a {@link clientAssertionSigningKey} is set, `none` for the `id_token`
+   * response type and `client_secret_basic` otherwise.
+   */
+  clientAuthMethod: string;
+
+  /**
+   * The private RSA, EC or OKP key, as a PEM string or a JWK, used to sign the client assertion when
+   * {@link clientAuthMethod} is `private_key_jwt`.
+   */
+  clientAssertionSigningKey?: string | JSONWebKey;
+
+  /**
+   * The algorithm used to sign the client assertion, eg `RS256` or `ES256`.
+   * Defaults to an algorithm the key supports and the issuer accepts.
+   */
+  clientAssertionSigningAlg?: string;
+
+  /**
+   * The PEM encoded client certificate presented to the authorization server when {@link clientAuthMethod} is
+   * `tls_client_auth`.
+   */
+  tlsClientCertificate?: string;
+
+  /**
+   * The PEM encoded private key of the {@link tlsClientCertificate}.
+   */
+  tlsClientKey?: string;
+
   /**
    * Integer value for the system clock's tolerance (leeway) in seconds for ID token verification.`
    * Default is 60
@@ -123,7 +180,8 @@ export interface Config {
 
   /**
    * Array value of claims to remove from the ID token before storing the cookie session.
-   * Default is `['aud', 'iss', 'iat', 'exp', 'nbf', 'nonce', 'azp', 'auth_time', 's_hash', 'at_hash', 'c_hash' ]`
+   * Default is `['aud', 'iss', 'iat', 'exp', 'nbf', 'nonce', 'azp', 's_hash', 'at_hash', 'c_hash' ]`
+   * Don't filter out `acr`, `amr` or `auth_time` if you use the step-up `acr` and `maxAge` options.
    */
   identityClaimFilter: string[];
 
@@ -139,15 +197,41 @@ export interface Config {
 
   /**
    * REQUIRED. The root URL for the token issuer with no trailing slash.
+   * Defaults to the `issuer` of the {@link issuerMetadata} when that is set.
    */
   issuerBaseURL: string;
 
+  /**
+   * The issuer's metadata, to use instead of discovering it from `issuerBaseURL`.
+   */
+  issuerMetadata?: IssuerMetadata;
+
+  /**
+   * Integer value in seconds to keep the discovered issuer metadata, after that it's discovered again in the
+   * background while the cached metadata is still used. Default is 600 (10 minutes)
+   */
+  discoveryCacheMaxAge: number;
+
   /**
    * Set a fallback cookie with no SameSite attribute when response_mode is form_post.
    * Default is true
    */
   legacySameSiteCookie: boolean;
 
+  /**
+   * Boolean value to send the authorization parameters to the issuer's Pushed Authorization Request endpoint and
+   * redirect to the authorization endpoint with only the `client_id` and `request_uri`.
+   * Ignored when the issuer doesn't advertise a `pushed_authorization_request_endpoint`. Default is `false`
+   */
+  pushedAuthorizationRequests: boolean;
+
+  /**
+   * Boolean value to also revoke the Access Tokens, including the ones for other audiences, at the issuer's
+   * `revocation_endpoint` on logout. The Refresh Token is always revoked when the issuer has a `revocation_endpoint`.
+   * Default is `false`
+   */
+  revokeAccessTokenOnLogout: boolean;
+
   routes: {
     /**
      * Either a relative path to the application or a valid URI to an external domain.
@@ -5,6 +5,7 @@ import { encryption as deriveKey } from './utils/hkdf';
 import createDebug from './utils/debug';
 import { getAll as getCookies, clear as clearCookie, set as setCookie } from './utils/cookies';
 import { Config } from './config';
+import { emit } from './events';
 import { CookieSerializeOptions, serialize } from 'cookie';
 
 const debug = createDebug('cookie-store');
@@ -15,6 +16,23 @@ const enc = 'A256GCM';
 
 const notNull = <T>(value: T | null): value is T => value !== null;
 
+/**
+ * Encrypt the session cookie's value, with the `iat`, `uat` and `exp` of the session in the protected header.
+ */
+export const encrypt = (payload: string, key: JWK.OctKey, headers: { [key: string]: any }): string =>
+  JWE.encrypt(payload, key, {
+    alg,
+    enc,
+    ...headers
+  });
+
+export const decrypt = (jwe: string, keystore: JWK.OctKey | JWKS.KeyStore): JWE.completeDecrypt =>
+  JWE.decrypt(jwe, keystore, {
+    complete: true,
+    contentEncryptionAlgorithms: [enc],
+    keyManagementAlgorithms: [alg]
+  });
+
 export default class CookieStore {
   private keystore: JWKS.KeyStore;
 
@@ -49,22 +67,6 @@ export default class CookieStore {
     this.chunkSize = MAX_COOKIE_SIZE - emptyCookie.length;
   }
 
-  private encrypt(payload: string, headers: { [key: string]: any }): string {
-    return JWE.encrypt(payload, this.currentKey as JWK.OctKey, {
-      alg,
-      enc,
-      ...headers
-    });
-  }
-
-  private decrypt(jwe: string): JWE.completeDecrypt {
-    return JWE.decrypt(jwe, this.keystore, {
-      complete: true,
-      contentEncryptionAlgorithms: [enc],
-      keyManagementAlgorithms: [alg]
-    });
-  }
-
   private calculateExp(iat: number, uat: number): number {
     const { absoluteDuration } = this.config.session;
     const { rolling, rollingDuration } = this.config.session;
@@ -78,7 +80,7 @@ export default class CookieStore {
     return Math.min(uat + rollingDuration, iat + absoluteDuration);
   }
 
-  public read(req: IncomingMessage): [{ [key: string]: any }?, number?] {
+  public async read(req: IncomingMessage): Promise<[{ [key: string]: any }?, number?]> {
     const cookies = getCookies(req);
     const { name: sessionName, rollingDuration, absoluteDuration } = this.config.session;
 
@@ -118,7 +120,7 @@ export default class CookieStore {
       }
 
       if (existingSessionValue) {
-        const { protected: header, cleartext } = this.decrypt(existingSessionValue);
+        const { protected: header, cleartext } = decrypt(existingSessionValue, this.keystore);
         ({ iat, uat, exp } = header as { iat: number; uat: number; exp: number });
 
         // check that the existing session isn't expired based on options when it was established
@@ -140,8 +142,10 @@ export default class CookieStore {
       /* istanbul ignore else */
       if (err instanceof AssertionError) {
         debug('existing session was rejected because', err.message);
+        await emit(this.config.events, 'onSessionRejected', { req, reason: err.message });
       } else if (err instanceof errors.JOSEError) {
         debug('existing session was rejected because it could not be decrypted', err);
+        await emit(this.config.events, 'onSessionRejected', { req, reason: 'it could not be decrypted' });
       } else {
         debug('unexpected error handling session', err);
       }
@@ -187,7 +191,7 @@ export default class CookieStore {
     }
 
     debug('found session, creating signed session cookie(s) with name %o(.i)', sessionName);
-    const value = this.encrypt(JSON.stringify(session), { iat, uat, exp });
+    const value = encrypt(JSON.stringify(session), this.currentKey as JWK.OctKey, { iat, uat, exp });
 
     const chunkCount = Math.ceil(value.length / this.chunkSize);
     if (chunkCount > 1) {
@@ -0,0 +1,81 @@
+import { IncomingMessage } from 'http';
+
+/**
+ * The user's session, as passed to the {@link Events} callbacks.
+ */
+export interface EventSession {
+  user: { [key: string]: any };
+  [key: string]: any;
+}
+
+/**
+ * Callbacks that are called on authentication events, eg to keep an audit trail.
+ *
+ * They can be async and are awaited, but an error thrown by a callback is only logged with `console.error` and
+ * doesn't fail the request.
+ */
+export interface Events {
+  /**
+   * Called before the user is redirected to the identity provider to log in.
+   */
+  onLoginStart?: (event: {
+    req: IncomingMessage;
+    authorizationParams: { [key: string]: any };
+    returnTo?: string;
+  }) => void | Promise<void>;
+
+  /**
+   * Called when the callback has created a new session.
+   */
+  onLoginSuccess?: (event: { req: IncomingMessage; session: EventSession }) => void | Promise<void>;
+
+  /**
+   * Called when the callback fails, eg because the identity provider returned an error or the ID token is invalid.
+   */
+  onLoginError?: (event: { req: IncomingMessage; error: Error }) => void | Promise<void>;
+
+  /**
+   * Called when a user with a session logs out.
+   */
+  onLogout?: (event: { req: IncomingMessage; session: EventSession }) => void | Promise<void>;
+
+  /**
+   * Called when an access token has been refreshed with the refresh token, with the updated session.
+   * `audience` and `scopes` are set when a token for another audience or scopes was requested.
+   */
+  onTokenRefresh?: (event: {
+    req: IncomingMessage;
+    session: EventSession;
+    audience?: string;
+    scopes?: string[];
+  }) => void | Promise<void>;
+
+  /**
+   * Called when the session of a request is rejected, eg because it expired, couldn't be decrypted or was logged out.
+   */
+  onSessionRejected?: (event: { req: IncomingMessage; reason: string }) => void | Promise<void>;
+
+  /**
+   * Called when an access token can't be provided.
+   */
+  onAccessTokenError?: (event: { req: IncomingMessage; error: Error }) => void | Promise<void>;
+}
+
+/**
+ * Call the callback for an event, if there is one.
+ */
+export const emit = async <K extends keyof Events>(
+  events: Events | undefined,
+  name: K,
+  event: Parameters<NonNullable<Events[K]>>[0]
+): Promise<void> => {
+  const callback = events?.[name] as ((event: Parameters<NonNullable<Events[K]>>[0]) => void) | undefined;
+  if (!callback) {
+    return;
+  }
+  try {
+    await callback(event);
+  } catch (err) {
+    console.error(`The ${name} event callback failed`, err);
+  }
+};
@@ -61,6 +61,15 @@ const paramsSchema = Joi.object({
   })
     .default()
     .unknown(false),
+  store: Joi.object()
+    .custom((value, { error }) => {
+      const missing = ['get', 'set', 'delete'].find((method) => typeof value[method] !== 'function');
+      return missing ? error('store.method', { method: missing }) : value;
+    })
+    .messages({
+      'store.method': '"store" must implement a "{#method}" method'
+    })
+    .optional(),
   zIdentityLogout: Joi.boolean().optional().default(false),
   authorizationParams: Joi.object({
     response_type: Joi.string().optional().valid('id_token', 'code id_token', 'code').default('id_token'),
@@ -96,14 +105,22 @@ const paramsSchema = Joi.object({
   clientID: Joi.string().required(),
   clientSecret: Joi.string()
     .when(
-      Joi.ref('authorizationParams.response_type', {
-        adjust: (value) => value && value.includes('code')
+      Joi.ref('clientAuthMethod', {
+        adjust: (value) => value && value.startsWith('client_secret')
       }),
       {
         is: true,
-        then: Joi.string().required().messages({
-          'any.required': '"clientSecret" is required for a response_type that includes code'
-        })
+        then: Joi.when(
+          Joi.ref('authorizationParams.response_type', {
+            adjust: (value) => value && value.includes('code')
+          }),
+          {
+            is: true,
+            then: Joi.string().required().messages({
+              'any.required': '"clientSecret" is required for a response_type that includes code'
+            })
+          }
+        )
       }
     )
     .when(
@@ -125,13 +142,53 @@ const paramsSchema = Joi.object({
     .default(() => getLoginState),
   identityClaimFilter: Joi.array()
     .optional()
-    .default(['aud', 'iss', 'iat', 'exp', 'nbf', 'nonce', 'azp', 'auth_time', 's_hash', 'at_hash', 'c_hash']),
+    .default(['aud', 'iss', 'iat', 'exp', 'nbf', 'nonce', 'azp', 's_hash', 'at_hash', 'c_hash']),
   idpLogout: Joi.boolean()
     .optional()
     .default((parent) => parent.zIdentityLogout || false),
   idTokenSigningAlg: Joi.string().insensitive().not('none').optional().default('RS256'),
-  issuerBaseURL: Joi.string().uri().required(),
+  issuerMetadata: Joi.object({
+    issuer: Joi.string().uri().required(),
+    authorization_endpoint: Joi.string().uri().required()
+  })
+    .unknown(true)
+    .optional(),
+  issuerBaseURL: Joi.string()
+    .uri()
+    .when('issuerMetadata', {
+      is: Joi.exist(),
+      then: Joi.optional().default((parent) => parent.issuerMetadata.issuer),
+      otherwise: Joi.required()
+    }),
+  discoveryCacheMaxAge: Joi.number().integer().min(0).optional().default(600),
   legacySameSiteCookie: Joi.boolean().optional().default(true),
+  pushedAuthorizationRequests: Joi.boolean().optional().default(false),
+  revokeAccessTokenOnLogout: Joi.boolean().optional().default(false),
+  sessionRegistry: Joi.boolean()
+    .optional()
+    .default(false)
+    .custom((value, { state, warn }) => {
+      if (value && !state.ancestors[0].store) warn('sessionRegistry.inMemory');
+      return value;
+    })
+    .messages({
+      'sessionRegistry.inMemory':
+        'The session registry is kept in memory, so it is only seen by this server. ' +
+        'Set a shared "store" when running more than one server or on serverless platforms.'
+    }),
+  trustProxy: Joi.boolean().optional().default(false),
+  events: Joi.object({
+    onLoginStart: Joi.function().optional(),
+    onLoginSuccess: Joi.function().optional(),
+    onLoginError: Joi.function().optional(),
+    onLogout: Joi.function().optional(),
+    onTokenRefresh: Joi.function().optional(),
+    onSessionRejected: Joi.function().optional(),
+    onAccessTokenError: Joi.function().optional()
+  })
+    .optional()
+    .default({})
+    .unknown(false),
   routes: Joi.object({
     callback: Joi.string().uri({ relativeOnly: true }).required(),
     postLogoutRedirect: Joi.string().uri({ allowRelative: true }).default('')
@@ -139,11 +196,37 @@ const paramsSchema = Joi.object({
     .default()
     .unknown(false),
   clientAuthMethod: Joi.string()
-    .valid('client_secret_basic', 'client_secret_post', 'none')
+    .valid('client_secret_basic', 'client_secret_post', 'private_key_jwt', 'tls_client_auth', 'none')
     .optional()
     .default((parent) => {
+      if (parent.clientAssertionSigningKey) {
+        return 'private_key_jwt';
+      }
       return parent.authorizationParams.response_type === 'id_token' ? 'none' : 'client_secret_basic';
+    }),
+  clientAssertionSigningKey: Joi.alternatives()
+    .try(Joi.string(), Joi.object().unknown(true))
+    .when(Joi.ref('clientAuthMethod'), {
+      is: 'private_key_jwt',
+      then: Joi.required().messages({
+        'any.required': '"clientAssertionSigningKey" is required for the "private_key_jwt" client auth method'
+      })
+    }),
+  clientAssertionSigningAlg: Joi.string()
+    .valid('RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES256K', 'ES384', 'ES512', 'EdDSA')
+    .optional(),
+  tlsClientCertificate: Joi.string().when(Joi.ref('clientAuthMethod'), {
+    is: 'tls_client_auth',
+    then: Joi.required().messages({
+      'any.required': '"tlsClientCertificate" is required for the "tls_client_auth" client auth method'
     })
+  }),
+  tlsClientKey: Joi.string().when(Joi.ref('tlsClientCertificate'), {
+    is: Joi.exist(),
+    then: Joi.required().messages({
+      'any.required': '"tlsClientKey" is required with a "tlsClientCertificate"'
+    })
+  })
 });
 
 export type DeepPartial<T> = {
@@ -0,0 +1,83 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { strict as assert } from 'assert';
+import { BadRequest, MethodNotAllowed } from 'http-errors';
+import { Client } from 'openid-client';
+import { JWK, JWKS, JWT, errors } from 'jose';
+import { Config } from '../config';
+import { ClientFactory } from '../client';
+import LogoutStore, { LogoutClaims } from '../logout-store';
+import createDebug from '../utils/debug';
+
+const debug = createDebug('backchannel-logout');
+
+const BACKCHANNEL_LOGOUT_EVENT = 'http://schemas.openid.net/event/backchannel-logout';
+
+export type HandleBackchannelLogout = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
+async function verifyLogoutToken(config: Config, client: Client, logoutToken: string): Promise<LogoutClaims> {
+  const verify = (key: JWK.Key | JWKS.KeyStore): { [key: string]: any } =>
+    JWT.verify(logoutToken, key, {
+      issuer: client.issuer.metadata.issuer,
+      audience: config.clientID,
+      algorithms: [config.idTokenSigningAlg],
+      clockTolerance: `${config.clockTolerance} secs`
+    }) as { [key: string]: any };
+
+  let claims;
+  if (config.idTokenSigningAlg.toUpperCase().startsWith('HS')) {
+    claims = verify(JWK.asKey(config.clientSecret as string));
+  } else {
+    try {
+      claims = verify(await client.issuer.keystore());
+    } catch (err) {
+      if (!(err instanceof errors.JWKSNoMatchingKey)) {
+        throw err;
+      }
+      debug('no matching key for the logout token, reloading the issuer keystore');
+      claims = verify(await client.issuer.keystore(true));
+    }
+  }
+
+  assert(typeof claims.iat === 'number', 'logout_token must contain an iat claim');
+  assert(typeof claims.jti === 'string', 'logout_token must contain a jti claim');
+  assert(
+    claims.events && typeof claims.events[BACKCHANNEL_LOGOUT_EVENT] === 'object',
+    'logout_token must contain a back-channel logout event'
+  );
+  assert(claims.sid || claims.sub, 'logout_token must contain a sid or sub claim');
+  assert(!('nonce' in claims), 'logout_token must not contain a nonce claim');
+
+  return { sid: claims.sid, sub: claims.sub, iat: claims.iat };
+}
+
+export default function backchannelLogoutHandlerFactory(
+  config: Config,
+  getClient: ClientFactory,
+  logoutStore: LogoutStore
+): HandleBackchannelLogout {
+  return async (req, res) => {
+    if (req.method !== 'POST') {
+      throw new MethodNotAllowed('Back-channel logout must use the POST method');
+    }
+
+    const logoutToken = (req as IncomingMessage & { body?: { logout_token?: unknown } }).body?.logout_token;
+    if (typeof logoutToken !== 'string' || !logoutToken) {
+      throw new BadRequest('Missing logout_token');
+    }
+
+    const client = await getClient();
+    let claims;
+    try {
+      claims = await verifyLogoutToken(config, client, logoutToken);
+    } catch (err: any) {
+      throw new BadRequest(err.message);
+    }
+
+    await logoutStore.save(claims);
+
+    res.writeHead(200, {
+      'Cache-Control': 'no-store'
+    });
+    res.end();
+  };
+}
@@ -2,15 +2,24 @@ import { IncomingMessage, ServerResponse } from 'http';
 import urlJoin from 'url-join';
 import { BadRequest } from 'http-errors';
 import { Config } from '../config';
-import { ClientFactory } from '../client';
+import { ClientFactory, refetchSigningKey } from '../client';
 import TransientStore from '../transient-store';
 import { decodeState } from '../hooks/get-login-state';
 import { SessionCache } from '../session-cache';
+import { emit, EventSession } from '../events';
 
 function getRedirectUri(config: Config): string {
   return urlJoin(config.baseURL, config.routes.callback);
 }
 
+// The errors the identity provider returns to a `prompt=none` login when the user would have to interact with it.
+const SILENT_LOGIN_ERRORS = [
+  'login_required',
+  'interaction_required',
+  'consent_required',
+  'account_selection_required'
+];
+
 export type AfterCallback = (req: any, res: any, session: any, state: Record<string, any>) => Promise<any> | any;
 
 export type CallbackOptions = {
@@ -39,18 +48,42 @@ export default function callbackHandlerFactory(
       expectedState = transientCookieHandler.read('state', req, res);
       const max_age = transientCookieHandler.read('max_age', req, res);
       const code_verifier = transientCookieHandler.read('code_verifier', req, res);
-      // const nonce = transientCookieHandler.read('nonce', req, res);
-
-      // console.log(callbackParams);
+      const nonce = transientCookieHandler.read('nonce', req, res);
 
-      tokenSet = await client.callback(redirectUri, callbackParams, {
+      const checks = {
         max_age: max_age !== undefined ? +max_age : undefined,
         code_verifier,
-        // nonce,
+        nonce,
         state: expectedState
-      });
+      };
+      try {
+        tokenSet = await client.callback(redirectUri, callbackParams, checks);
+      } catch (err) {
+        // An ID token in the response is validated before the code is exchanged, so the callback can be tried again
+        // once the key it's signed with has been fetched. Without one the code has already been used.
+        if (!callbackParams.id_token || !(await refetchSigningKey(client, callbackParams.id_token))) {
+          throw err;
+        }
+        tokenSet = await client.callback(redirectUri, callbackParams, checks);
+      }
     } catch (err: any) {
-      throw new BadRequest(err.message);
+      if (expectedState && SILENT_LOGIN_ERRORS.includes(err.error)) {
+        const { silent, returnTo } = decodeState(expectedState);
+        if (silent) {
+          res.writeHead(302, {
+            Location: returnTo || config.baseURL
+          });
+          res.end();
+          return;
+        }
+      }
+      await emit(config.events, 'onLoginError', { req, error: err });
+      const error = new BadRequest(err.message);
+      // Keep the OpenID Connect error code (eg `access_denied`) for the error response.
+      if (err.error) {
+        error.code = err.error;
+      }
+      throw error;
     }
 
     const openidState: { returnTo?: string } = decodeState(expectedState as string);
@@ -60,7 +93,8 @@ export default function callbackHandlerFactory(
       session = await options.afterCallback(req as any, res as any, session, openidState);
     }
 
-    sessionCache.create(req, res, session);
+    await sessionCache.create(req, res, session);
+    await emit(config.events, 'onLoginSuccess', { req, session: session as EventSession });
 
     res.writeHead(302, {
       Location: openidState.returnTo || config.baseURL
@@ -6,6 +6,7 @@ import TransientStore, { StoreOptions } from '../transient-store';
 import { encodeState } from '../hooks/get-login-state';
 import { ClientFactory } from '../client';
 import createDebug from '../utils/debug';
+import { emit } from '../events';
 
 const debug = createDebug('handlers');
 
@@ -47,6 +48,10 @@ export default function loginHandlerFactory(
     }
     stateValue.nonce = transientHandler.generateNonce();
     stateValue.returnTo = stateValue.returnTo || opts.returnTo;
+    if (opts.authorizationParams.prompt === 'none') {
+      // Let the callback know that an error means there's no session at the identity provider, not a failed login.
+      stateValue.silent = true;
+    }
 
     const usePKCE = (opts.authorizationParams.response_type as string).includes('code');
     if (usePKCE) {
@@ -88,7 +93,22 @@ export default function loginHandlerFactory(
       });
     }
 
-    const authorizationUrl = client.authorizationUrl(authParams);
+    await emit(config.events, 'onLoginStart', { req, authorizationParams: authParams, returnTo: stateValue.returnTo });
+
+    let authorizationUrl;
+    if (config.pushedAuthorizationRequests && client.issuer.pushed_authorization_request_endpoint) {
+      const { request_uri } = await client.pushedAuthorizationRequest(authParams);
+      debug('pushed the authorization parameters to the issuer, got request_uri %s', request_uri);
+      // Only send the `client_id` and `request_uri`, everything else was sent in the pushed request.
+      authorizationUrl = client.authorizationUrl({
+        request_uri,
+        scope: undefined,
+        response_type: undefined,
+        redirect_uri: undefined
+      });
+    } else {
+      authorizationUrl = client.authorizationUrl(authParams);
+    }
     debug('redirecting to %s', authorizationUrl);
 
     res.writeHead(302, {
@@ -1,4 +1,5 @@
 import { IncomingMessage, ServerResponse } from 'http';
+import { Client } from 'openid-client';
 import url from 'url';
 import urlJoin from 'url-join';
 import createDebug from '../utils/debug';
@@ -10,6 +11,41 @@ const debug = createDebug('logout');
 
 export type HandleLogout = (req: IncomingMessage, res: ServerResponse, options?: LogoutOptions) => Promise<void>;
 
+/**
+ * Revoke the session's tokens at the issuer's `revocation_endpoint`, so they can't be used after logout.
+ * A failed revocation is only logged, it doesn't stop the user logging out.
+ */
+async function revokeTokens(
+  getClient: ClientFactory,
+  tokens: { token?: string; hint: 'refresh_token' | 'access_token' }[]
+): Promise<void> {
+  const revocable = tokens.filter(({ token }) => token);
+  if (!revocable.length) {
+    return;
+  }
+  let client: Client;
+  try {
+    client = await getClient();
+  } catch (err) {
+    debug('failed to discover the issuer, not revoking the tokens', err);
+    return;
+  }
+  if (!client.issuer.metadata.revocation_endpoint) {
+    debug('the issuer has no revocation_endpoint, not revoking the tokens');
+    return;
+  }
+  await Promise.all(
+    revocable.map(async ({ token, hint }) => {
+      try {
+        await client.revoke(token as string, hint);
+        debug('revoked the %s', hint);
+      } catch (err) {
+        debug('failed to revoke the %s', hint, err);
+      }
+    })
+  );
+}
+
 export default function logoutHandlerFactory(
   config: Config,
   getClient: ClientFactory,
@@ -23,7 +59,7 @@ export default function logoutHandlerFactory(
       returnURL = urlJoin(config.baseURL, returnURL);
     }
 
-    if (!sessionCache.isAuthenticated(req, res)) {
+    if (!(await sessionCache.isAuthenticated(req, res))) {
       debug('end-user already logged out, redirecting to %s', returnURL);
       res.writeHead(302, {
         Location: returnURL
@@ -32,8 +68,14 @@ export default function logoutHandlerFactory(
       return;
     }
 
-    const idToken = sessionCache.getIdToken(req, res);
-    sessionCache.delete(req, res);
+    const idToken = await sessionCache.getIdToken(req, res);
+    const refreshToken = await sessionCache.getRefreshToken(req, res);
+    const accessTokens = config.revokeAccessTokenOnLogout ? await sessionCache.getAccessTokens(req, res) : [];
+    await sessionCache.delete(req, res);
+    await revokeTokens(getClient, [
+      { token: refreshToken, hint: 'refresh_token' },
+      ...accessTokens.map((token) => ({ token, hint: 'access_token' as const }))
+    ]);
 
     if (!config.idpLogout) {
       debug('performing a local only logout, redirecting to %s', returnURL);
@@ -1,9 +1,17 @@
 export { default as CookieStore } from './cookie-store';
 export { default as TransientStore } from './transient-store';
+export { default as StatefulStore } from './stateful-store';
+export { default as MemoryStore } from './stores/memory-store';
+export { default as FileStore, FileStoreOptions } from './stores/file-store';
+export { SessionStore, SessionStorePayload } from './session-store';
+export { default as LogoutStore, LogoutClaims } from './logout-store';
+export { default as SessionRegistry, SessionRecord } from './session-registry';
+export { Events, EventSession, emit } from './events';
 export { Config, SessionConfig, CookieConfig, LoginOptions, LogoutOptions, AuthorizationParameters } from './config';
 export { get as getConfig, ConfigParameters, DeepPartial } from './get-config';
 export { default as loginHandler, HandleLogin } from './handlers/login';
 export { default as logoutHandler, HandleLogout } from './handlers/logout';
+export { default as backchannelLogoutHandler, HandleBackchannelLogout } from './handlers/backchannel-logout';
 export { default as callbackHandler, CallbackOptions, AfterCallback, HandleCallback } from './handlers/callback';
-export { default as clientFactory, ClientFactory } from './client';
+export { default as clientFactory, ClientFactory, refetchSigningKey } from './client';
 export { SessionCache } from './session-cache';
@@ -0,0 +1,79 @@
+import createDebug from './utils/debug';
+import { tenantKey } from './utils/keys';
+import { SessionStore } from './session-store';
+import MemoryStore from './stores/memory-store';
+import { Config } from './config';
+
+const debug = createDebug('logout-store');
+const epoch = (): number => (Date.now() / 1000) | 0; // eslint-disable-line no-bitwise
+
+/**
+ * The claims from a back-channel logout token that identify the sessions to log out.
+ */
+export interface LogoutClaims {
+  sid?: string;
+  sub?: string;
+  iat: number;
+}
+
+const key = (config: Config, claim: 'sid' | 'sub', value: string): string =>
+  `logout-${claim}-${tenantKey(config, value)}`;
+
+/**
+ * Records the `sid` and `sub` values from back-channel logout tokens so that matching sessions can be rejected
+ * when they are next read.
+ *
+ * The records are kept in the configured {@link Config.store}, or in memory if there isn't one, for as long as a
+ * session could live, under keys that include the issuer and client so a store can be shared between apps. Records
+ * kept in memory are only seen by the server that received the logout token, so a warning is logged the first time
+ * one is made.
+ */
+export default class LogoutStore {
+  private store: SessionStore;
+
+  private warnInMemory: boolean;
+
+  constructor(private config: Config, store?: SessionStore) {
+    this.store = store || config.store || new MemoryStore();
+    this.warnInMemory = !store && !config.store;
+  }
+
+  private lifetime(): number {
+    const { absoluteDuration, rollingDuration } = this.config.session;
+    return typeof absoluteDuration === 'number' ? absoluteDuration : rollingDuration;
+  }
+
+  async save({ sid, sub, iat }: LogoutClaims): Promise<void> {
+    if (this.warnInMemory) {
+      this.warnInMemory = false;
+      console.warn(
+        'Back-channel logouts are recorded in memory, so they are only seen by this server. ' +
+          'Set a shared "store" when running more than one server or on serverless platforms.'
+      );
+    }
+    const now = epoch();
+    const payload = { header: { iat, uat: now, exp: now + this.lifetime() }, data: { iat } };
+    if (sid) {
+      debug('recording back-channel logout for session %s', sid);
+      await this.store.set(key(this.config, 'sid', sid), payload);
+    } else if (sub) {
+      debug('recording back-channel logout for all sessions of %s', sub);
+      await this.store.set(key(this.config, 'sub', sub), payload);
+    }
+  }
+
+  /**
+   * A session is logged out if there's a record for its `sid`, or a record for its `sub` that was made after the
+   * session was created.
+   */
+  async isLoggedOut(user: { sid?: string; sub?: string }, createdAt?: number): Promise<boolean> {
+    if (user.sid && (await this.store.get(key(this.config, 'sid', user.sid)))) {
+      return true;
+    }
+    if (user.sub) {
+      const record = await this.store.get(key(this.config, 'sub', user.sub));
+      return !!record && (typeof createdAt !== 'number' || record.data.iat >= createdAt);
+    }
+    return false;
+  }
+}
@@ -2,9 +2,12 @@ import { IncomingMessage, ServerResponse } from 'http';
 import { TokenSet } from 'openid-client';
 
 export interface SessionCache {
-  create(req: IncomingMessage, res: ServerResponse, session: { [key: string]: any }): void;
-  delete(req: IncomingMessage, res: ServerResponse): void;
-  isAuthenticated(req: IncomingMessage, res: ServerResponse): boolean;
-  getIdToken(req: IncomingMessage, res: ServerResponse): string | undefined;
+  create(req: IncomingMessage, res: ServerResponse, session: { [key: string]: any }): void | Promise<void>;
+  delete(req: IncomingMessage, res: ServerResponse): Promise<void>;
+  isAuthenticated(req: IncomingMessage, res: ServerResponse): Promise<boolean>;
+  getIdToken(req: IncomingMessage, res: ServerResponse): Promise<string | undefined>;
+  getRefreshToken(req: IncomingMessage, res: ServerResponse): Promise<string | undefined>;
+  getAccessToken(req: IncomingMessage, res: ServerResponse): Promise<string | undefined>;
+  getAccessTokens(req: IncomingMessage, res: ServerResponse): Promise<string[]>;
   fromTokenSet(tokenSet: TokenSet): { [key: string]: any };
 }
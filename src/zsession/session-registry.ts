@@ -0,0 +1,202 @@
+import { IncomingMessage } from 'http';
+import { generators } from 'openid-client';
+import createDebug from './utils/debug';
+import { tenantKey } from './utils/keys';
+import { SessionStore } from './session-store';
+import MemoryStore from './stores/memory-store';
+import { Config } from './config';
+
+const debug = createDebug('session-registry');
+const epoch = (): number => (Date.now() / 1000) | 0; // eslint-disable-line no-bitwise
+
+/**
+ * A user's session, as recorded by the {@link SessionRegistry}.
+ */
+export interface SessionRecord {
+  /**
+   * The session id, the same as the session's `id`.
+   */
+  id: string;
+
+  /**
+   * The `sub` claim of the user the session belongs to.
+   */
+  sub: string;
+
+  /**
+   * The `User-Agent` header of the request that created the session.
+   */
+  userAgent?: string;
+
+  /**
+   * The IP address of the request that created the session.
+   */
+  ip?: string;
+
+  /**
+   * The time (in seconds since the epoch) the session was created.
+   */
+  iat: number;
+
+  /**
+   * The time (in seconds since the epoch) the session was last updated.
+   */
+  uat: number;
+}
+
+const subKey = (config: Config, sub: string): string => `registry-sub-${tenantKey(config, sub)}`;
+
+const sessionKey = (config: Config, id: string): string => `registry-session-${tenantKey(config, id)}`;
+
+// The `X-Forwarded-For` header can be set by the client, so it's only read when the app is configured to trust it.
+const getIp = (req: IncomingMessage, trustProxy: boolean): string | undefined => {
+  const forwardedFor = trustProxy ? req.headers['x-forwarded-for'] : undefined;
+  const forwarded = Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor;
+  return forwarded ? forwarded.split(',')[0].trim() : req.socket?.remoteAddress;
+};
+
+/**
+ * Records the sessions each user has, so they can be listed and revoked.
+ *
+ * Every session gets a record under its id, and every user a list of their session ids, under keys that include the
+ * issuer and client so a store can be shared between apps. The records are kept in the
+ * configured {@link Config.store}, or in memory if there isn't one, for as long as the session lives, and are renewed
+ * with the session when it's {@link SessionConfig.rolling rolling}. A session that has no record, because it was
+ * revoked or has expired, is rejected when it's next read.
+ *
+ * Changes to a user's list of session ids are made one at a time in each server, but the {@link SessionStore} has no
+ * atomic updates, so two servers that change the same user's list at the same moment can still lose an id. That
+ * session then isn't listed by {@link getSessions}, it's still checked and can still be revoked by its id.
+ */
+export default class SessionRegistry {
+  private store: SessionStore;
+
+  // The pending change to each user's list of session ids, so the changes in this server don't overwrite each other.
+  private listUpdates: Map<string, Promise<void>> = new Map();
+
+  constructor(private config: Config, store?: SessionStore) {
+    this.store = store || config.store || new MemoryStore();
+  }
+
+  private calculateExp(iat: number, uat: number): number {
+    const { absoluteDuration } = this.config.session;
+    const { rolling, rollingDuration } = this.config.session;
+
+    if (typeof absoluteDuration !== 'number') {
+      return uat + rollingDuration;
+    }
+    if (!rolling) {
+      return iat + absoluteDuration;
+    }
+    return Math.min(uat + rollingDuration, iat + absoluteDuration);
+  }
+
+  private async getIds(sub: string): Promise<string[]> {
+    const payload = await this.store.get(subKey(this.config, sub));
+    return payload ? payload.data.ids : [];
+  }
+
+  /**
+   * Change the user's list of session ids, after any other change to it in this server is done. The list lives as
+   * long as `exp`, or as long as it already did if that's longer.
+   */
+  private updateIds(sub: string, update: (ids: string[]) => string[], exp = 0): Promise<void> {
+    const previous = this.listUpdates.get(sub) || Promise.resolve();
+    const pending = previous.then(async () => {
+      const payload = await this.store.get(subKey(this.config, sub));
+      const ids = update(payload ? payload.data.ids : []);
+      if (!ids.length) {
+        await this.store.delete(subKey(this.config, sub));
+        return;
+      }
+      const now = epoch();
+      await this.store.set(subKey(this.config, sub), {
+        header: { iat: payload?.header.iat || now, uat: now, exp: Math.max(exp, payload?.header.exp || 0) },
+        data: { ids }
+      });
+    });
+    const settled = pending.catch(() => undefined);
+    this.listUpdates.set(sub, settled);
+    settled.then(() => {
+      if (this.listUpdates.get(sub) === settled) {
+        this.listUpdates.delete(sub);
+      }
+    });
+    return pending;
+  }
+
+  generateId(): string {
+    return generators.random();
+  }
+
+  async register(req: IncomingMessage, id: string, sub: string): Promise<void> {
+    const now = epoch();
+    const exp = this.calculateExp(now, now);
+    const record: SessionRecord = {
+      id,
+      sub,
+      userAgent: req.headers['user-agent'],
+      ip: getIp(req, this.config.trustProxy),
+      iat: now,
+      uat: now
+    };
+    debug('registering session %s', id);
+    await this.store.set(sessionKey(this.config, id), { header: { iat: now, uat: now, exp }, data: record });
+    await this.updateIds(sub, (ids) => [...ids.filter((existing) => existing !== id), id], exp);
+  }
+
+  /**
+   * Renew the record of a {@link SessionConfig.rolling rolling} session when the session is rolled.
+   */
+  async touch(id: string): Promise<void> {
+    const payload = await this.store.get(sessionKey(this.config, id));
+    const now = epoch();
+    if (!payload || payload.header.exp <= now || payload.header.uat === now) {
+      return;
+    }
+    const record = payload.data as SessionRecord;
+    const exp = this.calculateExp(record.iat, now);
+    await this.store.set(sessionKey(this.config, id), {
+      header: { ...payload.header, uat: now, exp },
+      data: { ...record, uat: now }
+    });
+    const list = await this.store.get(subKey(this.config, record.sub));
+    if (!list || list.header.exp < exp) {
+      await this.updateIds(record.sub, (ids) => (ids.includes(id) ? ids : [...ids, id]), exp);
+    }
+  }
+
+  async isActive(id: string): Promise<boolean> {
+    const payload = await this.store.get(sessionKey(this.config, id));
+    return !!payload && payload.header.exp > epoch();
+  }
+
+  /**
+   * Get the active sessions of the user, oldest first. Records of sessions that have expired are removed.
+   */
+  async getSessions(sub: string): Promise<SessionRecord[]> {
+    const ids = await this.getIds(sub);
+    const payloads = await Promise.all(ids.map((id) => this.store.get(sessionKey(this.config, id))));
+    const now = epoch();
+    const records = payloads
+      .filter((payload): payload is NonNullable<typeof payload> => !!payload && payload.header.exp > now)
+      .map((payload) => payload.data as SessionRecord);
+    if (records.length !== ids.length) {
+      const active = records.map(({ id }) => id);
+      const removed = ids.filter((id) => !active.includes(id));
+      await this.updateIds(sub, (current) => current.filter((id) => !removed.includes(id)));
+    }
+    return records;
+  }
+
+  async revoke(id: string): Promise<void> {
+    const payload = await this.store.get(sessionKey(this.config, id));
+    if (!payload) {
+      return;
+    }
+    debug('revoking session %s', id);
+    await this.store.delete(sessionKey(this.config, id));
+    const { sub } = payload.data as SessionRecord;
+    await this.updateIds(sub, (ids) => ids.filter((existing) => existing !== id));
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * The timing information and session data persisted by a {@link SessionStore}.
+ */
+export interface SessionStorePayload {
+  header: {
+    /**
+     * The time (in seconds since the epoch) the session was created.
+     */
+    iat: number;
+
+    /**
+     * The time (in seconds since the epoch) the session was last updated.
+     */
+    uat: number;
+
+    /**
+     * The time (in seconds since the epoch) the session expires.
+     */
+    exp: number;
+  };
+
+  /**
+   * The session data.
+   */
+  data: { [key: string]: any };
+}
+
+/**
+ * An async key/value adapter for keeping sessions on the server.
+ *
+ * When a store is configured, only a signed session id is kept in the session cookie.
+ */
+export interface SessionStore {
+  /**
+   * Get the session stored under `id`, return `null` or `undefined` if there isn't one.
+   */
+  get(id: string): Promise<SessionStorePayload | null | undefined>;
+
+  /**
+   * Store a session under `id`, replacing any existing session with the same id.
+   */
+  set(id: string, payload: SessionStorePayload): Promise<void>;
+
+  /**
+   * Remove the session stored under `id`.
+   */
+  delete(id: string): Promise<void>;
+}
@@ -0,0 +1,160 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { strict as assert, AssertionError } from 'assert';
+import { generators } from 'openid-client';
+import { JWK, JWKS } from 'jose';
+import { signing as deriveKey } from './utils/hkdf';
+import createDebug from './utils/debug';
+import { get as getCookie, clear as clearCookie, set as setCookie } from './utils/cookies';
+import { generateCookieValue, getCookieValue } from './transient-store';
+import { SessionStore } from './session-store';
+import { Config } from './config';
+import { emit } from './events';
+import { CookieSerializeOptions } from 'cookie';
+
+const debug = createDebug('stateful-store');
+const epoch = (): number => (Date.now() / 1000) | 0; // eslint-disable-line no-bitwise
+
+/**
+ * Keeps the session in a {@link SessionStore} and only a signed session id in the session cookie.
+ *
+ * It has the same `read`/`save` contract as the {@link CookieStore} so the two can be swapped in the session cache.
+ */
+export default class StatefulStore {
+  private keystore: JWKS.KeyStore;
+
+  private currentKey: JWK.Key | undefined;
+
+  constructor(public config: Config, private store: SessionStore) {
+    const secrets = Array.isArray(config.secret) ? config.secret : [config.secret];
+    this.keystore = new JWKS.KeyStore();
+
+    secrets.forEach((secretString: string, i: number) => {
+      const key = JWK.asKey(deriveKey(secretString));
+      if (i === 0) {
+        this.currentKey = key;
+      }
+      this.keystore.add(key);
+    });
+  }
+
+  private calculateExp(iat: number, uat: number): number {
+    const { absoluteDuration } = this.config.session;
+    const { rolling, rollingDuration } = this.config.session;
+
+    if (typeof absoluteDuration !== 'number') {
+      return uat + rollingDuration;
+    }
+    if (!rolling) {
+      return iat + absoluteDuration;
+    }
+    return Math.min(uat + rollingDuration, iat + absoluteDuration);
+  }
+
+  /**
+   * Get the session id from the signed session cookie, or `undefined` if it is missing or the signature is invalid.
+   */
+  public getSessionId(req: IncomingMessage): string | undefined {
+    const { name: sessionName } = this.config.session;
+    return getCookieValue(sessionName, getCookie(req, sessionName), this.keystore);
+  }
+
+  public async read(req: IncomingMessage): Promise<[{ [key: string]: any }?, number?]> {
+    const { rollingDuration, absoluteDuration } = this.config.session;
+    const id = this.getSessionId(req);
+
+    if (!id) {
+      return [];
+    }
+
+    try {
+      debug('reading session %s from the store', id);
+      // A store that can't be reached fails the request, treating it as no session would log the user out for good.
+      const payload = await this.store.get(id);
+      if (!payload) {
+        debug('existing session was rejected because it was not found in the store');
+        await emit(this.config.events, 'onSessionRejected', { req, reason: 'it was not found in the store' });
+        return [];
+      }
+
+      assert(payload.header && typeof payload.header === 'object', 'it could not be parsed');
+      const { iat, uat, exp } = payload.header;
+
+      // check that the existing session isn't expired based on options when it was established
+      assert(exp > epoch(), 'it is expired based on options when it was established');
+
+      // check that the existing session isn't expired based on current rollingDuration rules
+      if (rollingDuration) {
+        assert(uat + rollingDuration > epoch(), 'it is expired based on current rollingDuration rules');
+      }
+
+      // check that the existing session isn't expired based on current absoluteDuration rules
+      if (typeof absoluteDuration === 'number') {
+        assert(iat + absoluteDuration > epoch(), 'it is expired based on current absoluteDuration rules');
+      }
+
+      return [payload.data, iat];
+    } catch (err) {
+      if (err instanceof AssertionError) {
+        debug('existing session was rejected because', err.message);
+        await emit(this.config.events, 'onSessionRejected', { req, reason: err.message });
+      } else if (err instanceof SyntaxError) {
+        debug('existing session was rejected because it could not be parsed', err);
+        await emit(this.config.events, 'onSessionRejected', { req, reason: 'it could not be parsed' });
+      } else {
+        throw err;
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Set the session cookie synchronously, so it can be called from an `on-headers` listener, and return a promise
+   * that resolves once the store has been updated.
+   *
+   * When `createdAt` is omitted the session is treated as a new session and is given a new id.
+   */
+  public save(
+    req: IncomingMessage,
+    res: ServerResponse,
+    session: { [key: string]: any } | undefined | null,
+    createdAt?: number
+  ): Promise<void> {
+    const {
+      cookie: { transient, ...cookieConfig },
+      name: sessionName
+    } = this.config.session;
+    const existingId = this.getSessionId(req);
+
+    if (!session) {
+      debug('clearing session cookie');
+      clearCookie(res, sessionName, {
+        domain: cookieConfig.domain,
+        path: cookieConfig.path
+      });
+      return existingId ? this.store.delete(existingId) : Promise.resolve();
+    }
+
+    const uat = epoch();
+    const iat = typeof createdAt === 'number' ? createdAt : uat;
+    const exp = this.calculateExp(iat, uat);
+
+    const cookieOptions: CookieSerializeOptions = {
+      ...cookieConfig
+    };
+    if (!transient) {
+      cookieOptions.expires = new Date(exp * 1000);
+    }
+
+    // Always issue a new id for a new session to prevent session fixation.
+    const id = typeof createdAt === 'number' && existingId ? existingId : generators.random();
+    debug('found session, storing it as %s and setting signed session cookie %o', id, sessionName);
+    setCookie(res, sessionName, generateCookieValue(sessionName, id, this.currentKey as JWK.Key), cookieOptions);
+
+    const pending = [this.store.set(id, { header: { iat, uat, exp }, data: session })];
+    if (existingId && existingId !== id) {
+      pending.push(this.store.delete(existingId));
+    }
+    return Promise.all(pending).then(() => undefined);
+  }
+}
@@ -0,0 +1,78 @@
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { SessionStore, SessionStorePayload } from '../session-store';
+
+const readFile = promisify(fs.readFile);
+const writeFile = promisify(fs.writeFile);
+const unlink = promisify(fs.unlink);
+const mkdir = promisify(fs.mkdir);
+
+const epoch = (): number => (Date.now() / 1000) | 0; // eslint-disable-line no-bitwise
+const validId = /^[\w-]+$/;
+
+export interface FileStoreOptions {
+  /**
+   * The directory to keep the session files in, it will be created if it doesn't exist.
+   */
+  dir: string;
+}
+
+/**
+ * A {@link SessionStore} that keeps each session in a JSON file named after the session id.
+ */
+export default class FileStore implements SessionStore {
+  private dir: string;
+
+  private ready: Promise<void> | undefined;
+
+  constructor({ dir }: FileStoreOptions) {
+    this.dir = path.resolve(dir);
+  }
+
+  private file(id: string): string {
+    if (!validId.test(id)) {
+      throw new TypeError('Invalid session id');
+    }
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  private ensureDir(): Promise<void> {
+    if (!this.ready) {
+      this.ready = mkdir(this.dir, { recursive: true }).then(() => undefined);
+    }
+    return this.ready;
+  }
+
+  async get(id: string): Promise<SessionStorePayload | undefined> {
+    let payload: SessionStorePayload;
+    try {
+      payload = JSON.parse(await readFile(this.file(id), 'utf8'));
+    } catch (err: any) {
+      if (err.code === 'ENOENT') {
+        return undefined;
+      }
+      throw err;
+    }
+    if (payload.header.exp <= epoch()) {
+      await this.delete(id);
+      return undefined;
+    }
+    return payload;
+  }
+
+  async set(id: string, payload: SessionStorePayload): Promise<void> {
+    await this.ensureDir();
+    await writeFile(this.file(id), JSON.stringify(payload), { encoding: 'utf8', mode: 0o600 });
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await unlink(this.file(id));
+    } catch (err: any) {
+      if (err.code !== 'ENOENT') {
+        throw err;
+      }
+    }
+  }
+}
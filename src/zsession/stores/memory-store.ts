@@ -0,0 +1,34 @@
+import { SessionStore, SessionStorePayload } from '../session-store';
+
+const epoch = (): number => (Date.now() / 1000) | 0; // eslint-disable-line no-bitwise
+
+/**
+ * A {@link SessionStore} that keeps sessions in the memory of the current process.
+ *
+ * Sessions are lost when the process restarts and are not shared between processes, so this is only suitable for
+ * development or for apps that run as a single long lived server.
+ */
+export default class MemoryStore implements SessionStore {
+  private sessions: Map<string, SessionStorePayload>;
+
+  constructor() {
+    this.sessions = new Map();
+  }
+
+  async get(id: string): Promise<SessionStorePayload | undefined> {
+    const payload = this.sessions.get(id);
+    if (payload && payload.header.exp <= epoch()) {
+      this.sessions.delete(id);
+      return undefined;
+    }
+    return payload;
+  }
+
+  async set(id: string, payload: SessionStorePayload): Promise<void> {
+    this.sessions.set(id, payload);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+}
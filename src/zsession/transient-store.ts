@@ -35,7 +35,7 @@ const verifySignature = (cookie: string, value: string, signature: string, keyst
     return false;
   }
 };
-const getCookieValue = (cookie: string, value: string, keystore: JWKS.KeyStore): string | undefined => {
+export const getCookieValue = (cookie: string, value: string, keystore: JWKS.KeyStore): string | undefined => {
   if (!value) {
     return undefined;
   }
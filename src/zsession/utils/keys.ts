@@ -0,0 +1,17 @@
+import { createHash } from 'crypto';
+import { Config } from '../config';
+
+/**
+ * Hash a value into a URL-safe key, because session stores may only accept URL-safe keys (eg the `FileStore`).
+ */
+export const hashKey = (value: string): string =>
+  createHash('sha256').update(value).digest('base64').replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_');
+
+/**
+ * Hash a value with the issuer and client it belongs to, so apps or tenants that share a store can't see each
+ * other's records for the same `sub` or `sid`.
+ */
+export const tenantKey = (
+  { issuerBaseURL, clientID }: Pick<Config, 'issuerBaseURL' | 'clientID'>,
+  value: string
+): string => hashKey(JSON.stringify([issuerBaseURL, clientID, value]));
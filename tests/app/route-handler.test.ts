@@ -0,0 +1,116 @@
+import '../fixtures/edge';
+import { NextApiRequest, NextApiResponse } from 'next';
+import onHeaders from 'on-headers';
+import appRouteHandlerFactory from '../../src/app/route-handler';
+import { handlerFactory } from '../../src/handlers';
+
+describe('app route handler', () => {
+  const handlers = (): { [key: string]: jest.Mock } => ({
+    handleLogin: jest.fn(),
+    handleLogout: jest.fn(),
+    handleCallback: jest.fn(),
+    handleProfile: jest.fn(),
+    handleBackchannelLogout: jest.fn()
+  });
+  const nextConfig = { routes: { login: '/api/auth/login' } };
+
+  const request = (path: string, init?: RequestInit): Request => new Request(`http://www.example.com${path}`, init);
+
+  test('should route to the handler for the route param', async () => {
+    const { handleLogin, ...rest } = handlers();
+    handleLogin.mockImplementation(async (req: NextApiRequest, res: NextApiResponse) => {
+      res.writeHead(302, { Location: `https://op.example.com/authorize?returnTo=${req.query.returnTo}` });
+      res.end();
+    });
+    const handleAuth = appRouteHandlerFactory(handlerFactory({ handleLogin, ...rest, nextConfig } as any));
+
+    const res = await handleAuth()(request('/api/auth/login?returnTo=/foo'), { params: { zidentity: 'login' } });
+
+    expect(handleLogin).toHaveBeenCalledWith(
+      expect.objectContaining({ method: 'GET', url: '/api/auth/login?returnTo=/foo' }),
+      expect.anything()
+    );
+    expect(res.status).toBe(302);
+    expect(res.headers.get('location')).toBe('https://op.example.com/authorize?returnTo=/foo');
+    await expect(res.text()).resolves.toBe('');
+  });
+
+  test('should pass a form post body to the handler', async () => {
+    const { handleBackchannelLogout, ...rest } = handlers();
+    handleBackchannelLogout.mockImplementation(async (req: NextApiRequest, res: NextApiResponse) => {
+      expect(req.body).toEqual({ logout_token: '__test_logout_token__' });
+      expect(req.headers['content-type']).toBe('application/x-www-form-urlencoded');
+      res.status(200).end();
+    });
+    const handleAuth = appRouteHandlerFactory(handlerFactory({ handleBackchannelLogout, ...rest, nextConfig } as any));
+
+    const res = await handleAuth()(
+      request('/api/auth/backchannel-logout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: 'logout_token=__test_logout_token__'
+      }),
+      { params: { zidentity: 'backchannel-logout' } }
+    );
+
+    expect(handleBackchannelLogout).toHaveBeenCalled();
+    expect(res.status).toBe(200);
+  });
+
+  test('should return json bodies and every cookie the handler sets', async () => {
+    const { handleProfile, ...rest } = handlers();
+    handleProfile.mockImplementation(async (_req: NextApiRequest, res: NextApiResponse) => {
+      onHeaders(res, () => res.setHeader('Set-Cookie', ['appSession=foo; Path=/', 'other=bar; Path=/']));
+      res.json({ sub: '__test_sub__' });
+    });
+    const handleAuth = appRouteHandlerFactory(handlerFactory({ handleProfile, ...rest, nextConfig } as any));
+
+    const res = await handleAuth()(request('/api/auth/me'), { params: { zidentity: 'me' } });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('application/json; charset=utf-8');
+    expect(res.headers.get('set-cookie')).toBe('appSession=foo; Path=/, other=bar; Path=/');
+    await expect(res.json()).resolves.toEqual({ sub: '__test_sub__' });
+  });
+
+  test('should use custom handlers', async () => {
+    const login = jest.fn(async (_req: NextApiRequest, res: NextApiResponse) => res.status(204).end());
+    const handleAuth = appRouteHandlerFactory(handlerFactory({ ...handlers(), nextConfig } as any));
+
+    const res = await handleAuth({ login })(request('/api/auth/login'), { params: { zidentity: 'login' } });
+
+    expect(login).toHaveBeenCalled();
+    expect(res.status).toBe(204);
+  });
+
+  test('should return 404 for unknown routes', async () => {
+    const handleAuth = appRouteHandlerFactory(handlerFactory({ ...handlers(), nextConfig } as any));
+
+    const res = await handleAuth()(request('/api/auth/foo'), { params: { zidentity: 'foo' } });
+
+    expect(res.status).toBe(404);
+  });
+
+  test('should return the error status when a handler fails', async () => {
+    const { handleCallback, ...rest } = handlers();
+    handleCallback.mockRejectedValue(Object.assign(new Error('Bad state'), { status: 400 }));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const handleAuth = appRouteHandlerFactory(handlerFactory({ handleCallback, ...rest, nextConfig } as any));
+
+    const res = await handleAuth()(request('/api/auth/callback'), { params: { zidentity: 'callback' } });
+
+    expect(res.status).toBe(400);
+    await expect(res.text()).resolves.toBe('Bad state');
+  });
+
+  test('should fail when the response is destroyed', async () => {
+    const login = jest.fn(async (_req: NextApiRequest, res: NextApiResponse) => {
+      res.destroy(new Error('store down'));
+    });
+    const handleAuth = appRouteHandlerFactory(handlerFactory({ ...handlers(), nextConfig } as any));
+
+    await expect(handleAuth({ login })(request('/api/auth/login'), { params: { zidentity: 'login' } })).rejects.toThrow(
+      'store down'
+    );
+  });
+});
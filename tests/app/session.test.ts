@@ -0,0 +1,29 @@
+import { IncomingMessage } from 'http';
+import appSessionFactory from '../../src/app/session';
+
+describe('app session', () => {
+  test('should read the session from the request cookies', async () => {
+    const session = { user: { sub: '__test_sub__' } };
+    const getSession = jest.fn().mockResolvedValue(session);
+    const getAppSession = appSessionFactory(getSession, () => ({
+      getAll: () => [
+        { name: 'appSession.0', value: 'foo' },
+        { name: 'appSession.1', value: 'bar' }
+      ]
+    }));
+
+    await expect(getAppSession()).resolves.toBe(session);
+    const [req] = getSession.mock.calls[0];
+    expect((req as IncomingMessage).headers.cookie).toBe('appSession.0=foo; appSession.1=bar');
+  });
+
+  test('should use a new request for every call', async () => {
+    const getSession = jest.fn().mockResolvedValue(null);
+    const getAppSession = appSessionFactory(getSession, () => ({ getAll: () => [] }));
+
+    await expect(getAppSession()).resolves.toBeNull();
+    await getAppSession();
+    expect(getSession.mock.calls[0][0]).not.toBe(getSession.mock.calls[1][0]);
+    expect(getSession.mock.calls[0][0].headers.cookie).toBe('');
+  });
+});
@@ -0,0 +1,45 @@
+import withPageAuthRequiredFactory from '../../src/app/with-page-auth-required';
+
+describe('app router with page auth required', () => {
+  const redirect = jest.fn((url: string): never => {
+    throw new Error(`NEXT_REDIRECT;${url}`);
+  });
+
+  test('should redirect to the login route when there is no session', async () => {
+    const component = jest.fn();
+    const withPageAuthRequired = withPageAuthRequiredFactory('/api/auth/login', async () => null, redirect);
+
+    await expect(withPageAuthRequired(component)({})).rejects.toThrow('NEXT_REDIRECT;/api/auth/login?returnTo=%2F');
+    expect(component).not.toHaveBeenCalled();
+  });
+
+  test('should return to the configured url', async () => {
+    const withPageAuthRequired = withPageAuthRequiredFactory('/api/auth/login', async () => undefined, redirect);
+
+    await expect(withPageAuthRequired(jest.fn(), { returnTo: '/profile' })({})).rejects.toThrow(
+      'NEXT_REDIRECT;/api/auth/login?returnTo=%2Fprofile'
+    );
+  });
+
+  test('should build the return url from the props', async () => {
+    const withPageAuthRequired = withPageAuthRequiredFactory('/api/auth/login', async () => null, redirect);
+    const page = withPageAuthRequired(jest.fn(), {
+      returnTo: ({ params }: { params: { id: string } }) => `/orders/${params.id}`
+    });
+
+    await expect(page({ params: { id: '1' } })).rejects.toThrow('NEXT_REDIRECT;/api/auth/login?returnTo=%2Forders%2F1');
+  });
+
+  test('should render the component when there is a session', async () => {
+    const component = jest.fn().mockReturnValue('__test_page__');
+    const withPageAuthRequired = withPageAuthRequiredFactory(
+      '/api/auth/login',
+      async () => ({ user: { sub: '__test_sub__' } } as any),
+      redirect
+    );
+
+    await expect(withPageAuthRequired(component)({ foo: 'bar' })).resolves.toBe('__test_page__');
+    expect(component).toHaveBeenCalledWith({ foo: 'bar' });
+    expect(redirect).not.toHaveBeenCalled();
+  });
+});
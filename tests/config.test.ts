@@ -31,13 +31,23 @@ describe('config params', () => {
       baseURL: 'http://localhost:3001',
       clientID: '__test_client_id__',
       clientSecret: '__test_client_secret__',
+      clientAssertionSigningKey: undefined,
+      clientAssertionSigningAlg: undefined,
+      tlsClientCertificate: undefined,
+      tlsClientKey: undefined,
       clockTolerance: 60,
       httpTimeout: 5000,
+      discoveryCacheMaxAge: 600,
       enableTelemetry: true,
       idpLogout: true,
       zIdentityLogout: true,
       idTokenSigningAlg: 'RS256',
       legacySameSiteCookie: true,
+      pushedAuthorizationRequests: false,
+      revokeAccessTokenOnLogout: false,
+      sessionRegistry: false,
+      trustProxy: false,
+      events: {},
       authorizationParams: {
         response_type: 'code',
         audience: undefined,
@@ -59,41 +69,23 @@ describe('config params', () => {
       },
       routes: { callback: '/api/auth/callback', postLogoutRedirect: '' },
       getLoginState: expect.any(Function),
-      identityClaimFilter: [
-        'aud',
-        'iss',
-        'iat',
-        'exp',
-        'nbf',
-        'nonce',
-        'azp',
-        'auth_time',
-        's_hash',
-        'at_hash',
-        'c_hash'
-      ],
+      identityClaimFilter: ['aud', 'iss', 'iat', 'exp', 'nbf', 'nonce', 'azp', 's_hash', 'at_hash', 'c_hash'],
       clientAuthMethod: 'client_secret_basic'
     });
     expect(nextConfig).toStrictEqual({
-      identityClaimFilter: [
-        'aud',
-        'iss',
-        'iat',
-        'exp',
-        'nbf',
-        'nonce',
-        'azp',
-        'auth_time',
-        's_hash',
-        'at_hash',
-        'c_hash'
-      ],
+      identityClaimFilter: ['aud', 'iss', 'iat', 'exp', 'nbf', 'nonce', 'azp', 's_hash', 'at_hash', 'c_hash'],
+      events: {},
       routes: {
         login: '/api/auth/login',
         callback: '/api/auth/callback',
-        postLogoutRedirect: ''
+        postLogoutRedirect: '',
+        error: undefined
       },
-      organization: undefined
+      organization: undefined,
+      refreshSkew: 60,
+      rolesClaim: 'roles',
+      permissionsClaim: 'permissions',
+      proxy: {}
     });
   });
 
@@ -102,6 +94,10 @@ describe('config params', () => {
       getConfigWithEnv({
         ZIDENTITY_ENABLE_TELEMETRY: 'off',
         ZIDENTITY_LEGACY_SAME_SITE_COOKIE: '0',
+        ZIDENTITY_PUSHED_AUTHORIZATION_REQUESTS: 'yes',
+        ZIDENTITY_REVOKE_ACCESS_TOKEN_ON_LOGOUT: 'on',
+        ZIDENTITY_SESSION_REGISTRY: 'on',
+        ZIDENTITY_TRUST_PROXY: 'on',
         ZIDENTITY_IDP_LOGOUT: 'no',
         ZIDENTITY_COOKIE_TRANSIENT: true,
         ZIDENTITY_COOKIE_HTTP_ONLY: 'on',
@@ -114,6 +110,10 @@ describe('config params', () => {
       enableTelemetry: false,
       idpLogout: false,
       legacySameSiteCookie: false,
+      pushedAuthorizationRequests: true,
+      revokeAccessTokenOnLogout: true,
+      sessionRegistry: true,
+      trustProxy: true,
       session: {
         absoluteDuration: false,
         cookie: {
@@ -131,12 +131,14 @@ describe('config params', () => {
       getConfigWithEnv({
         ZIDENTITY_CLOCK_TOLERANCE: '100',
         ZIDENTITY_HTTP_TIMEOUT: '9999',
+        ZIDENTITY_DISCOVERY_CACHE_MAX_AGE: '30',
         ZIDENTITY_SESSION_ROLLING_DURATION: '0',
         ZIDENTITY_SESSION_ABSOLUTE_DURATION: '1'
       }).baseConfig
     ).toMatchObject({
       clockTolerance: 100,
       httpTimeout: 9999,
+      discoveryCacheMaxAge: 30,
       session: {
         rolling: true,
         rollingDuration: 0,
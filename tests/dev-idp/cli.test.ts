@@ -0,0 +1,49 @@
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseArgs, writeEnvFile } from '../../src/dev-idp/cli';
+
+describe('zidentity-dev-idp', () => {
+  describe('parseArgs', () => {
+    test('should parse the options', () => {
+      expect(
+        parseArgs(['--config', 'dev-idp.json', '--port=4001', '--base-url', 'http://localhost:3001', '--env-file=.env'])
+      ).toEqual({ config: 'dev-idp.json', port: 4001, baseURL: 'http://localhost:3001', envFile: '.env' });
+    });
+
+    test('should parse help', () => {
+      expect(parseArgs(['-h'])).toEqual({ help: true });
+    });
+
+    test('should not accept unknown options', () => {
+      expect(() => parseArgs(['--foo'])).toThrow('Unknown option "--foo"');
+    });
+
+    test('should require a value', () => {
+      expect(() => parseArgs(['--port'])).toThrow('"--port" needs a value');
+    });
+  });
+
+  describe('writeEnvFile', () => {
+    const file = (): string => join(mkdtempSync(join(tmpdir(), 'dev-idp-')), '.env.local');
+
+    test('should write the variables', () => {
+      const envFile = file();
+
+      writeEnvFile(envFile, { ZIDENTITY_CLIENT_ID: 'foo', ZIDENTITY_CLIENT_SECRET: 'bar' });
+
+      expect(readFileSync(envFile, 'utf8')).toEqual('ZIDENTITY_CLIENT_ID=foo\nZIDENTITY_CLIENT_SECRET=bar\n');
+    });
+
+    test('should replace the variables and keep the rest of the file', () => {
+      const envFile = file();
+      writeFileSync(envFile, '# app\nAPI_URL=http://localhost:4000/api\nZIDENTITY_CLIENT_ID=old\n\n');
+
+      writeEnvFile(envFile, { ZIDENTITY_CLIENT_ID: 'foo' });
+
+      expect(readFileSync(envFile, 'utf8')).toEqual(
+        '# app\nAPI_URL=http://localhost:4000/api\nZIDENTITY_CLIENT_ID=foo\n'
+      );
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { parse } from 'querystring';
+import { CookieJar } from 'tough-cookie';
+import { NextApiRequest, NextApiResponse } from 'next';
+import { initZeusIdentity } from '../../src';
+import { DevIdp, DevIdpOptions, startDevIdp } from '../../src/dev-idp';
+import { authorize, close, getFormPost, listen, request } from '../fixtures/oidc-flows';
+
+const users = [
+  { sub: 'alice', email: 'alice@example.com', name: 'Alice', roles: ['admin'], organization: 'org_1' },
+  { sub: 'bob', email: 'bob@example.com', plan: 'free' }
+];
+
+describe('startDevIdp', () => {
+  let appServer: Server;
+  let appUrl: string;
+  let idp: DevIdp | undefined;
+  const env = process.env;
+
+  beforeEach(async () => {
+    appServer = createServer();
+    appUrl = await listen(appServer, 'localhost');
+  });
+
+  afterEach(async () => {
+    process.env = env;
+    await close(appServer);
+    await idp?.close();
+    idp = undefined;
+  });
+
+  const start = async (options: DevIdpOptions = {}): Promise<DevIdp> => {
+    idp = await startDevIdp({ port: 0, host: '127.0.0.1', baseURL: appUrl, ...options });
+    // Configure the app with nothing but the generated environment variables.
+    process.env = { ...env, ...idp.env };
+    const { handleLogin, handleCallback, getSession } = initZeusIdentity();
+    appServer.on('request', async (req: IncomingMessage, res: ServerResponse) => {
+      const [pathname, search = ''] = (req.url as string).split('?');
+      const apiReq = Object.assign(req, { query: parse(search) }) as NextApiRequest;
+      const apiRes = res as NextApiResponse;
+      try {
+        switch (pathname) {
+          case '/api/auth/login':
+            return await handleLogin(apiReq, apiRes);
+          case '/api/auth/callback':
+            return await handleCallback(apiReq, apiRes);
+          case '/api/session':
+            res.setHeader('content-type', 'application/json');
+            return res.end(JSON.stringify((await getSession(apiReq, apiRes)) || null));
+          default:
+            res.writeHead(404);
+            res.end();
+        }
+      } catch (e: any) {
+        res.writeHead(e.status || 500);
+        res.end(e.message);
+      }
+    });
+    return idp;
+  };
+
+  const login = async (user: string): Promise<any> => {
+    const cookieJar = new CookieJar();
+    const res = await request(`${appUrl}/api/auth/login`, cookieJar);
+    const authorized = await authorize(res.location as string, cookieJar, appUrl, user);
+    if (authorized.location) {
+      expect((await request(authorized.location, cookieJar)).status).toEqual(302);
+    } else {
+      const { action, body } = getFormPost(authorized);
+      expect((await request(action, cookieJar, { method: 'POST', body })).status).toEqual(302);
+    }
+    return JSON.parse((await request(`${appUrl}/api/session`, cookieJar)).body);
+  };
+
+  test('should generate the environment variables for the app', async () => {
+    const { issuer, env: idpEnv } = await start({ clientID: '__test_client_id__' });
+
+    expect(issuer).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+    expect(idpEnv).toEqual({
+      ZIDENTITY_SECRET: expect.stringMatching(/^[0-9a-f]{64}$/),
+      ZIDENTITY_ISSUER_BASE_URL: issuer,
+      ZIDENTITY_BASE_URL: appUrl,
+      ZIDENTITY_CLIENT_ID: '__test_client_id__',
+      ZIDENTITY_CLIENT_SECRET: 'zidentity-dev-secret',
+      ZIDENTITY_CALLBACK: '/api/auth/callback',
+      ZIDENTITY_ROLES_CLAIM: 'roles'
+    });
+  });
+
+  test('should log in the default user', async () => {
+    await start();
+
+    const session = await login('dev-user');
+
+    expect(session.user).toMatchObject({ sub: 'dev-user', email: 'dev@example.com', name: 'Dev User' });
+  });
+
+  test('should log in a seeded user with their roles, organization and claims', async () => {
+    await start({
+      users,
+      organizations: [{ id: 'org_1', name: 'Acme' }],
+      claims: { tenant: 'dev' },
+      rolesClaim: 'https://example.com/roles'
+    });
+
+    const session = await login('alice');
+
+    expect(session.user).toMatchObject({
+      sub: 'alice',
+      email: 'alice@example.com',
+      name: 'Alice',
+      tenant: 'dev',
+      'https://example.com/roles': ['admin'],
+      org_id: 'org_1',
+      org_name: 'Acme'
+    });
+  });
+
+  test('should log in a seeded user by email', async () => {
+    await start({ users, organizations: [{ id: 'org_1' }] });
+
+    const session = await login('bob@example.com');
+
+    expect(session.user).toMatchObject({ sub: 'bob', plan: 'free' });
+    expect(session.user.roles).toBeUndefined();
+  });
+
+  test('should validate the options', async () => {
+    await expect(startDevIdp({ users: [{ sub: 'alice', organization: 'org_2' }] })).rejects.toThrow(
+      '"users[0].organization" must be the id of one of the "organizations"'
+    );
+    await expect(startDevIdp({ users: [] })).rejects.toThrow('"users" must contain at least 1 items');
+  });
+
+  test('should close the server when the provider can not be created', async () => {
+    const closeServer = jest.spyOn(Server.prototype, 'close');
+    jest.doMock('oidc-provider', () => ({
+      Provider: jest.fn(() => {
+        throw new Error('invalid configuration');
+      })
+    }));
+    try {
+      await expect(startDevIdp({ port: 0, host: '127.0.0.1', baseURL: appUrl })).rejects.toThrow(
+        'invalid configuration'
+      );
+      expect(closeServer).toHaveBeenCalledTimes(1);
+    } finally {
+      jest.dontMock('oidc-provider');
+      closeServer.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,45 @@
+import '../fixtures/edge';
+import { JWE, JWK } from 'jose';
+import { decrypt, verifySignedCookie } from '../../src/edge/crypto';
+import { encryption, signing } from '../../src/zsession/utils/hkdf';
+import { generateCookieValue } from '../../src/zsession/transient-store';
+
+const encrypted = (payload: string, secret: string, headers = { iat: 1, uat: 2, exp: 3 }): string =>
+  JWE.encrypt(payload, JWK.asKey(encryption(secret)), { alg: 'dir', enc: 'A256GCM', ...headers });
+
+describe('edge crypto', () => {
+  test('should decrypt a session cookie encrypted with jose', async () => {
+    await expect(decrypt(encrypted('{"foo":"bar"}', '__test_secret__'), ['__test_secret__'])).resolves.toEqual({
+      header: { alg: 'dir', enc: 'A256GCM', iat: 1, uat: 2, exp: 3 },
+      cleartext: '{"foo":"bar"}'
+    });
+  });
+
+  test('should decrypt a session cookie encrypted with a rotated secret', async () => {
+    await expect(
+      decrypt(encrypted('{"foo":"bar"}', '__old_secret__'), ['__new_secret__', '__old_secret__'])
+    ).resolves.toMatchObject({ cleartext: '{"foo":"bar"}' });
+  });
+
+  test('should not decrypt a session cookie with the wrong secret', async () => {
+    await expect(decrypt(encrypted('{"foo":"bar"}', '__test_secret__'), ['__other_secret__'])).resolves.toBeUndefined();
+  });
+
+  test('should not decrypt malformed values', async () => {
+    await expect(decrypt('foo', ['__test_secret__'])).resolves.toBeUndefined();
+    await expect(decrypt('foo.bar.baz.qux.quux', ['__test_secret__'])).resolves.toBeUndefined();
+    await expect(decrypt('e30.bar.baz.qux.quux', ['__test_secret__'])).resolves.toBeUndefined();
+  });
+
+  test('should verify a cookie signed with jose', async () => {
+    const value = generateCookieValue('appSession', 'foo', JWK.asKey(signing('__test_secret__')));
+    await expect(verifySignedCookie('appSession', value, ['__test_secret__'])).resolves.toEqual('foo');
+  });
+
+  test('should not verify a cookie with an invalid signature', async () => {
+    const value = generateCookieValue('appSession', 'foo', JWK.asKey(signing('__test_secret__')));
+    await expect(verifySignedCookie('appSession', value, ['__other_secret__'])).resolves.toBeUndefined();
+    await expect(verifySignedCookie('otherCookie', value, ['__test_secret__'])).resolves.toBeUndefined();
+    await expect(verifySignedCookie('appSession', 'foo', ['__test_secret__'])).resolves.toBeUndefined();
+  });
+});
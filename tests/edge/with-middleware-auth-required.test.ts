@@ -0,0 +1,137 @@
+import '../fixtures/edge';
+import { JWE, JWK } from 'jose';
+import { NextFetchEvent, NextRequest, NextResponse } from 'next/server';
+import { initZeusIdentity } from '../../src/edge';
+import { encryption, signing } from '../../src/zsession/utils/hkdf';
+import { generateCookieValue } from '../../src/zsession/transient-store';
+
+const secret = '__test_session_secret__';
+const epoch = (): number => (Date.now() / 1000) | 0;
+
+const sessionCookie = (session: any = { user: { sub: '__test_sub__' } }, now = epoch()): string =>
+  JWE.encrypt(JSON.stringify(session), JWK.asKey(encryption(secret)), {
+    alg: 'dir',
+    enc: 'A256GCM',
+    iat: now,
+    uat: now,
+    exp: now + 60
+  });
+
+const request = (path: string, cookie?: string): NextRequest =>
+  new NextRequest(`http://example.com${path}`, cookie ? { headers: { cookie } } : undefined);
+
+const event = {} as NextFetchEvent;
+
+describe('withMiddlewareAuthRequired', () => {
+  test('should redirect anonymous users to login', async () => {
+    const { withMiddlewareAuthRequired } = initZeusIdentity({ secret });
+    const res = (await withMiddlewareAuthRequired()(request('/protected?foo=bar'), event)) as NextResponse;
+    expect(res.status).toEqual(307);
+    expect(res.headers.get('location')).toEqual('http://example.com/api/auth/login?returnTo=%2Fprotected%3Ffoo%3Dbar');
+  });
+
+  test('should redirect to a custom login route', async () => {
+    const { withMiddlewareAuthRequired } = initZeusIdentity({ secret, routes: { login: '/custom-login' } });
+    const res = (await withMiddlewareAuthRequired()(request('/protected'), event)) as NextResponse;
+    expect(res.headers.get('location')).toEqual('http://example.com/custom-login?returnTo=%2Fprotected');
+  });
+
+  test('should return a 401 for anonymous API requests', async () => {
+    const { withMiddlewareAuthRequired } = initZeusIdentity({ secret });
+    const res = (await withMiddlewareAuthRequired()(request('/api/shows'), event)) as NextResponse;
+    expect(res.status).toEqual(401);
+    await expect(res.json()).resolves.toMatchObject({ error: 'not_authenticated' });
+  });
+
+  test('should allow users with a valid session', async () => {
+    const { withMiddlewareAuthRequired } = initZeusIdentity({ secret });
+    const res = (await withMiddlewareAuthRequired()(
+      request('/protected', `appSession=${sessionCookie()}`),
+      event
+    )) as NextResponse;
+    expect(res.headers.get('x-middleware-next')).toEqual('1');
+  });
+
+  test('should allow users with a chunked session', async () => {
+    const { withMiddlewareAuthRequired } = initZeusIdentity({ secret });
+    const value = sessionCookie();
+    const cookie = `appSession.1=${value.slice(10)}; appSession.0=${value.slice(0, 10)}`;
+    const res = (await withMiddlewareAuthRequired()(request('/protected', cookie), event)) as NextResponse;
+    expect(res.headers.get('x-middleware-next')).toEqual('1');
+  });
+
+  test('should allow users with a signed session id from a session store', async () => {
+    const { withMiddlewareAuthRequired } = initZeusIdentity({ secret });
+    const cookie = `appSession=${generateCookieValue('appSession', 'foo', JWK.asKey(signing(secret)))}`;
+    const res = (await withMiddlewareAuthRequired()(request('/protected', cookie), event)) as NextResponse;
+    expect(res.headers.get('x-middleware-next')).toEqual('1');
+  });
+
+  test('should reject invalid and expired sessions', async () => {
+    const { withMiddlewareAuthRequired } = initZeusIdentity({ secret });
+    const middleware = withMiddlewareAuthRequired();
+    for (const cookie of [
+      'appSession=foo',
+      'appSession=foo.bar',
+      `appSession=${sessionCookie(undefined, epoch() - 2 * 24 * 60 * 60)}`
+    ]) {
+      const res = (await middleware(request('/protected', cookie), event)) as NextResponse;
+      expect(res.status).toEqual(307);
+    }
+  });
+
+  test('should only protect the configured path prefixes', async () => {
+    const { withMiddlewareAuthRequired } = initZeusIdentity({ secret });
+    const middleware = withMiddlewareAuthRequired({ paths: ['/admin', '/account/'] });
+    expect(((await middleware(request('/admin'), event)) as NextResponse).status).toEqual(307);
+    expect(((await middleware(request('/admin/users'), event)) as NextResponse).status).toEqual(307);
+    expect(((await middleware(request('/account/billing'), event)) as NextResponse).status).toEqual(307);
+    expect(((await middleware(request('/administrators'), event)) as NextResponse).status).toEqual(200);
+    expect(((await middleware(request('/'), event)) as NextResponse).status).toEqual(200);
+  });
+
+  test('should not protect the auth routes', async () => {
+    const { withMiddlewareAuthRequired } = initZeusIdentity({ secret });
+    const middleware = withMiddlewareAuthRequired();
+    expect(((await middleware(request('/api/auth/login'), event)) as NextResponse).status).toEqual(200);
+    expect(((await middleware(request('/api/auth/callback'), event)) as NextResponse).status).toEqual(200);
+  });
+
+  test('should call a custom middleware for authenticated users', async () => {
+    const { withMiddlewareAuthRequired } = initZeusIdentity({ secret });
+    const custom = jest.fn().mockReturnValue(NextResponse.rewrite(new URL('http://example.com/foo')));
+    const req = request('/protected', `appSession=${sessionCookie()}`);
+    await withMiddlewareAuthRequired(custom)(req, event);
+    expect(custom).toHaveBeenCalledWith(req, event);
+  });
+
+  test('should get the session in middleware', async () => {
+    const { getSession } = initZeusIdentity({ secret });
+    const session = await getSession(request('/', `appSession=${sessionCookie({ user: { sub: 'foo' } })}`));
+    expect(session?.user).toEqual({ sub: 'foo' });
+    await expect(getSession(request('/'))).resolves.toBeNull();
+  });
+
+  test('should read the config from the environment', async () => {
+    process.env.ZIDENTITY_SECRET = secret;
+    process.env.ZIDENTITY_SESSION_NAME = 'customSession';
+    process.env.ZIDENTITY_SESSION_ROLLING = 'false';
+    process.env.ZIDENTITY_SESSION_ABSOLUTE_DURATION = '60';
+    try {
+      const { getSession } = initZeusIdentity();
+      await expect(getSession(request('/', `customSession=${sessionCookie()}`))).resolves.toBeTruthy();
+      await expect(
+        getSession(request('/', `customSession=${sessionCookie(undefined, epoch() - 61)}`))
+      ).resolves.toBeNull();
+    } finally {
+      delete process.env.ZIDENTITY_SECRET;
+      delete process.env.ZIDENTITY_SESSION_NAME;
+      delete process.env.ZIDENTITY_SESSION_ROLLING;
+      delete process.env.ZIDENTITY_SESSION_ABSOLUTE_DURATION;
+    }
+  });
+
+  test('should require a secret', () => {
+    expect(() => initZeusIdentity()).toThrow('"secret" is required');
+  });
+});
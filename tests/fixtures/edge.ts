@@ -0,0 +1,12 @@
+// Add the Edge Runtime globals that Next.js Middleware relies on to the jest node environment.
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const { addPrimitives } = require('next/dist/compiled/@edge-runtime/primitives');
+
+const primitives: { [key: string]: any } = {};
+addPrimitives(primitives);
+
+for (const name of ['atob', 'btoa', 'crypto', 'Headers', 'Request', 'Response', 'TextEncoder', 'TextDecoder']) {
+  if (!(name in global)) {
+    (global as any)[name] = primitives[name];
+  }
+}
@@ -22,10 +22,22 @@ export const withUserProvider = ({
     user,
     profileUrl,
     loginUrl,
-    fetcher
+    fetcher,
+    syncTabs,
+    refetchOnWindowFocus,
+    refetchInterval
 }: UserProviderProps = {}): React.ComponentType => {
     return (props: any): React.ReactElement => (
-        <UserProvider {...props} user={user} profileUrl={profileUrl} loginUrl={loginUrl} fetcher={fetcher} />
+        <UserProvider
+            {...props}
+            user={user}
+            profileUrl={profileUrl}
+            loginUrl={loginUrl}
+            fetcher={fetcher}
+            syncTabs={syncTabs}
+            refetchOnWindowFocus={refetchOnWindowFocus}
+            refetchInterval={refetchInterval}
+        />
     );
 };
 
@@ -44,6 +56,8 @@ export const fetchUserUnsuccessfulMock = (): Promise<FetchUserMock> => {
 
 export const fetchUserErrorMock = (): Promise<FetchUserMock> => Promise.reject(new Error('Error'));
 
-export const withConfigProvider = ({ loginUrl }: ConfigProviderProps = {}): React.ComponentType => {
-    return (props: any): React.ReactElement => <ConfigProvider {...props} loginUrl={loginUrl} />;
+export const withConfigProvider = ({ loginUrl, signupUrl, logoutUrl }: ConfigProviderProps = {}): React.ComponentType => {
+    return (props: any): React.ReactElement => (
+        <ConfigProvider {...props} loginUrl={loginUrl} signupUrl={signupUrl} logoutUrl={logoutUrl} />
+    );
 };
\ No newline at end of file
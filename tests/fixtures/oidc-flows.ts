@@ -0,0 +1,74 @@
+import { request as nodeRequest, Server } from 'http';
+import { AddressInfo } from 'net';
+import { stringify } from 'querystring';
+import { CookieJar } from 'tough-cookie';
+
+export type Response = { status: number; location?: string; body: string; url: string };
+
+export const listen = async (server: Server, host: string): Promise<string> => {
+  await new Promise((resolve) => server.listen(0, host, () => resolve(undefined)));
+  return `http://${host}:${(server.address() as AddressInfo).port}`;
+};
+
+export const close = (server: Server): Promise<void> => new Promise((resolve) => server.close(() => resolve()));
+
+export const request = (
+  url: string,
+  cookieJar: CookieJar,
+  { method = 'GET', body }: { method?: string; body?: { [key: string]: string } } = {}
+): Promise<Response> =>
+  new Promise((resolve, reject) => {
+    const req = nodeRequest(url, { method }, (res) => {
+      (res.headers['set-cookie'] || []).forEach((cookie) => cookieJar.setCookieSync(cookie, url));
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk) => chunks.push(chunk));
+      res.on('end', () =>
+        resolve({
+          status: res.statusCode as number,
+          location: res.headers.location && new URL(res.headers.location, url).toString(),
+          body: Buffer.concat(chunks).toString(),
+          url
+        })
+      );
+    });
+    req.setHeader('cookie', cookieJar.getCookieStringSync(url));
+    req.on('error', reject);
+    if (body) {
+      req.setHeader('content-type', 'application/x-www-form-urlencoded');
+      req.write(stringify(body));
+    }
+    req.end();
+  });
+
+// Sign in to the identity provider's dev interactions, and give consent, until it sends the browser back to the app.
+export const authorize = async (
+  url: string,
+  cookieJar: CookieJar,
+  appUrl: string,
+  login = '__test_sub__'
+): Promise<Response> => {
+  let res = await request(url, cookieJar);
+  while (!(res.location || res.url).startsWith(appUrl)) {
+    if (res.location) {
+      res = await request(res.location, cookieJar);
+    } else if (res.url.includes('/interaction/')) {
+      const [, prompt] = /name="prompt" value="(\w+)"/.exec(res.body) as string[];
+      res = await request(res.url, cookieJar, { method: 'POST', body: { prompt, login } });
+    } else {
+      // The `form_post` page that auto submits the response to the app's callback.
+      return res;
+    }
+  }
+  return res;
+};
+
+export const getFormPost = (res: Response): { action: string; body: { [key: string]: string } } => {
+  const [, action] = /<form method="post" action="([^"]+)"/.exec(res.body) as string[];
+  const body: { [key: string]: string } = {};
+  const input = /<input type="hidden" name="(\w+)" value="([^"]*)"\s*\/?>/g;
+  let match;
+  while ((match = input.exec(res.body))) {
+    body[match[1]] = match[2];
+  }
+  return { action, body };
+};
@@ -0,0 +1,57 @@
+/**
+ * @jest-environment jsdom
+ */
+import '@testing-library/jest-dom/extend-expect';
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+
+import { withConfigProvider } from '../fixtures/frontend';
+import { LoginLink, LogoutLink } from '../../src/frontend';
+
+describe('auth links', () => {
+    it('should link to the login route', () => {
+        render(<LoginLink>Login</LoginLink>, { wrapper: withConfigProvider() });
+
+        expect(screen.getByText('Login')).toHaveAttribute('href', '/api/auth/login');
+    });
+
+    it('should link to the signup route', () => {
+        render(<LoginLink signup>Signup</LoginLink>, { wrapper: withConfigProvider({ signupUrl: '/signup' }) });
+
+        expect(screen.getByText('Signup')).toHaveAttribute('href', '/signup');
+    });
+
+    it('should encode the returnTo and authorization params', () => {
+        render(
+            <LoginLink returnTo="/foo?bar=baz" authorizationParams={{ ui_locales: 'fr ca' }}>
+                Login
+            </LoginLink>,
+            { wrapper: withConfigProvider() }
+        );
+
+        expect(screen.getByText('Login')).toHaveAttribute(
+            'href',
+            '/api/auth/login?ui_locales=fr%20ca&returnTo=%2Ffoo%3Fbar%3Dbaz'
+        );
+    });
+
+    it('should link to the logout route', () => {
+        render(<LogoutLink returnTo="/goodbye">Logout</LogoutLink>, {
+            wrapper: withConfigProvider({ logoutUrl: '/logout' })
+        });
+
+        expect(screen.getByText('Logout')).toHaveAttribute('href', '/logout?returnTo=%2Fgoodbye');
+    });
+
+    it('should pass other props to the link', () => {
+        render(
+            <LogoutLink className="nav-link" aria-label="Log out">
+                Logout
+            </LogoutLink>,
+            { wrapper: withConfigProvider() }
+        );
+
+        expect(screen.getByText('Logout')).toHaveClass('nav-link');
+        expect(screen.getByText('Logout')).toHaveAttribute('aria-label', 'Log out');
+    });
+});
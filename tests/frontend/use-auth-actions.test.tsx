@@ -0,0 +1,99 @@
+/**
+ * @jest-environment jsdom
+ */
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+
+import { withConfigProvider } from '../fixtures/frontend';
+import { useAuthActions, LoginActionOptions, LogoutActionOptions } from '../../src/frontend';
+
+const windowLocation = window.location;
+
+const Actions = ({
+    loginOptions,
+    logoutOptions
+}: {
+    loginOptions?: LoginActionOptions;
+    logoutOptions?: LogoutActionOptions;
+}): JSX.Element => {
+    const { login, signup, logout } = useAuthActions();
+    return (
+        <>
+            <button onClick={(): void => login(loginOptions)}>Login</button>
+            <button onClick={(): void => signup(loginOptions)}>Signup</button>
+            <button onClick={(): void => logout(logoutOptions)}>Logout</button>
+        </>
+    );
+};
+
+describe('use-auth-actions', () => {
+    beforeAll(() => {
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore window.location is non-optional
+        delete window.location;
+        window.location = { ...windowLocation, assign: jest.fn() };
+    });
+    afterEach(() => (window.location.assign as jest.Mock).mockClear());
+    afterAll(() => (window.location = windowLocation));
+
+    it('should send the user to the default routes', () => {
+        render(<Actions />, { wrapper: withConfigProvider() });
+
+        fireEvent.click(screen.getByText('Login'));
+        fireEvent.click(screen.getByText('Signup'));
+        fireEvent.click(screen.getByText('Logout'));
+
+        expect((window.location.assign as jest.Mock).mock.calls).toEqual([
+            ['/api/auth/login'],
+            ['/api/auth/signup'],
+            ['/api/auth/logout']
+        ]);
+    });
+
+    it('should use the configured routes', () => {
+        render(<Actions />, {
+            wrapper: withConfigProvider({ loginUrl: '/login', signupUrl: '/signup', logoutUrl: '/logout' })
+        });
+
+        fireEvent.click(screen.getByText('Login'));
+        fireEvent.click(screen.getByText('Signup'));
+        fireEvent.click(screen.getByText('Logout'));
+
+        expect((window.location.assign as jest.Mock).mock.calls).toEqual([['/login'], ['/signup'], ['/logout']]);
+    });
+
+    it('should encode the returnTo and authorization params', () => {
+        render(
+            <Actions
+                loginOptions={{
+                    returnTo: '/foo?bar=baz&qux=quux',
+                    authorizationParams: { login_hint: 'jane+1@example.com', max_age: 300, prompt: undefined }
+                }}
+                logoutOptions={{ returnTo: '/goodbye?a=b' }}
+            />,
+            { wrapper: withConfigProvider() }
+        );
+
+        fireEvent.click(screen.getByText('Login'));
+        fireEvent.click(screen.getByText('Logout'));
+
+        const [[loginUrl], [logoutUrl]] = (window.location.assign as jest.Mock).mock.calls;
+        const { pathname, searchParams } = new URL(loginUrl, 'https://example.com');
+        expect(pathname).toEqual('/api/auth/login');
+        expect(searchParams.get('login_hint')).toEqual('jane+1@example.com');
+        expect(searchParams.get('max_age')).toEqual('300');
+        expect(searchParams.get('returnTo')).toEqual('/foo?bar=baz&qux=quux');
+        expect(searchParams.has('prompt')).toEqual(false);
+        expect(new URL(logoutUrl, 'https://example.com').searchParams.get('returnTo')).toEqual('/goodbye?a=b');
+    });
+
+    it('should add to an existing query string', () => {
+        render(<Actions loginOptions={{ returnTo: '/foo' }} />, {
+            wrapper: withConfigProvider({ loginUrl: '/login?org=acme' })
+        });
+
+        fireEvent.click(screen.getByText('Login'));
+
+        expect(window.location.assign).toHaveBeenCalledWith('/login?org=acme&returnTo=%2Ffoo');
+    });
+});
@@ -0,0 +1,66 @@
+/**
+ * @jest-environment jsdom
+ */
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+
+import { withUserProvider, user } from '../fixtures/frontend';
+import { useAuthenticatedFetch } from '../../src/frontend';
+
+const Shows = ({ api = 'shows', path = '/v1/list' }: { api?: string; path?: string }): JSX.Element => {
+    const fetchShows = useAuthenticatedFetch(api);
+    const [status, setStatus] = React.useState<number>();
+    return (
+        <button onClick={(): Promise<void> => fetchShows(path, { method: 'GET' }).then((res) => setStatus(res.status))}>
+            {status || 'Fetch'}
+        </button>
+    );
+};
+
+describe('use-authenticated-fetch', () => {
+    afterEach(() => delete (global as any).fetch);
+
+    it('should call the api through the proxy route', async () => {
+        const fetchSpy = jest.fn().mockResolvedValue({ status: 200 });
+        (global as any).fetch = fetchSpy;
+        render(<Shows />, { wrapper: withUserProvider({ user }) });
+
+        fireEvent.click(screen.getByText('Fetch'));
+
+        await waitFor(() => screen.getByText('200'));
+        expect(fetchSpy).toHaveBeenCalledWith('/api/auth/proxy/shows/v1/list', { method: 'GET' });
+    });
+
+    it('should use the configured proxy url', async () => {
+        const fetchSpy = jest.fn().mockResolvedValue({ status: 200 });
+        (global as any).fetch = fetchSpy;
+        const Wrapper = withUserProvider({ user });
+        render(<Shows api="my api" path="v1/list?page=2" />, {
+            wrapper: (props: any): React.ReactElement => <Wrapper {...props} proxyUrl="/proxy" />
+        });
+
+        fireEvent.click(screen.getByText('Fetch'));
+
+        await waitFor(() => screen.getByText('200'));
+        expect(fetchSpy).toHaveBeenCalledWith('/proxy/my%20api/v1/list?page=2', { method: 'GET' });
+    });
+
+    it('should check the session and retry once after a 401', async () => {
+        const fetchSpy = jest
+            .fn()
+            .mockResolvedValueOnce({ status: 401 })
+            .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(user) })
+            .mockResolvedValueOnce({ status: 401 });
+        (global as any).fetch = fetchSpy;
+        render(<Shows />, { wrapper: withUserProvider({ user }) });
+
+        fireEvent.click(screen.getByText('Fetch'));
+
+        await waitFor(() => screen.getByText('401'));
+        expect(fetchSpy.mock.calls.map(([url]) => url)).toEqual([
+            '/api/auth/proxy/shows/v1/list',
+            '/api/auth/me',
+            '/api/auth/proxy/shows/v1/list'
+        ]);
+    });
+});
@@ -1,4 +1,7 @@
-import { renderHook, act } from '@testing-library/react-hooks';
+/**
+ * @jest-environment jsdom
+ */
+import { renderHook, act } from '@testing-library/react-hooks/dom';
 
 import {
     fetchUserMock,
@@ -175,4 +178,109 @@ describe('context wrapper', () => {
         expect(customFetcher).toHaveBeenCalledWith('/api/auth/me');
         expect(result.current.user).toBe(returnValue);
     });
-});
\ No newline at end of file
+});
+
+describe('keeping the session in sync', () => {
+    afterEach(() => {
+        delete (global as any).fetch;
+        delete (global as any).BroadcastChannel;
+        window.localStorage.clear();
+    });
+
+    test('should check the session on an interval', async () => {
+        const fetchSpy = jest.fn().mockImplementation(fetchUserMock);
+        (global as any).fetch = fetchSpy;
+        const { result, waitFor } = renderHook(() => useUser(), {
+            wrapper: withUserProvider({ user, refetchInterval: 10 })
+        });
+
+        await waitFor(() => expect(fetchSpy).toHaveBeenCalledTimes(2));
+        expect(result.current.user).toEqual(user);
+    });
+
+    test('should check the session when the window gets the focus', async () => {
+        (global as any).fetch = fetchUserUnsuccessfulMock;
+        const { result, waitForValueToChange } = renderHook(() => useUser(), {
+            wrapper: withUserProvider({ user, refetchOnWindowFocus: true })
+        });
+
+        act(() => {
+            window.dispatchEvent(new Event('focus'));
+        });
+
+        await waitForValueToChange(() => result.current.user);
+        expect(result.current.user).toBeUndefined();
+    });
+
+    test('should not check the session when the window gets the focus by default', async () => {
+        const fetchSpy = jest.fn();
+        (global as any).fetch = fetchSpy;
+        renderHook(() => useUser(), { wrapper: withUserProvider({ user }) });
+
+        window.dispatchEvent(new Event('focus'));
+
+        expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    test('should tell the other tabs who is logged in with storage events', async () => {
+        renderHook(() => useUser(), { wrapper: withUserProvider({ user, syncTabs: true }) });
+
+        expect(JSON.parse(window.localStorage.getItem('zidentity-session') as string)).toMatchObject({ sub: '1' });
+    });
+
+    test('should check the session when another tab logs out with storage events', async () => {
+        (global as any).fetch = fetchUserUnsuccessfulMock;
+        const { result, waitForValueToChange } = renderHook(() => useUser(), {
+            wrapper: withUserProvider({ user, syncTabs: true })
+        });
+
+        act(() => {
+            window.dispatchEvent(
+                new StorageEvent('storage', { key: 'zidentity-session', newValue: JSON.stringify({ at: Date.now() }) })
+            );
+        });
+
+        await waitForValueToChange(() => result.current.user);
+        expect(result.current.user).toBeUndefined();
+    });
+
+    test('should ignore messages about the same user', async () => {
+        const fetchSpy = jest.fn();
+        (global as any).fetch = fetchSpy;
+        renderHook(() => useUser(), { wrapper: withUserProvider({ user, syncTabs: true }) });
+
+        window.dispatchEvent(
+            new StorageEvent('storage', { key: 'zidentity-session', newValue: JSON.stringify({ sub: '1' }) })
+        );
+
+        expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    test('should use a BroadcastChannel when there is one', async () => {
+        const channels: any[] = [];
+        (global as any).BroadcastChannel = jest.fn().mockImplementation((name) => {
+            const channel = { name, postMessage: jest.fn(), close: jest.fn(), onmessage: undefined };
+            channels.push(channel);
+            return channel;
+        });
+        (global as any).fetch = fetchUserUnsuccessfulMock;
+        const { result, waitForValueToChange, unmount } = renderHook(() => useUser(), {
+            wrapper: withUserProvider({ user, syncTabs: true })
+        });
+
+        const [channel] = channels;
+        expect(channel.name).toEqual('zidentity-session');
+        expect(channel.postMessage).toHaveBeenCalledWith({ sub: '1' });
+
+        act(() => {
+            channel.onmessage({ data: {} });
+        });
+
+        await waitForValueToChange(() => result.current.user);
+        expect(result.current.user).toBeUndefined();
+        expect(window.localStorage.getItem('zidentity-session')).toBeNull();
+
+        unmount();
+        expect(channel.close).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,136 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { Socket } from 'net';
+import { NextApiRequest, NextApiResponse } from 'next';
+import { BadRequest } from 'http-errors';
+import { handlerFactory } from '../../src/handlers';
+import { HandlerError } from '../../src/utils/errors';
+
+const setup = (
+  headers: { [key: string]: string } = {},
+  routes: { [key: string]: string } = {}
+): {
+  req: NextApiRequest;
+  res: NextApiResponse;
+  handleAuth: ReturnType<typeof handlerFactory>;
+  handleCallback: jest.Mock;
+} => {
+  const req = new IncomingMessage(new Socket()) as NextApiRequest;
+  req.headers = headers;
+  req.query = { zidentity: 'callback' };
+  const res = new ServerResponse(req) as NextApiResponse;
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn();
+  jest.spyOn(res, 'end');
+  jest.spyOn(res, 'writeHead');
+  const error = new BadRequest('access_denied (Denied)');
+  error.code = 'access_denied';
+  const handleCallback = jest.fn().mockRejectedValue(new HandlerError(error));
+  const handleAuth = handlerFactory({
+    handleCallback,
+    handleProfile: handleCallback,
+    handleProxy: handleCallback,
+    handleBackchannelLogout: handleCallback,
+    nextConfig: { routes }
+  } as any);
+  return { req, res, handleAuth, handleCallback };
+};
+
+describe('auth handler errors', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should respond with the error message by default', async () => {
+    const { req, res, handleAuth } = setup();
+
+    await handleAuth()(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.end).toHaveBeenCalledWith('access_denied (Denied)');
+  });
+
+  test('should respond with json to xhr requests', async () => {
+    const { req, res, handleAuth } = setup({ 'x-requested-with': 'XMLHttpRequest' });
+
+    await handleAuth()(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({ error: 'access_denied', error_description: 'access_denied (Denied)' });
+  });
+
+  test('should respond with json when json is accepted', async () => {
+    const { req, res, handleAuth, handleCallback } = setup({ accept: 'application/json' });
+    handleCallback.mockRejectedValue(new HandlerError(new Error('boom')));
+
+    await handleAuth()(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(res.json).toHaveBeenCalledWith({ error: 'server_error', error_description: 'boom' });
+  });
+
+  test('should redirect to the error page', async () => {
+    const { req, res, handleAuth } = setup({ accept: 'text/html,application/json' }, { error: '/auth-error' });
+
+    await handleAuth()(req, res);
+
+    expect(res.writeHead).toHaveBeenCalledWith(302, {
+      Location: '/auth-error?error=access_denied&error_description=access_denied%20(Denied)'
+    });
+    expect(res.json).not.toHaveBeenCalled();
+  });
+
+  test.each(['me', 'proxy', 'backchannel-logout'])(
+    'should respond with json to the %s route even when there is an error page',
+    async (route) => {
+      const { req, res, handleAuth } = setup({ accept: 'text/html' }, { error: '/auth-error' });
+      req.query = { zidentity: route };
+
+      await handleAuth()(req, res);
+
+      expect(res.writeHead).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'access_denied', error_description: 'access_denied (Denied)' });
+    }
+  );
+
+  test('should use a custom error handler', async () => {
+    const { req, res, handleAuth } = setup();
+    const onError = jest.fn();
+
+    await handleAuth({ onError })(req, res);
+
+    expect(onError).toHaveBeenCalledWith(req, res, expect.objectContaining({ code: 'access_denied', status: 400 }));
+    expect(res.end).not.toHaveBeenCalled();
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  test('should not escape the message of a handler error again', async () => {
+    const { req, res, handleAuth, handleCallback } = setup();
+    const error = new HandlerError(new Error('a & b'));
+    handleCallback.mockRejectedValue(error);
+    const onError = jest.fn();
+
+    await handleAuth({ onError })(req, res);
+
+    expect(onError).toHaveBeenCalledWith(req, res, error);
+    expect(error.message).toEqual('a &amp; b');
+  });
+});
+
+describe('auth handler proxy route', () => {
+  test('should route to the proxy handler', async () => {
+    const handleProxy = jest.fn();
+    const handleAuth = handlerFactory({ handleProxy, nextConfig: { routes: {} } } as any);
+    const req = new IncomingMessage(new Socket()) as NextApiRequest;
+    req.query = { zidentity: ['proxy', 'shows', 'v1', 'list'] };
+    const res = new ServerResponse(req) as NextApiResponse;
+
+    await handleAuth()(req, res);
+
+    expect(handleProxy).toHaveBeenCalledWith(req, res);
+  });
+});
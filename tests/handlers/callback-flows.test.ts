@@ -0,0 +1,149 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { parse } from 'querystring';
+import { CookieJar } from 'tough-cookie';
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ConfigParameters, initZeusIdentity } from '../../src';
+import { toSignedCookieJar } from '../zsession/fixtures/helpers';
+import { authorize, close, getFormPost, listen, request, Response } from '../fixtures/oidc-flows';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const createProvider = require('../../scripts/oidc-provider');
+
+describe('callback flows against the oidc-provider stand-in', () => {
+  let opServer: Server;
+  let appServer: Server;
+  let issuer: string;
+  let appUrl: string;
+
+  const setup = async (authorizationParams: ConfigParameters['authorizationParams']): Promise<void> => {
+    const { handleLogin, handleCallback, getSession } = initZeusIdentity({
+      issuerBaseURL: issuer,
+      baseURL: appUrl,
+      clientID: 'testing',
+      clientSecret: 'testing',
+      clientAuthMethod: 'client_secret_post',
+      secret: '__test_session_secret__',
+      authorizationParams: { scope: 'openid', ...authorizationParams },
+      routes: { callback: '/api/auth/callback' }
+    });
+    // Like a Next API Route with the body parser turned off.
+    appServer.on('request', async (req: IncomingMessage, res: ServerResponse) => {
+      const [pathname, search = ''] = (req.url as string).split('?');
+      const apiReq = Object.assign(req, { query: parse(search) }) as NextApiRequest;
+      const apiRes = res as NextApiResponse;
+      try {
+        switch (pathname) {
+          case '/api/auth/login':
+            return await handleLogin(apiReq, apiRes);
+          case '/api/auth/callback':
+            return await handleCallback(apiReq, apiRes);
+          case '/api/session':
+            res.setHeader('content-type', 'application/json');
+            return res.end(JSON.stringify((await getSession(apiReq, apiRes)) || null));
+          default:
+            res.writeHead(404);
+            res.end();
+        }
+      } catch (e: any) {
+        res.writeHead(e.status || 500);
+        res.end(e.message);
+      }
+    });
+  };
+
+  beforeEach(async () => {
+    opServer = createServer();
+    appServer = createServer();
+    issuer = `${await listen(opServer, '127.0.0.1')}/oidc/`;
+    appUrl = await listen(appServer, 'localhost');
+    const provider = createProvider({
+      port: new URL(issuer).port,
+      redirectUris: [`${appUrl}/api/auth/callback`]
+    });
+    const callback = provider.callback();
+    opServer.on('request', (req: IncomingMessage & { originalUrl?: string }, res: ServerResponse) => {
+      // Mount the provider on /oidc, like the kitchen sink example does with express.
+      req.originalUrl = req.url;
+      req.url = (req.url as string).replace(/^\/oidc/, '');
+      callback(req, res);
+    });
+  });
+
+  afterEach(async () => {
+    await close(appServer);
+    await close(opServer);
+  });
+
+  const login = async (cookieJar: CookieJar): Promise<Response> => {
+    const res = await request(`${appUrl}/api/auth/login`, cookieJar);
+    expect(res.status).toEqual(302);
+    return authorize(res.location as string, cookieJar, appUrl);
+  };
+
+  test('should login with the implicit flow and form_post', async () => {
+    await setup({ response_type: 'id_token' });
+    const cookieJar = new CookieJar();
+
+    const { action, body } = getFormPost(await login(cookieJar));
+    expect(body).toEqual({ state: expect.any(String), id_token: expect.any(String) });
+    const res = await request(action, cookieJar, { method: 'POST', body });
+
+    expect(res.status).toEqual(302);
+    const session = JSON.parse((await request(`${appUrl}/api/session`, cookieJar)).body);
+    expect(session.user).toMatchObject({ sub: '__test_sub__' });
+    expect(session.accessToken).toBeUndefined();
+  });
+
+  test('should login with the hybrid flow and form_post', async () => {
+    await setup({ response_type: 'code id_token' });
+    const cookieJar = new CookieJar();
+
+    const { action, body } = getFormPost(await login(cookieJar));
+    expect(body).toEqual({ state: expect.any(String), id_token: expect.any(String), code: expect.any(String) });
+    const res = await request(action, cookieJar, { method: 'POST', body });
+
+    expect(res.status).toEqual(302);
+    const session = JSON.parse((await request(`${appUrl}/api/session`, cookieJar)).body);
+    expect(session.user).toMatchObject({ sub: '__test_sub__' });
+    expect(session.accessToken).toEqual(expect.any(String));
+  });
+
+  test('should login with the code flow and query response mode', async () => {
+    await setup({ response_type: 'code', response_mode: 'query' });
+    const cookieJar = new CookieJar();
+
+    const { location } = await login(cookieJar);
+    expect(location).toMatch(`${appUrl}/api/auth/callback?code=`);
+    const res = await request(location as string, cookieJar);
+
+    expect(res.status).toEqual(302);
+    const session = JSON.parse((await request(`${appUrl}/api/session`, cookieJar)).body);
+    expect(session.user).toMatchObject({ sub: '__test_sub__' });
+  });
+
+  test('should not accept an ID Token issued for another login', async () => {
+    await setup({ response_type: 'code id_token' });
+    const cookieJar = new CookieJar();
+
+    const { action, body } = getFormPost(await login(cookieJar));
+    const res = await request(action, toSignedCookieJar({ state: body.state, nonce: '__other_nonce__' }, appUrl), {
+      method: 'POST',
+      body
+    });
+
+    expect(res.status).toEqual(400);
+    expect(res.body).toMatch('nonce mismatch, expected __other_nonce__');
+  });
+
+  test('should not accept a code from another response', async () => {
+    await setup({ response_type: 'code id_token' });
+    const cookieJar = new CookieJar();
+    const { body: other } = getFormPost(await login(new CookieJar()));
+
+    const { action, body } = getFormPost(await login(cookieJar));
+    const res = await request(action, cookieJar, { method: 'POST', body: { ...body, code: other.code } });
+
+    expect(res.status).toEqual(400);
+    expect(res.body).toMatch('c_hash mismatch');
+  });
+});
@@ -4,6 +4,11 @@ import { decodeState } from '../../src/zsession/hooks/get-login-state';
 import { setup, teardown } from '../fixtures/setup';
 import { get, getCookie } from '../zsession/fixtures/helpers';
 import { Cookie, CookieJar } from 'tough-cookie';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Socket } from 'net';
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getConfig } from '../../src/config';
+import { handlerFactory, loginHandler } from '../../src/handlers';
 
 describe('login handler', () => {
   afterEach(teardown);
@@ -286,3 +291,57 @@ describe('login handler', () => {
     });
   });
 });
+
+describe('login handler step-up params', () => {
+  const { nextConfig } = getConfig(withoutApi);
+
+  const login = async (url: string): Promise<jest.Mock> => {
+    const baseHandler = jest.fn();
+    const req = new IncomingMessage(new Socket()) as NextApiRequest;
+    req.query = { ...urlParse(url, true).query };
+    await loginHandler(baseHandler, nextConfig)(req, new ServerResponse(req) as NextApiResponse);
+    return baseHandler;
+  };
+
+  test('should pass acr_values and max_age from the querystring to the authorization server', async () => {
+    const baseHandler = await login('/api/auth/login?returnTo=/billing&acr_values=mfa&max_age=300');
+    expect(baseHandler).toHaveBeenCalledWith(expect.anything(), expect.anything(), {
+      returnTo: '/billing',
+      authorizationParams: { acr_values: 'mfa', max_age: 300 }
+    });
+  });
+
+  test('should pass login hints from the querystring to the authorization server', async () => {
+    const baseHandler = await login('/api/auth/login?login_hint=jane%40example.com&ui_locales=fr');
+    expect(baseHandler).toHaveBeenCalledWith(expect.anything(), expect.anything(), {
+      authorizationParams: { login_hint: 'jane@example.com', ui_locales: 'fr' }
+    });
+  });
+
+  test('should ignore other authorization params in the querystring', async () => {
+    const baseHandler = await login(
+      '/api/auth/login?redirect_uri=https://evil.com&scope=openid%20admin&prompt=none&response_mode=query'
+    );
+    expect(baseHandler).toHaveBeenCalledWith(expect.anything(), expect.anything(), {});
+  });
+
+  test('should not allow an invalid max_age', async () => {
+    await expect(login('/api/auth/login?max_age=foo')).rejects.toThrow(
+      'Invalid value provided for max_age, must be a number of seconds'
+    );
+  });
+});
+
+describe('silent login route', () => {
+  test('should log in with prompt=none', async () => {
+    const handleLogin = jest.fn();
+    const handleAuth = handlerFactory({ handleLogin, nextConfig: { routes: {} } } as any);
+    const req = new IncomingMessage(new Socket()) as NextApiRequest;
+    req.query = { zidentity: 'silent-login', returnTo: '/foo' };
+    const res = new ServerResponse(req) as NextApiResponse;
+
+    await handleAuth()(req, res);
+
+    expect(handleLogin).toHaveBeenCalledWith(req, res, { authorizationParams: { prompt: 'none' } });
+  });
+});
@@ -2,7 +2,13 @@ import { parse } from 'cookie';
 import { parse as parseUrl, URL } from 'url';
 import { withoutApi } from '../fixtures/default-settings';
 import { setup, teardown, login } from '../fixtures/setup';
-import { IncomingMessage } from 'http';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Socket } from 'net';
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getConfig } from '../../src/config';
+import { logoutHandler } from '../../src/handlers';
+import { Session, SessionCache } from '../../src/session';
+import { CookieStore } from '../../src/zsession';
 
 jest.mock('../../src/utils/assert', () => ({
   assertReqRes(req: IncomingMessage) {
@@ -107,3 +113,63 @@ describe('logout handler', () => {
     expect(await res.text()).toEqual('&lt;script&gt;alert(&#39;xss&#39;)&lt;/script&gt;');
   });
 });
+
+describe('logout handler events', () => {
+  const { baseConfig } = getConfig(withoutApi);
+
+  test('should call onLogout with the session of the user', async () => {
+    const onLogout = jest.fn();
+    const sessionCache = new SessionCache(baseConfig, new CookieStore(baseConfig));
+    const req = new IncomingMessage(new Socket()) as NextApiRequest;
+    req.query = {};
+    const res = new ServerResponse(req) as NextApiResponse;
+    const session = new Session({ sub: '__test_sub__' });
+    await sessionCache.create(req, res, session);
+    const baseHandler = jest.fn(async () => sessionCache.delete(req, res));
+
+    await logoutHandler(baseHandler, sessionCache, { events: { onLogout } })(req, res);
+
+    expect(baseHandler).toHaveBeenCalled();
+    expect(onLogout).toHaveBeenCalledWith({ req, session });
+  });
+
+  test('should not call onLogout when the user is not logged in', async () => {
+    const onLogout = jest.fn();
+    const sessionCache = new SessionCache(baseConfig, new CookieStore(baseConfig));
+    const req = new IncomingMessage(new Socket()) as NextApiRequest;
+    req.query = {};
+
+    await logoutHandler(jest.fn(), sessionCache, { events: { onLogout } })(
+      req,
+      new ServerResponse(req) as NextApiResponse
+    );
+
+    expect(onLogout).not.toHaveBeenCalled();
+  });
+});
+
+describe('logout handler returnTo', () => {
+  const { baseConfig } = getConfig(withoutApi);
+
+  const logout = async (returnTo: string): Promise<jest.Mock> => {
+    const baseHandler = jest.fn();
+    const req = new IncomingMessage(new Socket()) as NextApiRequest;
+    req.query = { returnTo };
+    await logoutHandler(baseHandler, new SessionCache(baseConfig, new CookieStore(baseConfig)), { events: {} })(
+      req,
+      new ServerResponse(req) as NextApiResponse
+    );
+    return baseHandler;
+  };
+
+  test('should allow the returnTo url to be provided in the querystring', async () => {
+    const baseHandler = await logout('/goodbye');
+    expect(baseHandler).toHaveBeenCalledWith(expect.anything(), expect.anything(), { returnTo: '/goodbye' });
+  });
+
+  test('should not allow absolute urls to be provided in the querystring', async () => {
+    await expect(logout('https://www.google.com')).rejects.toThrow(
+      'Invalid value provided for returnTo, must be a relative url'
+    );
+  });
+});
@@ -0,0 +1,95 @@
+import { TokenSet } from 'openid-client';
+import { getClientCredentialsTokenFactory } from '../../src/helpers';
+import { getConfig } from '../../src/config';
+import { withoutApi } from '../fixtures/default-settings';
+import { AccessTokenError } from '../../src/utils/errors';
+
+describe('get client credentials token', () => {
+  const { nextConfig } = getConfig(withoutApi);
+  let grant: jest.Mock;
+
+  const tokenSet = (accessToken: string, expiresIn?: number): TokenSet =>
+    new TokenSet({
+      access_token: accessToken,
+      token_type: 'Bearer',
+      ...(expiresIn !== undefined && { expires_at: Math.floor(Date.now() / 1000) + expiresIn })
+    });
+
+  const factory = (config = nextConfig): ReturnType<typeof getClientCredentialsTokenFactory> =>
+    getClientCredentialsTokenFactory(config, async () => ({ grant } as any));
+
+  beforeEach(() => {
+    grant = jest.fn();
+  });
+
+  test('should get an access token with the client credentials grant', async () => {
+    grant.mockResolvedValue(tokenSet('__test_access_token__', 3600));
+    await expect(factory()({ audience: 'https://api.test.com', scope: 'read:orders' })).resolves.toEqual({
+      accessToken: '__test_access_token__',
+      expiresAt: expect.any(Number)
+    });
+    expect(grant).toHaveBeenCalledWith({
+      grant_type: 'client_credentials',
+      audience: 'https://api.test.com',
+      scope: 'read:orders'
+    });
+  });
+
+  test('should fail when the authorization server does not return an access token', async () => {
+    grant.mockResolvedValue(new TokenSet({ token_type: 'Bearer' }));
+    const result = factory()();
+    await expect(result).rejects.toThrow(AccessTokenError);
+    await expect(result).rejects.toMatchObject({ code: 'missing_access_token' });
+  });
+
+  test('should cache access tokens per audience and scope', async () => {
+    grant.mockImplementation(async ({ audience }) => tokenSet(`${audience}_access_token`, 3600));
+    const getClientCredentialsToken = factory();
+
+    await getClientCredentialsToken({ audience: 'a', scope: 'read write' });
+    await getClientCredentialsToken({ audience: 'a', scope: 'write read' });
+    await getClientCredentialsToken({ audience: 'b' });
+    const { accessToken } = await getClientCredentialsToken({ audience: 'b' });
+
+    expect(accessToken).toEqual('b_access_token');
+    expect(grant).toHaveBeenCalledTimes(2);
+  });
+
+  test('should get a new access token shortly before the cached one expires', async () => {
+    grant.mockResolvedValueOnce(tokenSet('__old_access_token__', 30)).mockResolvedValue(tokenSet('__new', 3600));
+    const getClientCredentialsToken = factory();
+
+    await getClientCredentialsToken();
+    await getClientCredentialsToken();
+    expect(grant).toHaveBeenCalledTimes(2);
+
+    grant.mockClear();
+    const lenient = factory({ ...nextConfig, refreshSkew: 10 });
+    grant.mockResolvedValueOnce(tokenSet('__old_access_token__', 30));
+    await lenient();
+    await lenient();
+    expect(grant).toHaveBeenCalledTimes(1);
+  });
+
+  test('should not cache access tokens without an expiry', async () => {
+    grant.mockResolvedValue(tokenSet('__test_access_token__'));
+    const getClientCredentialsToken = factory();
+
+    await getClientCredentialsToken();
+    await getClientCredentialsToken();
+    expect(grant).toHaveBeenCalledTimes(2);
+  });
+
+  test('should share a grant between parallel calls and not cache failures', async () => {
+    grant.mockRejectedValueOnce(new Error('invalid_client')).mockResolvedValue(tokenSet('__at__', 3600));
+    const getClientCredentialsToken = factory();
+
+    await Promise.all([
+      expect(getClientCredentialsToken()).rejects.toThrow('invalid_client'),
+      expect(getClientCredentialsToken()).rejects.toThrow('invalid_client')
+    ]);
+    expect(grant).toHaveBeenCalledTimes(1);
+
+    await expect(getClientCredentialsToken()).resolves.toMatchObject({ accessToken: '__at__' });
+  });
+});
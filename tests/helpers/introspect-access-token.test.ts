@@ -0,0 +1,36 @@
+import { introspectAccessTokenFactory } from '../../src/helpers';
+
+describe('introspect access token', () => {
+  let introspect: jest.Mock;
+
+  const factory = (
+    metadata: { [key: string]: unknown } = { introspection_endpoint: 'https://op.example.com/introspect' }
+  ): ReturnType<typeof introspectAccessTokenFactory> =>
+    introspectAccessTokenFactory(async () => ({ issuer: { metadata }, introspect } as any));
+
+  beforeEach(() => {
+    introspect = jest.fn();
+  });
+
+  test('should introspect the access token', async () => {
+    introspect.mockResolvedValue({ active: true, scope: 'read:orders', sub: '__test_sub__' });
+    await expect(factory()('__test_access_token__')).resolves.toEqual({
+      active: true,
+      scope: 'read:orders',
+      sub: '__test_sub__'
+    });
+    expect(introspect).toHaveBeenCalledWith('__test_access_token__', 'access_token');
+  });
+
+  test('should return inactive tokens', async () => {
+    introspect.mockResolvedValue({ active: false });
+    await expect(factory()('__test_access_token__')).resolves.toEqual({ active: false });
+  });
+
+  test('should fail when the issuer has no introspection endpoint', async () => {
+    await expect(factory({})('__test_access_token__')).rejects.toThrow(
+      'The issuer does not have an introspection_endpoint'
+    );
+    expect(introspect).not.toHaveBeenCalled();
+  });
+});
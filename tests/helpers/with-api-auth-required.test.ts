@@ -1,6 +1,16 @@
 import { login, setup, teardown } from '../fixtures/setup';
 import { withoutApi } from '../fixtures/default-settings';
 import { get } from '../zsession/fixtures/helpers';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Socket } from 'net';
+import { JWT } from 'jose';
+import { NextApiRequest, NextApiResponse } from 'next';
+import { TokenSet } from 'openid-client';
+import { getConfig } from '../../src/config';
+import { CookieStore } from '../../src/zsession';
+import { SessionCache, WithApiAuthRequired, WithApiAuthRequiredOptions } from '../../src';
+import { withApiAuthRequiredFactory } from '../../src/helpers';
+import { key, makeIdToken } from '../zsession/fixtures/cert';
 
 describe('with-api-auth-required', () => {
   afterEach(teardown);
@@ -21,3 +31,128 @@ describe('with-api-auth-required', () => {
     expect(data).toEqual({ foo: 'bar' });
   });
 });
+
+describe('with-api-auth-required authorization', () => {
+  const { baseConfig, nextConfig } = getConfig(withoutApi);
+  let sessionCache: SessionCache;
+  let withApiAuthRequired: WithApiAuthRequired;
+
+  beforeEach(() => {
+    sessionCache = new SessionCache(baseConfig, new CookieStore(baseConfig));
+    withApiAuthRequired = withApiAuthRequiredFactory(sessionCache, nextConfig);
+  });
+
+  const call = async (
+    options: WithApiAuthRequiredOptions,
+    idTokenClaims: { [key: string]: any } = {},
+    accessTokenClaims?: { [key: string]: any }
+  ): Promise<{ status: number; body?: any }> => {
+    const req = new IncomingMessage(new Socket()) as NextApiRequest;
+    const res = new ServerResponse(req) as NextApiResponse;
+    const result: { status: number; body?: any } = { status: 0 };
+    res.status = (status: number): NextApiResponse => {
+      result.status = status;
+      return res;
+    };
+    res.json = (body: any): void => {
+      result.body = body;
+    };
+    sessionCache.create(
+      req,
+      res,
+      sessionCache.fromTokenSet(
+        new TokenSet({
+          id_token: makeIdToken(idTokenClaims),
+          access_token: accessTokenClaims && JWT.sign(accessTokenClaims, key, { algorithm: 'RS256' })
+        })
+      )
+    );
+    await withApiAuthRequired((_req, res) => res.status(200).json({ foo: 'bar' }), options)(req, res);
+    return result;
+  };
+
+  const forbidden = {
+    status: 403,
+    body: {
+      error: 'insufficient_permissions',
+      description: 'The user does not have the roles or permissions required to access this resource'
+    }
+  };
+
+  test('allow access when the user has all the roles', async () => {
+    await expect(call({ roles: ['admin', 'editor'] }, { roles: ['admin', 'editor', 'viewer'] })).resolves.toEqual({
+      status: 200,
+      body: { foo: 'bar' }
+    });
+  });
+
+  test('deny access when the user is missing a role', async () => {
+    await expect(call({ roles: ['admin', 'editor'] }, { roles: ['editor'] })).resolves.toEqual(forbidden);
+    await expect(call({ roles: ['admin'] })).resolves.toEqual(forbidden);
+  });
+
+  test('read permissions from the access token', async () => {
+    await expect(call({ permissions: ['read:shows'] }, {}, { permissions: ['read:shows'] })).resolves.toMatchObject({
+      status: 200
+    });
+    await expect(call({ permissions: ['write:shows'] }, {}, { permissions: ['read:shows'] })).resolves.toEqual(
+      forbidden
+    );
+  });
+
+  test('read roles and permissions from the configured claims', async () => {
+    withApiAuthRequired = withApiAuthRequiredFactory(sessionCache, {
+      ...nextConfig,
+      rolesClaim: 'https://example.com/roles',
+      permissionsClaim: 'scope'
+    });
+    await expect(
+      call(
+        { roles: ['admin'], permissions: ['read:shows'] },
+        { 'https://example.com/roles': ['admin'] },
+        { scope: 'openid read:shows' }
+      )
+    ).resolves.toMatchObject({ status: 200 });
+    await expect(call({ roles: ['admin'] }, { roles: ['admin'] })).resolves.toEqual(forbidden);
+  });
+
+  test('use a custom claim check', async () => {
+    const claimCheck = jest.fn(async (_idTokenClaims, accessTokenClaims) => accessTokenClaims.tenant === 'acme');
+    await expect(call({ claimCheck }, { sub: '__test_sub__' }, { tenant: 'acme' })).resolves.toMatchObject({
+      status: 200
+    });
+    expect(claimCheck).toHaveBeenCalledWith(
+      expect.objectContaining({ sub: '__test_sub__' }),
+      expect.objectContaining({ tenant: 'acme' }),
+      expect.any(Object)
+    );
+    await expect(call({ claimCheck }, {}, { tenant: 'other' })).resolves.toEqual(forbidden);
+  });
+
+  test('require step-up authentication', async () => {
+    const now = Math.round(Date.now() / 1000);
+    await expect(call({ acr: 'mfa', maxAge: 300 }, { amr: ['pwd', 'mfa'], auth_time: now - 60 })).resolves.toEqual({
+      status: 200,
+      body: { foo: 'bar' }
+    });
+    await expect(call({ acr: 'mfa', maxAge: 300 }, { acr: 'mfa', auth_time: now - 600 })).resolves.toEqual({
+      status: 401,
+      body: {
+        error: 'insufficient_user_authentication',
+        description: 'The user must authenticate again to access this resource',
+        acr_values: 'mfa',
+        max_age: 300
+      }
+    });
+    await expect(call({ acr: ['mfa', 'hwk'] }, { amr: ['pwd'] })).resolves.toMatchObject({
+      status: 401,
+      body: { acr_values: 'mfa hwk' }
+    });
+  });
+
+  test('pass an empty object to the claim check for opaque access tokens', async () => {
+    const claimCheck = jest.fn().mockReturnValue(true);
+    await call({ claimCheck });
+    expect(claimCheck.mock.calls[0][1]).toEqual({});
+  });
+});
@@ -2,6 +2,13 @@ import { URL } from 'url';
 import { login, setup, teardown } from '../fixtures/setup';
 import { withoutApi } from '../fixtures/default-settings';
 import { get } from '../zsession/fixtures/helpers';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Socket } from 'net';
+import timekeeper = require('timekeeper');
+import { GetServerSidePropsContext } from 'next';
+import { getConfig } from '../../src/config';
+import { Session, WithPageAuthRequiredOptions } from '../../src';
+import { withPageAuthRequiredFactory } from '../../src/helpers';
 
 describe('with-page-auth-required ssr', () => {
   afterEach(teardown);
@@ -80,3 +87,109 @@ describe('with-page-auth-required ssr', () => {
     expect(url.searchParams.get('returnTo')).toEqual('/foo?bar=baz&qux=quux');
   });
 });
+
+describe('with-page-auth-required ssr authorization', () => {
+  const { nextConfig } = getConfig(withoutApi);
+
+  const run = (
+    options: WithPageAuthRequiredOptions,
+    user: { [key: string]: any },
+    { query = {} }: { query?: { [key: string]: string } } = {}
+  ): Promise<any> => {
+    const session = new Session(user);
+    const withPageAuthRequired = withPageAuthRequiredFactory(
+      '/api/auth/login',
+      async () => session,
+      () => nextConfig
+    );
+    const req = new IncomingMessage(new Socket());
+    const ctx = { req, res: new ServerResponse(req), resolvedUrl: '/admin', query } as GetServerSidePropsContext;
+    return withPageAuthRequired(options)(ctx);
+  };
+
+  test('allow access when the user has the required roles', async () => {
+    await expect(run({ roles: ['admin'] }, { sub: '__test_sub__', roles: ['admin'] })).resolves.toEqual({
+      props: { user: { sub: '__test_sub__', roles: ['admin'] } }
+    });
+  });
+
+  test('return not found when the user is missing a role', async () => {
+    await expect(run({ roles: ['admin'] }, { roles: ['viewer'] })).resolves.toEqual({ notFound: true });
+  });
+
+  test('redirect to the forbidden page when the user is missing a permission', async () => {
+    await expect(
+      run({ permissions: ['delete:users'], forbiddenRedirect: '/forbidden' }, { permissions: ['read:users'] })
+    ).resolves.toEqual({ redirect: { destination: '/forbidden', permanent: false } });
+  });
+
+  test('use a custom claim check', async () => {
+    const claimCheck = jest.fn(({ email_verified }) => email_verified === true);
+    await expect(run({ claimCheck }, { email_verified: true })).resolves.toMatchObject({ props: expect.anything() });
+    await expect(run({ claimCheck }, { email_verified: false })).resolves.toEqual({ notFound: true });
+  });
+
+  test('allow access when the user recently logged in with the required acr', async () => {
+    const auth_time = Math.round(Date.now() / 1000) - 60;
+    await expect(run({ acr: 'mfa', maxAge: 300 }, { acr: 'mfa', auth_time })).resolves.toEqual({
+      props: { user: { acr: 'mfa', auth_time } }
+    });
+    await expect(run({ acr: 'mfa' }, { amr: ['pwd', 'mfa'] })).resolves.toMatchObject({ props: expect.anything() });
+  });
+
+  test('send the user to login again when the step-up requirements are not met', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    timekeeper.freeze(now * 1000);
+    try {
+      const auth_time = now - 600;
+      await expect(run({ acr: 'mfa', maxAge: 300 }, { acr: 'mfa', auth_time })).resolves.toEqual({
+        redirect: {
+          destination: `/api/auth/login?returnTo=${encodeURIComponent(
+            `/admin?zidentity_step_up=${now}`
+          )}&acr_values=mfa&max_age=300`,
+          permanent: false
+        }
+      });
+      await expect(run({ acr: 'mfa', returnTo: '/billing?tab=1' }, { amr: ['pwd'] })).resolves.toEqual({
+        redirect: {
+          destination: `/api/auth/login?returnTo=${encodeURIComponent(
+            `/billing?tab=1&zidentity_step_up=${now}`
+          )}&acr_values=mfa`,
+          permanent: false
+        }
+      });
+      await expect(
+        run({ acr: 'mfa', returnTo: 'https://app.example.com/billing#invoices' }, { amr: ['pwd'] })
+      ).resolves.toEqual({
+        redirect: {
+          destination: `/api/auth/login?returnTo=${encodeURIComponent(
+            `https://app.example.com/billing?zidentity_step_up=${now}#invoices`
+          )}&acr_values=mfa`,
+          permanent: false
+        }
+      });
+      await expect(run({ maxAge: 300 }, {})).resolves.toMatchObject({ redirect: expect.anything() });
+    } finally {
+      timekeeper.reset();
+    }
+  });
+
+  test('deny access instead of sending the user to login again when the step-up was just requested', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    await expect(
+      run({ acr: 'mfa' }, { amr: ['pwd'] }, { query: { zidentity_step_up: `${now - 10}` } })
+    ).resolves.toEqual({ notFound: true });
+    await expect(
+      run({ acr: 'mfa', forbiddenRedirect: '/forbidden' }, { amr: ['pwd'] }, { query: { zidentity_step_up: `${now}` } })
+    ).resolves.toEqual({ redirect: { destination: '/forbidden', permanent: false } });
+    await expect(
+      run({ acr: 'mfa' }, { amr: ['pwd'] }, { query: { zidentity_step_up: `${now - 600}` } })
+    ).resolves.toMatchObject({ redirect: expect.anything() });
+  });
+
+  test('not call getServerSideProps when the user is not authorized', async () => {
+    const getServerSideProps = jest.fn().mockReturnValue({ props: {} });
+    await run({ roles: ['admin'], getServerSideProps }, {});
+    expect(getServerSideProps).not.toHaveBeenCalled();
+  });
+});
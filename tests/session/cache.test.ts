@@ -1,7 +1,10 @@
 import { IncomingMessage, ServerResponse } from 'http';
 import { Socket } from 'net';
 import { mocked } from 'ts-jest/utils';
-import { CookieStore, getConfig } from '../../src/zsession';
+import { JWK } from 'jose';
+import { CookieStore, getConfig, LogoutStore, MemoryStore, SessionRegistry, StatefulStore } from '../../src/zsession';
+import { signing as deriveKey } from '../../src/zsession/utils/hkdf';
+import { generateCookieValue } from '../../src/zsession/transient-store';
 import { Session, SessionCache } from '../../src';
 import { withoutApi } from '../fixtures/default-settings';
 
@@ -34,44 +37,203 @@ describe('SessionCache', () => {
     expect(cache).toBeInstanceOf(SessionCache);
   });
 
-  test('should create the session entry', () => {
+  test('should create the session entry', async () => {
     cache.create(req, res, session);
-    expect(cache.get(req, res)).toEqual(session);
-    expect(cookieStore.save).toHaveBeenCalledWith(req, res, session);
+    expect(await cache.get(req, res)).toEqual(session);
+    expect(cookieStore.save).toHaveBeenCalledWith(req, res, session, undefined);
   });
 
-  test('should delete the session entry', () => {
+  test('should delete the session entry', async () => {
     cache.create(req, res, session);
-    expect(cache.get(req, res)).toEqual(session);
-    cache.delete(req, res);
-    expect(cache.get(req, res)).toBeNull();
+    expect(await cache.get(req, res)).toEqual(session);
+    await cache.delete(req, res);
+    expect(await cache.get(req, res)).toBeNull();
   });
 
-  test('should set authenticated for authenticated user', () => {
+  test('should set authenticated for authenticated user', async () => {
     cache.create(req, res, session);
-    expect(cache.isAuthenticated(req, res)).toEqual(true);
+    expect(await cache.isAuthenticated(req, res)).toEqual(true);
   });
 
-  test('should set unauthenticated for anonymous user', () => {
-    expect(cache.isAuthenticated(req, res)).toEqual(false);
+  test('should set unauthenticated for anonymous user', async () => {
+    expect(await cache.isAuthenticated(req, res)).toEqual(false);
   });
 
-  test('should get an id token for authenticated user', () => {
+  test('should get an id token for authenticated user', async () => {
     cache.create(req, res, session);
-    expect(cache.getIdToken(req, res)).toEqual('__test_id_token__');
+    expect(await cache.getIdToken(req, res)).toEqual('__test_id_token__');
   });
 
-  test('should get no id token for anonymous user', () => {
-    expect(cache.getIdToken(req, res)).toBeUndefined();
+  test('should get no id token for anonymous user', async () => {
+    expect(await cache.getIdToken(req, res)).toBeUndefined();
   });
 
-  test('should read and update the session', () => {
+  test('should get the refresh and access tokens for authenticated user', async () => {
+    session.refreshToken = '__test_refresh_token__';
+    session.accessToken = '__test_access_token__';
+    cache.create(req, res, session);
+    expect(await cache.getRefreshToken(req, res)).toEqual('__test_refresh_token__');
+    expect(await cache.getAccessToken(req, res)).toEqual('__test_access_token__');
+  });
+
+  test('should get the access tokens for every audience', async () => {
+    session.accessToken = '__test_access_token__';
+    session.accessTokens = {
+      'https://api.example.com|': { accessToken: '__test_audience_access_token__', accessTokenExpiresAt: 0 }
+    };
+    cache.create(req, res, session);
+    expect(await cache.getAccessTokens(req, res)).toEqual(['__test_access_token__', '__test_audience_access_token__']);
+  });
+
+  test('should get no refresh or access token for anonymous user', async () => {
+    expect(await cache.getRefreshToken(req, res)).toBeUndefined();
+    expect(await cache.getAccessToken(req, res)).toBeUndefined();
+  });
+
+  test('should read and update the session', async () => {
     cookieStore.read = jest.fn().mockReturnValue([{ user: { sub: '__test_user__' } }, 500]);
-    expect(cache.isAuthenticated(req, res)).toEqual(true);
-    expect(cache.get(req, res)?.user).toEqual({ sub: '__test_user__' });
-    cache.set(req, res, new Session({ sub: '__new_user__' }));
-    expect(cache.get(req, res)?.user).toEqual({ sub: '__new_user__' });
+    expect(await cache.isAuthenticated(req, res)).toEqual(true);
+    expect((await cache.get(req, res))?.user).toEqual({ sub: '__test_user__' });
+    await cache.set(req, res, new Session({ sub: '__new_user__' }));
+    expect((await cache.get(req, res))?.user).toEqual({ sub: '__new_user__' });
     expect(cookieStore.read).toHaveBeenCalledTimes(1);
     expect(cookieStore.save).toHaveBeenCalledTimes(1);
+    expect(cookieStore.save).toHaveBeenCalledWith(req, res, expect.any(Session), 500);
+  });
+
+  test('should only read the session once for concurrent calls', async () => {
+    cookieStore.read = jest.fn().mockReturnValue([{ user: { sub: '__test_user__' } }, 500]);
+    await Promise.all([cache.get(req, res), cache.isAuthenticated(req, res)]);
+    expect(cookieStore.save).toHaveBeenCalledTimes(1);
+  });
+
+  test('should only save once when creating a session over an existing one', async () => {
+    cookieStore.read = jest.fn().mockReturnValue([{ user: { sub: '__test_user__' } }, 500]);
+    await cache.get(req, res);
+    cache.create(req, res, session);
+    expect(cookieStore.save).toHaveBeenCalledTimes(1);
+  });
+
+  test('should end the response once a stateful session has been saved', async () => {
+    let saved: () => void = () => undefined;
+    cookieStore.save = jest.fn().mockReturnValue(new Promise<void>((resolve) => (saved = resolve)));
+    const end = jest.fn();
+    res.end = end;
+    cache.create(req, res, session);
+    res.end('__test_body__');
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(end).not.toHaveBeenCalled();
+    saved();
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(end).toHaveBeenCalledWith('__test_body__');
+  });
+
+  test('should destroy the response when a stateful session cannot be saved', async () => {
+    const error = new Error('store down');
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    cookieStore.save = jest.fn().mockReturnValue(Promise.reject(error));
+    const end = jest.fn();
+    res.end = end;
+    res.destroy = jest.fn();
+    cache.create(req, res, session);
+    res.end();
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(end).not.toHaveBeenCalled();
+    expect(res.destroy).toHaveBeenCalledWith(error);
+    expect(consoleError).toHaveBeenCalledWith(error);
+    consoleError.mockRestore();
+  });
+
+  test('should reject a session that was logged out through back-channel logout', async () => {
+    const config = getConfig(withoutApi);
+    const logoutStore = new LogoutStore(config, new MemoryStore());
+    cache = new SessionCache(config, cookieStore, logoutStore);
+    await logoutStore.save({ sid: '__test_sid__', iat: 500 });
+    cookieStore.read = jest.fn().mockReturnValue([{ user: { sub: '__test_user__', sid: '__test_sid__' } }, 400]);
+    expect(await cache.isAuthenticated(req, res)).toEqual(false);
+    expect(cookieStore.save).toHaveBeenCalledWith(req, res, null, 400);
+  });
+
+  test('should keep a session created after a back-channel logout of its user', async () => {
+    const config = getConfig(withoutApi);
+    const logoutStore = new LogoutStore(config, new MemoryStore());
+    cache = new SessionCache(config, cookieStore, logoutStore);
+    await logoutStore.save({ sub: '__test_user__', iat: 500 });
+    cookieStore.read = jest.fn().mockReturnValue([{ user: { sub: '__test_user__' } }, 600]);
+    expect(await cache.isAuthenticated(req, res)).toEqual(true);
+  });
+
+  test('should register a created session in the session registry', async () => {
+    const config = getConfig(withoutApi);
+    const sessionRegistry = new SessionRegistry(config, new MemoryStore());
+    cache = new SessionCache(config, cookieStore, undefined, sessionRegistry);
+    await cache.create(req, res, session);
+    expect(session.id).toEqual(expect.any(String));
+    await expect(sessionRegistry.getSessions('__test_user__')).resolves.toEqual([
+      expect.objectContaining({ id: session.id, sub: '__test_user__' })
+    ]);
+  });
+
+  test('should reject a session that was revoked in the session registry', async () => {
+    const config = getConfig(withoutApi);
+    const sessionRegistry = new SessionRegistry(config, new MemoryStore());
+    cache = new SessionCache(config, cookieStore, undefined, sessionRegistry);
+    await sessionRegistry.register(req, '__test_id__', '__test_user__');
+    cookieStore.read = jest.fn().mockReturnValue([{ user: { sub: '__test_user__' }, id: '__test_id__' }, 400]);
+    expect(await cache.isAuthenticated(req, res)).toEqual(true);
+
+    await sessionRegistry.revoke('__test_id__');
+    const otherReq = mocked(new IncomingMessage(new Socket()));
+    expect(await cache.isAuthenticated(otherReq, res)).toEqual(false);
+  });
+
+  test('should renew the record of a rolling session in the session registry when it is saved', async () => {
+    const config = getConfig(withoutApi);
+    const sessionRegistry = new SessionRegistry(config, new MemoryStore());
+    jest.spyOn(sessionRegistry, 'touch');
+    cache = new SessionCache(config, cookieStore, undefined, sessionRegistry);
+    cookieStore.read = jest.fn().mockReturnValue([{ user: { sub: '__test_user__' }, id: '__test_id__' }, 400]);
+    await sessionRegistry.register(req, '__test_id__', '__test_user__');
+    await cache.get(req, res);
+    expect(sessionRegistry.touch).toHaveBeenCalledWith('__test_id__');
+
+    cache = new SessionCache(
+      { ...config, session: { ...config.session, rolling: false } },
+      cookieStore,
+      undefined,
+      sessionRegistry
+    );
+    (sessionRegistry.touch as jest.Mock).mockClear();
+    await cache.get(mocked(new IncomingMessage(new Socket())), res);
+    expect(sessionRegistry.touch).not.toHaveBeenCalled();
+  });
+
+  test('should remove a deleted session from the session registry', async () => {
+    const config = getConfig(withoutApi);
+    const sessionRegistry = new SessionRegistry(config, new MemoryStore());
+    cache = new SessionCache(config, cookieStore, undefined, sessionRegistry);
+    await cache.create(req, res, session);
+    await cache.delete(req, res);
+    await expect(sessionRegistry.getSessions('__test_user__')).resolves.toEqual([]);
+  });
+
+  test('should fail the request and keep the session when the session store fails', async () => {
+    const config = getConfig(withoutApi);
+    const store = new MemoryStore();
+    const now = Math.floor(Date.now() / 1000);
+    await store.set('__test_session_id__', { header: { iat: now, uat: now, exp: now + 60 }, data: {} });
+    const key = JWK.asKey(deriveKey(config.secret as string));
+    req.headers.cookie = `appSession=${generateCookieValue('appSession', '__test_session_id__', key)}`;
+    const get = jest.spyOn(store, 'get').mockRejectedValueOnce(new Error('store down'));
+    jest.spyOn(store, 'delete');
+    const statefulCache = new SessionCache(config, new StatefulStore(config, store));
+
+    await expect(statefulCache.get(req, res)).rejects.toThrow('store down');
+    res.end();
+
+    expect(res.getHeader('Set-Cookie')).toBeUndefined();
+    expect(store.delete).not.toHaveBeenCalled();
+    get.mockRestore();
+    await expect(store.get('__test_session_id__')).resolves.toBeDefined();
   });
 });
@@ -1,7 +1,15 @@
 import { login, setup, teardown } from '../fixtures/setup';
 import { withApi } from '../fixtures/default-settings';
 import { get } from '../zsession/fixtures/helpers';
-import { Session } from '../../src';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Socket } from 'net';
+import timekeeper = require('timekeeper');
+import { TokenSet } from 'openid-client';
+import { Session, SessionCache } from '../../src';
+import { accessTokenFactory, GetAccessToken } from '../../src/session';
+import { getConfig } from '../../src/config';
+import { CookieStore } from '../../src/zsession';
+import { makeIdToken } from '../zsession/fixtures/cert';
 import { refreshTokenExchange, refreshTokenRotationExchange } from '../fixtures/oidc-nocks';
 
 describe('get access token', () => {
@@ -49,6 +57,7 @@ describe('get access token', () => {
       callbackOptions: {
         afterCallback: (_req, _res, session): Session => {
           delete session.accessTokenScope;
+          delete session.refreshToken;
           return session;
         }
       },
@@ -67,6 +76,7 @@ describe('get access token', () => {
       callbackOptions: {
         afterCallback: (_req, _res, session): Session => {
           session.accessTokenScope = 'read:bar';
+          delete session.refreshToken;
           return session;
         }
       },
@@ -214,3 +224,276 @@ describe('get access token', () => {
     });
   });
 });
+
+describe('get access token refresh', () => {
+  const { baseConfig, nextConfig } = getConfig(withApi);
+  const request = (): [IncomingMessage, ServerResponse] => {
+    const req = new IncomingMessage(new Socket());
+    return [req, new ServerResponse(req)];
+  };
+  const tokenSet = (accessToken: string, refreshToken: string): TokenSet =>
+    new TokenSet({
+      id_token: makeIdToken({ iss: 'https://test.zidentity.io/' }),
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      expires_at: Math.floor(Date.now() / 1000) + 30
+    });
+
+  let sessionCache: SessionCache;
+  let refresh: jest.Mock;
+
+  beforeEach(() => {
+    sessionCache = new SessionCache(baseConfig, new CookieStore(baseConfig));
+    refresh = jest.fn();
+  });
+
+  const withSession = (refreshToken: string): [IncomingMessage, ServerResponse] => {
+    const [req, res] = request();
+    sessionCache.create(req, res, sessionCache.fromTokenSet(tokenSet('__test_access_token__', refreshToken)));
+    return [req, res];
+  };
+
+  test('should share an in-flight refresh between parallel requests', async () => {
+    let resolve: (tokenSet: TokenSet) => void = () => undefined;
+    refresh.mockReturnValue(new Promise((r) => (resolve = r)));
+    const getAccessToken = accessTokenFactory(nextConfig, async () => ({ refresh } as any), sessionCache);
+
+    const pending = [withSession('__rt__'), withSession('__rt__'), withSession('__rt__')].map(([req, res]) =>
+      getAccessToken(req, res)
+    );
+    await new Promise((r) => setImmediate(r));
+    resolve(tokenSet('__new_access_token__', '__new_rt__'));
+
+    const results = await Promise.all(pending);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(refresh).toHaveBeenCalledWith('__rt__');
+    expect(results).toEqual(Array(3).fill({ accessToken: '__new_access_token__' }));
+  });
+
+  test('should not share refreshes between different refresh tokens or once the grace period has passed', async () => {
+    refresh.mockImplementation(async (rt: string) => tokenSet(`${rt}_access_token`, `${rt}_new`));
+    const getAccessToken = accessTokenFactory(nextConfig, async () => ({ refresh } as any), sessionCache);
+
+    await Promise.all([getAccessToken(...withSession('__rt1__')), getAccessToken(...withSession('__rt2__'))]);
+    timekeeper.travel(Date.now() + 11 * 1000);
+    try {
+      await getAccessToken(...withSession('__rt1__'));
+    } finally {
+      timekeeper.reset();
+    }
+    expect(refresh.mock.calls).toEqual([['__rt1__'], ['__rt2__'], ['__rt1__']]);
+  });
+
+  test('should reuse a refresh that rotated the refresh token for requests that still have the old one', async () => {
+    refresh.mockResolvedValueOnce(tokenSet('__new_access_token__', '__new_rt__'));
+    const getAccessToken = accessTokenFactory(nextConfig, async () => ({ refresh } as any), sessionCache);
+
+    await getAccessToken(...withSession('__rt__'));
+    const [req, res] = withSession('__rt__');
+    await expect(getAccessToken(req, res)).resolves.toEqual({ accessToken: '__new_access_token__' });
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect((await sessionCache.get(req, res))?.refreshToken).toEqual('__new_rt__');
+  });
+
+  test('should not reuse a refresh that did not rotate the refresh token', async () => {
+    refresh.mockImplementation(async (rt: string) => tokenSet('__new_access_token__', rt));
+    const getAccessToken = accessTokenFactory(nextConfig, async () => ({ refresh } as any), sessionCache);
+
+    await getAccessToken(...withSession('__rt__'));
+    await getAccessToken(...withSession('__rt__'));
+    expect(refresh).toHaveBeenCalledTimes(2);
+  });
+
+  test('should let every request retry after a failed refresh', async () => {
+    refresh.mockRejectedValueOnce(new Error('invalid_grant')).mockResolvedValue(tokenSet('__at__', '__rt2__'));
+    const getAccessToken = accessTokenFactory(nextConfig, async () => ({ refresh } as any), sessionCache);
+
+    await expect(getAccessToken(...withSession('__rt__'))).rejects.toThrow('invalid_grant');
+    await expect(getAccessToken(...withSession('__rt__'))).resolves.toEqual({ accessToken: '__at__' });
+  });
+
+  test('should use the configured refresh skew', async () => {
+    refresh.mockResolvedValue(tokenSet('__new_access_token__', '__new_rt__'));
+
+    // The access token expires in 30 seconds.
+    const lenient = accessTokenFactory(
+      { ...nextConfig, refreshSkew: 10 },
+      async () => ({ refresh } as any),
+      sessionCache
+    );
+    await expect(lenient(...withSession('__rt__'))).resolves.toEqual({ accessToken: '__test_access_token__' });
+    expect(refresh).not.toHaveBeenCalled();
+
+    const strict = accessTokenFactory(
+      { ...nextConfig, refreshSkew: 60 },
+      async () => ({ refresh } as any),
+      sessionCache
+    );
+    await expect(strict(...withSession('__rt__'))).resolves.toEqual({ accessToken: '__new_access_token__' });
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  test('should call onTokenRefresh with the updated session', async () => {
+    const onTokenRefresh = jest.fn();
+    refresh.mockResolvedValue(tokenSet('__new_access_token__', '__new_rt__'));
+    const getAccessToken = accessTokenFactory(
+      { ...nextConfig, events: { onTokenRefresh } },
+      async () => ({ refresh } as any),
+      sessionCache
+    );
+
+    const [req, res] = withSession('__rt__');
+    await getAccessToken(req, res);
+    expect(onTokenRefresh).toHaveBeenCalledWith({
+      req,
+      session: expect.objectContaining({ accessToken: '__new_access_token__', refreshToken: '__new_rt__' })
+    });
+  });
+
+  test('should call onAccessTokenError when an access token can not be provided', async () => {
+    const onAccessTokenError = jest.fn();
+    const error = new Error('invalid_grant');
+    refresh.mockRejectedValue(error);
+    const getAccessToken = accessTokenFactory(
+      { ...nextConfig, events: { onAccessTokenError } },
+      async () => ({ refresh } as any),
+      sessionCache
+    );
+
+    const [req, res] = withSession('__rt__');
+    await expect(getAccessToken(req, res)).rejects.toThrow('invalid_grant');
+    expect(onAccessTokenError).toHaveBeenCalledWith({ req, error });
+
+    const [otherReq, otherRes] = request();
+    await expect(getAccessToken(otherReq, otherRes)).rejects.toThrow('The user does not have a valid session.');
+    expect(onAccessTokenError).toHaveBeenLastCalledWith({
+      req: otherReq,
+      error: expect.objectContaining({ code: 'invalid_session' })
+    });
+  });
+});
+
+describe('get access token for an audience', () => {
+  const { baseConfig, nextConfig } = getConfig(withApi);
+  let sessionCache: SessionCache;
+  let refresh: jest.Mock;
+  let req: IncomingMessage;
+  let res: ServerResponse;
+
+  const tokenSet = (accessToken: string, params: { [key: string]: any } = {}): TokenSet =>
+    new TokenSet({
+      access_token: accessToken,
+      expires_at: Math.floor(Date.now() / 1000) + 3600,
+      ...params
+    });
+
+  beforeEach(() => {
+    sessionCache = new SessionCache(baseConfig, new CookieStore(baseConfig));
+    refresh = jest.fn();
+    req = new IncomingMessage(new Socket());
+    res = new ServerResponse(req);
+    const session = sessionCache.fromTokenSet(
+      new TokenSet({
+        id_token: makeIdToken({ iss: 'https://test.zidentity.io/' }),
+        access_token: '__default_access_token__',
+        scope: 'read:customer',
+        refresh_token: '__rt__',
+        expires_at: Math.floor(Date.now() / 1000) + 3600
+      })
+    );
+    sessionCache.create(req, res, session);
+  });
+
+  const getAccessToken = (): GetAccessToken =>
+    accessTokenFactory(nextConfig, async () => ({ refresh } as any), sessionCache);
+
+  test('should get and cache an access token for another audience', async () => {
+    refresh.mockResolvedValue(tokenSet('__orders_access_token__', { scope: 'read:orders' }));
+    const get = getAccessToken();
+
+    const request = { audience: 'https://orders.test.com', scopes: ['read:orders'] };
+    await expect(get(req, res, request)).resolves.toEqual({ accessToken: '__orders_access_token__' });
+    await expect(get(req, res, request)).resolves.toEqual({ accessToken: '__orders_access_token__' });
+    await expect(get(req, res)).resolves.toEqual({ accessToken: '__default_access_token__' });
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(refresh).toHaveBeenCalledWith('__rt__', {
+      exchangeBody: { audience: 'https://orders.test.com', scope: 'read:orders' }
+    });
+    expect((await sessionCache.get(req, res))?.accessTokens).toEqual({
+      'https://orders.test.com|read:orders': {
+        accessToken: '__orders_access_token__',
+        accessTokenScope: 'read:orders',
+        accessTokenExpiresAt: expect.any(Number)
+      }
+    });
+  });
+
+  test('should keep a separate token per audience and store rotated refresh tokens', async () => {
+    refresh
+      .mockResolvedValueOnce(tokenSet('__orders_access_token__', { refresh_token: '__rt2__' }))
+      .mockResolvedValueOnce(tokenSet('__billing_access_token__'));
+    const get = getAccessToken();
+
+    await expect(get(req, res, { audience: 'https://orders.test.com' })).resolves.toEqual({
+      accessToken: '__orders_access_token__'
+    });
+    await expect(get(req, res, { audience: 'https://billing.test.com' })).resolves.toEqual({
+      accessToken: '__billing_access_token__'
+    });
+    expect(refresh.mock.calls[1][0]).toEqual('__rt2__');
+    expect((await sessionCache.get(req, res))?.refreshToken).toEqual('__rt2__');
+  });
+
+  test('should use the rotated refresh token for an audience refreshed with the same refresh token', async () => {
+    let resolve: (tokenSet: TokenSet) => void = () => undefined;
+    refresh
+      .mockReturnValueOnce(new Promise((r) => (resolve = r)))
+      .mockResolvedValueOnce(tokenSet('__billing_access_token__'));
+    const get = getAccessToken();
+
+    const orders = get(req, res, { audience: 'https://orders.test.com' });
+    const otherReq = new IncomingMessage(new Socket());
+    const otherRes = new ServerResponse(otherReq);
+    sessionCache.create(otherReq, otherRes, (await sessionCache.get(req, res)) as Session);
+    const billing = get(otherReq, otherRes, { audience: 'https://billing.test.com' });
+    await new Promise((r) => setImmediate(r));
+    resolve(tokenSet('__orders_access_token__', { refresh_token: '__rt2__' }));
+
+    await expect(orders).resolves.toEqual({ accessToken: '__orders_access_token__' });
+    await expect(billing).resolves.toEqual({ accessToken: '__billing_access_token__' });
+    expect(refresh.mock.calls.map(([rt]) => rt)).toEqual(['__rt__', '__rt2__']);
+  });
+
+  test('should refresh an expired audience token', async () => {
+    refresh
+      .mockResolvedValueOnce(tokenSet('__old_access_token__', { expires_at: Math.floor(Date.now() / 1000) + 30 }))
+      .mockResolvedValueOnce(tokenSet('__new_access_token__'));
+    const get = getAccessToken();
+
+    await get(req, res, { audience: 'https://orders.test.com' });
+    await expect(get(req, res, { audience: 'https://orders.test.com' })).resolves.toEqual({
+      accessToken: '__new_access_token__'
+    });
+    expect(refresh).toHaveBeenCalledTimes(2);
+  });
+
+  test('should get a token for scopes the default access token does not have', async () => {
+    refresh.mockResolvedValue(tokenSet('__admin_access_token__'));
+
+    await expect(getAccessToken()(req, res, { scopes: ['write:customer'] })).resolves.toEqual({
+      accessToken: '__admin_access_token__'
+    });
+    expect(refresh).toHaveBeenCalledWith('__rt__', { exchangeBody: { scope: 'write:customer' } });
+  });
+
+  test('should fail for another audience without a refresh token', async () => {
+    const session = await sessionCache.get(req, res);
+    delete session?.refreshToken;
+
+    await expect(getAccessToken()(req, res, { audience: 'https://orders.test.com' })).rejects.toThrow(
+      'An access token for the audience "https://orders.test.com" could not be provided because a refresh token ' +
+        'is not available. The user will need to sign in again.'
+    );
+  });
+});
@@ -12,6 +12,11 @@ describe('session', () => {
     expect(
       fromTokenSet(new TokenSet({ id_token: makeIdToken({ foo: 'bar', bax: 'qux' }) }), {
         identityClaimFilter: ['baz'],
+        refreshSkew: 60,
+        rolesClaim: 'roles',
+        permissionsClaim: 'permissions',
+        events: {},
+        proxy: {},
         routes: { login: '', callback: '', postLogoutRedirect: '' }
       }).user
     ).toEqual({
@@ -0,0 +1,139 @@
+import './fixtures/edge';
+import nock from 'nock';
+import { NextApiRequest, NextApiResponse } from 'next';
+import { stringify } from 'querystring';
+import { ConfigParameters, Session, initZeusIdentity } from '../src';
+import { createNodeResponse, toNodeRequest } from '../src/app/node-bridge';
+import { discovery, jwksEndpoint } from './fixtures/oidc-nocks';
+import { jwks, makeIdToken } from './zsession/fixtures/cert';
+
+const tenants: { [host: string]: ConfigParameters } = {
+  'a.example.com': {
+    clientID: '__client_a__',
+    issuerBaseURL: 'https://a.zidentity.io',
+    baseURL: 'https://a.example.com'
+  },
+  'b.example.com': {
+    clientID: '__client_b__',
+    issuerBaseURL: 'https://b.zidentity.io',
+    baseURL: 'https://b.example.com'
+  }
+};
+
+const setup = (): ReturnType<typeof initZeusIdentity> =>
+  initZeusIdentity({
+    secret: '__test_session_secret__',
+    authorizationParams: { response_type: 'id_token' },
+    resolveConfig: async (req) => tenants[req.headers.host as string]
+  });
+
+const call = async (
+  handler: (req: NextApiRequest, res: NextApiResponse) => Promise<any>,
+  url: string,
+  { cookies = [], body }: { cookies?: string[]; body?: { [key: string]: string } } = {}
+): Promise<{ res: NextApiResponse; cookies: string[] }> => {
+  const req = await toNodeRequest(
+    new Request(url, {
+      method: body ? 'POST' : 'GET',
+      headers: { cookie: cookies.join('; '), 'content-type': 'application/x-www-form-urlencoded' },
+      body: body && stringify(body)
+    })
+  );
+  req.headers.host = new URL(url).host;
+  const { res } = createNodeResponse(req);
+  await handler(req, res);
+  const setCookies = ([] as string[]).concat((res.getHeader('set-cookie') as string[]) || []);
+  return { res, cookies: setCookies.map((cookie) => cookie.split(';')[0]) };
+};
+
+const login = async (instance: ReturnType<typeof initZeusIdentity>, host: string): Promise<string[]> => {
+  const { res, cookies } = await call(instance.handleLogin, `https://${host}/api/auth/login`);
+  const authorizeUrl = new URL(res.getHeader('location') as string);
+  const { clientID, issuerBaseURL } = tenants[host];
+  const { cookies: sessionCookies } = await call(instance.handleCallback, `https://${host}/api/auth/callback`, {
+    cookies,
+    body: {
+      state: authorizeUrl.searchParams.get('state') as string,
+      id_token: makeIdToken({
+        iss: `${issuerBaseURL}/`,
+        aud: clientID,
+        nonce: authorizeUrl.searchParams.get('nonce') as string
+      })
+    }
+  });
+  return sessionCookies.filter((cookie) => cookie.startsWith('appSession='));
+};
+
+const getSession = async (
+  instance: ReturnType<typeof initZeusIdentity>,
+  host: string,
+  cookies: string[]
+): Promise<Session | null | undefined> => {
+  const req = await toNodeRequest(new Request(`https://${host}/`, { headers: { cookie: cookies.join('; ') } }));
+  req.headers.host = host;
+  const { res } = createNodeResponse(req);
+  return instance.getSession(req, res);
+};
+
+describe('tenants', () => {
+  afterEach(() => nock.cleanAll());
+
+  test('should login with the client of the tenant of the request', async () => {
+    discovery(tenants['a.example.com']);
+    discovery(tenants['b.example.com']);
+    const { handleLogin } = setup();
+
+    const { res: resA } = await call(handleLogin, 'https://a.example.com/api/auth/login');
+    const { res: resB } = await call(handleLogin, 'https://b.example.com/api/auth/login');
+
+    const locationA = new URL(resA.getHeader('location') as string);
+    expect(locationA.origin).toEqual('https://a.zidentity.io');
+    expect(locationA.searchParams.get('client_id')).toEqual('__client_a__');
+    expect(locationA.searchParams.get('redirect_uri')).toEqual('https://a.example.com/api/auth/callback');
+    const locationB = new URL(resB.getHeader('location') as string);
+    expect(locationB.origin).toEqual('https://b.zidentity.io');
+    expect(locationB.searchParams.get('client_id')).toEqual('__client_b__');
+  });
+
+  test('should keep one client for each tenant', async () => {
+    const scope = discovery(tenants['a.example.com']);
+    const { handleLogin } = setup();
+
+    await call(handleLogin, 'https://a.example.com/api/auth/login');
+    const { res } = await call(handleLogin, 'https://a.example.com/api/auth/login');
+
+    expect(res.statusCode).toEqual(302);
+    expect(scope.isDone()).toBe(true);
+  });
+
+  test('should create a session for the tenant', async () => {
+    discovery(tenants['a.example.com']);
+    jwksEndpoint(tenants['a.example.com'], jwks);
+    const instance = setup();
+
+    const cookies = await login(instance, 'a.example.com');
+
+    expect(cookies).toHaveLength(1);
+    const session = await getSession(instance, 'a.example.com', cookies);
+    expect(session?.user).toMatchObject({ sub: '__test_sub__' });
+  });
+
+  test('should not accept a session cookie from another tenant', async () => {
+    discovery(tenants['a.example.com']);
+    jwksEndpoint(tenants['a.example.com'], jwks);
+    const instance = setup();
+
+    const cookies = await login(instance, 'a.example.com');
+
+    await expect(getSession(instance, 'b.example.com', cookies)).resolves.toBeFalsy();
+  });
+
+  test('should not allow the helpers that have no request', () => {
+    const instance = setup();
+
+    expect(() => instance.getClientCredentialsToken()).toThrow(
+      '"getClientCredentialsToken" can\'t be used with "resolveConfig"'
+    );
+    expect(() => instance.getSessions('__test_sub__')).toThrow('"getSessions" can\'t be used with "resolveConfig"');
+  });
+});
@@ -0,0 +1,53 @@
+import '../fixtures/edge';
+import timekeeper = require('timekeeper');
+import { initZeusIdentity } from '../../src';
+import { createNodeResponse, toNodeRequest } from '../../src/app/node-bridge';
+import { generateSessionCookie } from '../../src/testing';
+
+const secret = '__test_session_secret__';
+
+const getSession = async (cookie: string, sessionSecret = secret): Promise<any> => {
+  const { getSession } = initZeusIdentity({
+    secret: sessionSecret,
+    clientID: '__test_client_id__',
+    clientSecret: '__test_client_secret__',
+    issuerBaseURL: 'https://op.example.com',
+    baseURL: 'https://example.org'
+  });
+  const req = await toNodeRequest(new Request('https://example.org/', { headers: { cookie: `appSession=${cookie}` } }));
+  const { res } = createNodeResponse(req);
+  return getSession(req, res);
+};
+
+describe('generateSessionCookie', () => {
+  afterEach(timekeeper.reset);
+
+  test('should generate a session cookie the SDK can read', async () => {
+    const cookie = generateSessionCookie(
+      { user: { sub: '__test_sub__' }, accessToken: '__test_access_token__' },
+      { secret }
+    );
+
+    await expect(getSession(cookie)).resolves.toMatchObject({
+      user: { sub: '__test_sub__' },
+      accessToken: '__test_access_token__'
+    });
+  });
+
+  test('should not be readable with another secret', async () => {
+    const cookie = generateSessionCookie({ user: { sub: '__test_sub__' } }, { secret });
+
+    await expect(getSession(cookie, '__other_session_secret__')).resolves.toBeNull();
+  });
+
+  test('should expire after the duration', async () => {
+    const now = Date.now();
+    timekeeper.freeze(now);
+    const cookie = generateSessionCookie({ user: { sub: '__test_sub__' } }, { secret, duration: 60 });
+
+    timekeeper.freeze(now + 59 * 1000);
+    await expect(getSession(cookie)).resolves.toMatchObject({ user: { sub: '__test_sub__' } });
+    timekeeper.freeze(now + 61 * 1000);
+    await expect(getSession(cookie)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import '../fixtures/edge';
+import { NextApiResponse } from 'next';
+import { initZeusIdentity } from '../../src';
+import { createNodeResponse, toNodeRequest } from '../../src/app/node-bridge';
+import { mockHandleAuth } from '../../src/testing';
+
+const secret = '__test_session_secret__';
+const user = { sub: '__test_sub__', name: '__test_name__' };
+
+const call = async (
+  route: string,
+  path: string,
+  cookies: string[] = []
+): Promise<NextApiResponse & { toResponse: () => Promise<Response> }> => {
+  const req = await toNodeRequest(
+    new Request(`https://example.org${path}`, { headers: { cookie: cookies.join('; ') } }),
+    {
+      zidentity: [route]
+    }
+  );
+  const { res, toResponse } = createNodeResponse(req);
+  await mockHandleAuth({ user, secret })(req, res);
+  return Object.assign(res, { toResponse });
+};
+
+const getCookies = (res: NextApiResponse): string[] =>
+  ([] as string[]).concat((res.getHeader('set-cookie') as string[]) || []).map((cookie) => cookie.split(';')[0]);
+
+describe('mockHandleAuth', () => {
+  test('should redirect login to the callback', async () => {
+    const res = await call('login', '/api/auth/login?returnTo=%2Fprofile');
+
+    expect(res.statusCode).toEqual(302);
+    expect(res.getHeader('location')).toEqual('/api/auth/callback?returnTo=%2Fprofile');
+  });
+
+  test('should log the user in on callback', async () => {
+    const res = await call('callback', '/api/auth/callback?returnTo=%2Fprofile');
+
+    expect(res.statusCode).toEqual(302);
+    expect(res.getHeader('location')).toEqual('/profile');
+    const [cookie] = getCookies(res);
+    expect(cookie).toMatch(/^appSession=/);
+
+    const { getSession } = initZeusIdentity({
+      secret,
+      clientID: '__test_client_id__',
+      clientSecret: '__test_client_secret__',
+      issuerBaseURL: 'https://op.example.com',
+      baseURL: 'https://example.org'
+    });
+    const req = await toNodeRequest(new Request('https://example.org/', { headers: { cookie } }));
+    await expect(getSession(req, createNodeResponse(req).res)).resolves.toMatchObject({ user });
+  });
+
+  test('should not redirect to another site', async () => {
+    const res = await call('callback', '/api/auth/callback?returnTo=https%3A%2F%2Fevil.example.com');
+
+    expect(res.getHeader('location')).toEqual('/');
+  });
+
+  test('should return the user from the session', async () => {
+    const cookies = getCookies(await call('callback', '/api/auth/callback'));
+    const res = await call('me', '/api/auth/me', cookies);
+
+    expect(res.statusCode).toEqual(200);
+    expect(res.getHeader('cache-control')).toEqual('no-store');
+    await expect((await res.toResponse()).json()).resolves.toEqual(user);
+  });
+
+  test('should return 401 without a session', async () => {
+    const res = await call('me', '/api/auth/me');
+
+    expect(res.statusCode).toEqual(401);
+  });
+
+  test('should clear the session on logout', async () => {
+    const cookies = getCookies(await call('callback', '/api/auth/callback'));
+    const res = await call('logout', '/api/auth/logout', cookies);
+
+    expect(res.statusCode).toEqual(302);
+    expect(res.getHeader('location')).toEqual('/');
+    expect(getCookies(res)).toEqual(['appSession=']);
+  });
+
+  test('should require a secret', () => {
+    expect(() => mockHandleAuth({ user, secret: '' })).toThrow('"secret" is required');
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * @jest-environment jsdom
+ */
+import '@testing-library/jest-dom/extend-expect';
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+
+import { LoginLink, useUser } from '../../src/frontend';
+import { MockUserProvider } from '../../src/testing';
+
+const Profile = (): React.ReactElement => {
+    const { user, error, isLoading } = useUser();
+    if (isLoading) return <div>Loading</div>;
+    if (error) return <div>{error.message}</div>;
+    if (!user) return <LoginLink>Login</LoginLink>;
+    return <div>Hello {user.name}</div>;
+};
+
+describe('MockUserProvider', () => {
+    it('should provide the user', () => {
+        const fetchSpy = jest.fn();
+        (global as any).fetch = fetchSpy;
+
+        render(
+            <MockUserProvider user={{ sub: '__test_sub__', name: 'Jane' }}>
+                <Profile />
+            </MockUserProvider>
+        );
+
+        expect(screen.getByText('Hello Jane')).toBeInTheDocument();
+        expect(fetchSpy).not.toHaveBeenCalled();
+        delete (global as any).fetch;
+    });
+
+    it('should provide no user', () => {
+        render(
+            <MockUserProvider loginUrl="/login">
+                <Profile />
+            </MockUserProvider>
+        );
+
+        expect(screen.getByText('Login')).toHaveAttribute('href', '/login');
+    });
+
+    it('should provide the loading state and errors', () => {
+        const { rerender } = render(
+            <MockUserProvider isLoading>
+                <Profile />
+            </MockUserProvider>
+        );
+        expect(screen.getByText('Loading')).toBeInTheDocument();
+
+        rerender(
+            <MockUserProvider error={new Error('__test_error__')}>
+                <Profile />
+            </MockUserProvider>
+        );
+        expect(screen.getByText('__test_error__')).toBeInTheDocument();
+    });
+});
@@ -1,7 +1,10 @@
 import nock from 'nock';
-import { Client, Issuer } from 'openid-client';
-import { getConfig, clientFactory, ConfigParameters } from '../../src/zsession';
-import { jwks } from './fixtures/cert';
+import timekeeper = require('timekeeper');
+import { Client, Issuer, custom } from 'openid-client';
+import { JWK, JWKS, JWT } from 'jose';
+import { getConfig, clientFactory, ConfigParameters, refetchSigningKey } from '../../src/zsession';
+import { jwks, key, makeIdToken } from './fixtures/cert';
+import { cert as tlsCert, key as tlsKey } from './fixtures/https';
 import pkg from '../../package.json';
 import wellKnown from './fixtures/well-known.json';
 import version from '../../src/version';
@@ -17,8 +20,32 @@ const defaultConfig = {
   }
 };
 
-const getClient = (params: ConfigParameters = {}): Promise<Client> =>
-  clientFactory(getConfig({ ...defaultConfig, ...params }), { name: 'nextjs-zidentity', version })();
+const getFactory = (params: ConfigParameters = {}): (() => Promise<Client>) =>
+  clientFactory(getConfig({ ...defaultConfig, ...params }), { name: 'nextjs-zidentity', version });
+
+const getClient = (params: ConfigParameters = {}): Promise<Client> => getFactory(params)();
+
+const signIdToken = (signingKey: JWK.RSAKey): string =>
+  JWT.sign(
+    {
+      sub: '__test_sub__',
+      iss: 'https://op.example.com/',
+      aud: '__test_client_id__',
+      nonce: '__test_nonce__'
+    },
+    signingKey,
+    { algorithm: 'RS256', expiresIn: '1 minute', iat: true, header: { kid: signingKey.kid } }
+  );
+
+const callback = (client: Client, idToken: string): Promise<unknown> =>
+  client.callback(
+    'https://example.org/callback',
+    { id_token: idToken, state: '__test_state__' },
+    {
+      state: '__test_state__',
+      nonce: '__test_nonce__'
+    }
+  );
 
 describe('clientFactory', function () {
   beforeEach(() => {
@@ -37,6 +64,7 @@ describe('clientFactory', function () {
   afterEach(() => {
     nock.restore();
     nock.cleanAll();
+    jest.restoreAllMocks();
   });
 
   it('should save the passed values', async function () {
@@ -83,6 +111,68 @@ describe('clientFactory', function () {
     expect(headerProps).toContain('authorization');
   });
 
+  it('should pass the client auth method to the client', async function () {
+    const client = await getClient({ clientAuthMethod: 'client_secret_post' });
+    expect(client.token_endpoint_auth_method).toEqual('client_secret_post');
+  });
+
+  it('should authenticate with a private key JWT', async function () {
+    nock('https://op.example.com')
+      .post('/oauth/token')
+      .reply(200, (_uri, body) => ({ access_token: '__test_access_token__', token_type: 'Bearer', body }));
+
+    const client = await getClient({
+      clientSecret: undefined,
+      clientAuthMethod: 'private_key_jwt',
+      clientAssertionSigningKey: key,
+      clientAssertionSigningAlg: 'RS256'
+    });
+    expect(client.token_endpoint_auth_method).toEqual('private_key_jwt');
+    const tokenSet = await client.grant({ grant_type: 'client_credentials' });
+    const body = new URLSearchParams(tokenSet.body as string);
+
+    expect(body.get('client_secret')).toBeNull();
+    expect(body.get('client_assertion_type')).toEqual('urn:ietf:params:oauth:client-assertion-type:jwt-bearer');
+    expect(JWT.verify(body.get('client_assertion') as string, JWK.asKey(key))).toMatchObject({
+      iss: '__test_client_id__',
+      sub: '__test_client_id__'
+    });
+  });
+
+  it.each([
+    ['RSA', JWK.generateSync('RSA', 2048).toJWK(true), 'RS256'],
+    ['EC', JWK.generateSync('EC', 'P-256').toJWK(true), 'ES256'],
+    ['OKP', JWK.generateSync('OKP', 'Ed25519').toJWK(true), 'EdDSA']
+  ])('should accept an %s JWK as the client assertion signing key', async function (_kty, jwk, alg) {
+    const client = await getClient({
+      clientSecret: undefined,
+      clientAssertionSigningKey: jwk,
+      clientAssertionSigningAlg: alg
+    });
+    expect(client.token_endpoint_auth_method).toEqual('private_key_jwt');
+    expect(client.token_endpoint_auth_signing_alg).toEqual(alg);
+  });
+
+  it.each([
+    ['a symmetric', JWK.generateSync('oct', 256).toJWK(true)],
+    ['a public', JWK.generateSync('RSA', 2048).toJWK()]
+  ])('should not accept %s key as the client assertion signing key', async function (_type, jwk) {
+    await expect(getClient({ clientSecret: undefined, clientAssertionSigningKey: jwk })).rejects.toThrow(
+      '"clientAssertionSigningKey" must be a private RSA, EC or OKP key'
+    );
+  });
+
+  it('should present the client certificate for tls client auth', async function () {
+    const client = await getClient({
+      clientSecret: undefined,
+      clientAuthMethod: 'tls_client_auth',
+      tlsClientCertificate: tlsCert,
+      tlsClientKey: tlsKey
+    });
+    expect(client.token_endpoint_auth_method).toEqual('tls_client_auth');
+    expect(client[custom.http_options]({})).toMatchObject({ https: { certificate: tlsCert, key: tlsKey } });
+  });
+
   it('should prefer user configuration regardless of idP discovery', async function () {
     nock('https://op2.example.com')
       .get('/.well-known/openid-configuration')
@@ -136,6 +226,128 @@ describe('clientFactory', function () {
     ).resolves.not.toThrow();
   });
 
+  it('should use the issuer metadata instead of discovering the issuer', async () => {
+    const discover = jest.spyOn(Issuer, 'discover');
+    const client = await getClient({ issuerBaseURL: undefined, issuerMetadata: wellKnown });
+
+    expect(discover).not.toHaveBeenCalled();
+    expect(client.issuer.metadata.authorization_endpoint).toEqual('https://op.example.com/authorize');
+  });
+
+  it('should discover the issuer once for concurrent requests', async () => {
+    const discover = jest.spyOn(Issuer, 'discover');
+    const factory = getFactory();
+
+    const [client1, client2] = await Promise.all([factory(), factory()]);
+
+    expect(client1).toBe(client2);
+    expect(await factory()).toBe(client1);
+    expect(discover).toHaveBeenCalledTimes(1);
+  });
+
+  it('should discover the issuer again in the background when the cache expires', async () => {
+    const discover = jest.spyOn(Issuer, 'discover');
+    const factory = getFactory({ discoveryCacheMaxAge: 60 });
+    const client = await factory();
+    nock('https://op.example.com')
+      .get('/.well-known/openid-configuration')
+      .reply(200, { ...wellKnown, authorization_endpoint: 'https://op.example.com/authorize/v2' });
+
+    timekeeper.travel(Date.now() + 61 * 1000);
+    try {
+      expect(await factory()).toBe(client);
+      expect(discover).toHaveBeenCalledTimes(2);
+      await discover.mock.results[1].value;
+      await new Promise((resolve) => setImmediate(resolve));
+
+      const rediscovered = await factory();
+      expect(rediscovered).not.toBe(client);
+      expect(rediscovered.issuer.metadata.authorization_endpoint).toEqual('https://op.example.com/authorize/v2');
+    } finally {
+      timekeeper.reset();
+    }
+  });
+
+  it('should keep the cached client when discovering the issuer again fails', async () => {
+    const discover = jest.spyOn(Issuer, 'discover');
+    const factory = getFactory({ discoveryCacheMaxAge: 60 });
+    const client = await factory();
+    nock('https://op.example.com').get('/.well-known/oauth-authorization-server').times(2).reply(500);
+    nock('https://op.example.com').get('/.well-known/openid-configuration').times(2).reply(500);
+
+    timekeeper.travel(Date.now() + 61 * 1000);
+    try {
+      expect(await factory()).toBe(client);
+      await expect(discover.mock.results[1].value).rejects.toThrow();
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(await factory()).toBe(client);
+      expect(discover).toHaveBeenCalledTimes(2);
+
+      timekeeper.travel(Date.now() + 61 * 1000);
+      expect(await factory()).toBe(client);
+      expect(discover).toHaveBeenCalledTimes(3);
+      await expect(discover.mock.results[2].value).rejects.toThrow();
+    } finally {
+      timekeeper.reset();
+    }
+  });
+
+  it('should never discover the issuer again with issuer metadata', async () => {
+    const factory = getFactory({ issuerMetadata: wellKnown, discoveryCacheMaxAge: 0 });
+    const client = await factory();
+
+    expect(await factory()).toBe(client);
+  });
+
+  it('should fetch the JWKS again for an id token signed with an unknown key', async () => {
+    const client = await getClient();
+    await callback(client, makeIdToken());
+    const newKey = JWK.generateSync('RSA', 2048, { use: 'sig', alg: 'RS256' });
+    nock('https://op.example.com')
+      .get('/.well-known/jwks.json')
+      .reply(200, new JWKS.KeyStore([JWK.asKey(key), newKey]).toJWKS(false));
+    const idToken = signIdToken(newKey);
+
+    await expect(callback(client, idToken)).rejects.toThrow("no valid key found in issuer's jwks_uri");
+    await expect(refetchSigningKey(client, idToken)).resolves.toBe(true);
+    await expect(callback(client, idToken)).resolves.toMatchObject({ id_token: expect.any(String) });
+  });
+
+  it('should not fetch the JWKS again for a known key', async () => {
+    const client = await getClient();
+    await callback(client, makeIdToken());
+    const scope = nock('https://op.example.com').get('/.well-known/jwks.json').reply(200, jwks);
+
+    await expect(refetchSigningKey(client, makeIdToken())).resolves.toBe(false);
+    expect(scope.isDone()).toBe(false);
+  });
+
+  it('should not fetch the JWKS again more than once every 10 seconds', async () => {
+    const client = await getClient();
+    await callback(client, makeIdToken());
+    const newKey = JWK.generateSync('RSA', 2048, { use: 'sig', alg: 'RS256' });
+    const otherKey = JWK.generateSync('RSA', 2048, { use: 'sig', alg: 'RS256' });
+    nock('https://op.example.com')
+      .get('/.well-known/jwks.json')
+      .reply(200, new JWKS.KeyStore([newKey]).toJWKS(false));
+    await expect(refetchSigningKey(client, signIdToken(newKey))).resolves.toBe(true);
+    const scope = nock('https://op.example.com')
+      .get('/.well-known/jwks.json')
+      .reply(200, new JWKS.KeyStore([newKey, otherKey]).toJWKS(false));
+
+    await expect(refetchSigningKey(client, signIdToken(otherKey))).resolves.toBe(false);
+    expect(scope.isDone()).toBe(false);
+
+    timekeeper.travel(Date.now() + 11 * 1000);
+    try {
+      await expect(refetchSigningKey(client, signIdToken(otherKey))).resolves.toBe(true);
+      expect(scope.isDone()).toBe(true);
+    } finally {
+      timekeeper.reset();
+    }
+  });
+
   it('should not disclose stack trace in AggregateError message when discovery fails', async () => {
     nock.cleanAll();
     nock('https://op.example.com').get('/.well-known/oauth-authorization-server').reply(500);
@@ -53,6 +53,34 @@ describe('Config', () => {
     expect(() => getConfig(config)).toThrowError(new TypeError('"issuerBaseURL" must be a valid uri'));
   });
 
+  it('should require an issuer without issuer metadata', () => {
+    const { issuerBaseURL, ...config } = defaultConfig;
+    expect(() => getConfig(config)).toThrowError(new TypeError('"issuerBaseURL" is required'));
+  });
+
+  it('should default the issuer to the issuer of the issuer metadata', () => {
+    const { issuerBaseURL, ...config } = defaultConfig;
+    expect(
+      getConfig({
+        ...config,
+        issuerMetadata: {
+          issuer: 'https://op.example.com/',
+          authorization_endpoint: 'https://op.example.com/authorize'
+        }
+      })
+    ).toMatchObject({ issuerBaseURL: 'https://op.example.com/' });
+  });
+
+  it('should require an authorization_endpoint in the issuer metadata', () => {
+    expect(() => getConfig({ ...defaultConfig, issuerMetadata: { issuer: 'https://op.example.com/' } })).toThrowError(
+      new TypeError('"issuerMetadata.authorization_endpoint" is required')
+    );
+  });
+
+  it('should cache the discovered issuer for 10 minutes by default', () => {
+    expect(getConfig(defaultConfig)).toMatchObject({ discoveryCacheMaxAge: 600 });
+  });
+
   it('should set idpLogout to true when zIdentityLogout is true', () => {
     const config = getConfig({
       ...defaultConfig,
@@ -332,6 +360,70 @@ describe('Config', () => {
     ).toThrowError(new TypeError('"clientSecret" is required for a response_type that includes code'));
   });
 
+  it('should allow code flow without clientSecret for other client auth methods', () => {
+    expect(() =>
+      getConfig({
+        ...defaultConfig,
+        clientAuthMethod: 'private_key_jwt',
+        clientAssertionSigningKey: '__test_private_key__',
+        authorizationParams: {
+          response_type: 'code'
+        }
+      })
+    ).not.toThrow();
+  });
+
+  it('should default to private_key_jwt when a client assertion signing key is set', () => {
+    const config = getConfig({
+      ...defaultConfig,
+      clientAssertionSigningKey: '__test_private_key__',
+      authorizationParams: {
+        response_type: 'code'
+      }
+    });
+    expect(config.clientAuthMethod).toEqual('private_key_jwt');
+  });
+
+  it('should require a client assertion signing key for private_key_jwt', () => {
+    expect(() =>
+      getConfig({
+        ...defaultConfig,
+        clientAuthMethod: 'private_key_jwt'
+      })
+    ).toThrowError(
+      new TypeError('"clientAssertionSigningKey" is required for the "private_key_jwt" client auth method')
+    );
+  });
+
+  it('should require a client certificate and key for tls_client_auth', () => {
+    expect(() =>
+      getConfig({
+        ...defaultConfig,
+        clientAuthMethod: 'tls_client_auth'
+      })
+    ).toThrowError(new TypeError('"tlsClientCertificate" is required for the "tls_client_auth" client auth method'));
+    expect(() =>
+      getConfig({
+        ...defaultConfig,
+        clientAuthMethod: 'tls_client_auth',
+        tlsClientCertificate: '__test_certificate__'
+      })
+    ).toThrowError(new TypeError('"tlsClientKey" is required with a "tlsClientCertificate"'));
+  });
+
+  it('should not allow unknown client auth methods', () => {
+    expect(() =>
+      getConfig({
+        ...defaultConfig,
+        clientAuthMethod: 'client_secret_jwt'
+      })
+    ).toThrowError(
+      new TypeError(
+        '"clientAuthMethod" must be one of [client_secret_basic, client_secret_post, private_key_jwt, tls_client_auth, none]'
+      )
+    );
+  });
+
   it('should not allow "none" for idTokenSigningAlg', () => {
     const config = (idTokenSigningAlg: string) => (): Config =>
       getConfig({
@@ -484,4 +576,26 @@ describe('Config', () => {
     ).not.toThrowError();
     expect(() => config({ response_type: 'code id_token', response_mode: 'form_post' })).not.toThrow();
   });
+
+  it('should accept a session store', () => {
+    const store = { get: jest.fn(), set: jest.fn(), delete: jest.fn() };
+    expect(getConfig({ ...defaultConfig, store }).store).toBe(store);
+  });
+
+  it('should not accept an incomplete session store', () => {
+    expect(() => getConfig({ ...defaultConfig, store: { get: jest.fn(), set: jest.fn() } })).toThrowError(
+      new TypeError('"store" must implement a "delete" method')
+    );
+  });
+
+  it('should warn when the session registry is kept in memory', () => {
+    getConfig({ ...defaultConfig, sessionRegistry: true });
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('The session registry is kept in memory'));
+  });
+
+  it('should not warn when the session registry is kept in a store', () => {
+    const store = { get: jest.fn(), set: jest.fn(), delete: jest.fn() };
+    getConfig({ ...defaultConfig, sessionRegistry: true, store });
+    expect(console.warn).not.toHaveBeenCalled();
+  });
 });
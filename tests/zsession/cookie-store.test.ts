@@ -57,6 +57,26 @@ describe('CookieStore', () => {
     await expect(get(baseURL, '/session', { cookieJar })).rejects.toThrowError('Unauthorized');
   });
 
+  it('should call onSessionRejected for sessions that can not be decrypted', async () => {
+    const onSessionRejected = jest.fn();
+    const baseURL = await setup({ ...defaultConfig, secret: '__other_secret__', events: { onSessionRejected } });
+    const cookieJar = toCookieJar({ appSession: encrypted() }, baseURL);
+    await expect(get(baseURL, '/session', { cookieJar })).rejects.toThrowError('Unauthorized');
+    expect(onSessionRejected).toHaveBeenCalledWith({ req: expect.anything(), reason: 'it could not be decrypted' });
+  });
+
+  it('should await onSessionRejected and log a failing callback', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const onSessionRejected = jest.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      throw new Error('audit failed');
+    });
+    const baseURL = await setup({ ...defaultConfig, secret: '__other_secret__', events: { onSessionRejected } });
+    const cookieJar = toCookieJar({ appSession: encrypted() }, baseURL);
+    await expect(get(baseURL, '/session', { cookieJar })).rejects.toThrowError('Unauthorized');
+    expect(console.error).toHaveBeenCalledWith('The onSessionRejected event callback failed', expect.any(Error));
+  });
+
   it('should get an existing session', async () => {
     const baseURL = await setup(defaultConfig);
     const appSession = encrypted();
@@ -282,6 +302,21 @@ describe('CookieStore', () => {
     clock.restoreAllMocks();
   });
 
+  it('should call onSessionRejected with the reason an expired session was rejected', async () => {
+    const clock = jest.useFakeTimers('modern');
+    const onSessionRejected = jest.fn();
+
+    const baseURL = await setup({ ...defaultConfig, events: { onSessionRejected } });
+    const cookieJar = toCookieJar({ appSession: encrypted() }, baseURL);
+    jest.advanceTimersByTime(25 * hr);
+    await expect(get(baseURL, '/session', { cookieJar })).rejects.toThrowError('Unauthorized');
+    expect(onSessionRejected).toHaveBeenCalledWith({
+      req: expect.anything(),
+      reason: 'it is expired based on current rollingDuration rules'
+    });
+    clock.restoreAllMocks();
+  });
+
   it('should expire after 7 days regardless of activity by default', async () => {
     const clock = jest.useFakeTimers('modern');
     let days = 7;
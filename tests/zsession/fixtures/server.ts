@@ -36,15 +36,25 @@ class TestSessionCache implements SessionCache {
   create(req: IncomingMessage, _res: ServerResponse, tokenSet: TokenSet): void {
     this.cache.set(req, tokenSet);
   }
-  delete(req: IncomingMessage): void {
+  async delete(req: IncomingMessage): Promise<void> {
     this.cache.delete(req);
   }
-  isAuthenticated(req: IncomingMessage): boolean {
+  async isAuthenticated(req: IncomingMessage): Promise<boolean> {
     return !!this.cache.get(req)?.id_token;
   }
-  getIdToken(req: IncomingMessage): string | undefined {
+  async getIdToken(req: IncomingMessage): Promise<string | undefined> {
     return this.cache.get(req)?.id_token;
   }
+  async getRefreshToken(req: IncomingMessage): Promise<string | undefined> {
+    return this.cache.get(req)?.refresh_token;
+  }
+  async getAccessToken(req: IncomingMessage): Promise<string | undefined> {
+    return this.cache.get(req)?.access_token;
+  }
+  async getAccessTokens(req: IncomingMessage): Promise<string[]> {
+    const accessToken = this.cache.get(req)?.access_token;
+    return accessToken ? [accessToken] : [];
+  }
   fromTokenSet(tokenSet: TokenSet): { [p: string]: any } {
     return tokenSet;
   }
@@ -66,9 +76,9 @@ const createHandlers = (params: ConfigParameters): Handlers => {
 
   const applyCookies =
     (fn: Function) =>
-      (req: IncomingMessage, res: ServerResponse, ...args: []): any => {
+      async (req: IncomingMessage, res: ServerResponse, ...args: []): Promise<any> => {
         if (!sessionCache.cache.has(req)) {
-          const [json, iat] = cookieStore.read(req);
+          const [json, iat] = await cookieStore.read(req);
           sessionCache.cache.set(req, new TokenSet(json));
           onHeaders(res, () => cookieStore.save(req, res, sessionCache.cache.get(req), iat));
         }
@@ -79,8 +89,8 @@ const createHandlers = (params: ConfigParameters): Handlers => {
     handleLogin: applyCookies(loginHandler(config, getClient, transientStore)),
     handleLogout: applyCookies(logoutHandler(config, getClient, sessionCache)),
     handleCallback: applyCookies(callbackHandler(config, getClient, sessionCache, transientStore)),
-    handleSession: applyCookies((req: IncomingMessage, res: ServerResponse) => {
-      if (!sessionCache.isAuthenticated(req)) {
+    handleSession: applyCookies(async (req: IncomingMessage, res: ServerResponse) => {
+      if (!(await sessionCache.isAuthenticated(req))) {
         res.writeHead(401);
         res.end();
         return;
@@ -0,0 +1,123 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { Socket } from 'net';
+import nock from 'nock';
+import { JWT } from 'jose';
+import {
+  backchannelLogoutHandler,
+  clientFactory,
+  getConfig,
+  LogoutStore,
+  MemoryStore,
+  HandleBackchannelLogout
+} from '../../../src/zsession';
+import { defaultConfig } from '../fixtures/helpers';
+import { jwks, key, kid } from '../fixtures/cert';
+import wellKnown from '../fixtures/well-known.json';
+import version from '../../../src/version';
+
+const makeLogoutToken = (payload: { [key: string]: any } = {}, options: { [key: string]: any } = {}): string =>
+  JWT.sign(
+    {
+      iss: 'https://op.example.com/',
+      aud: '__test_client_id__',
+      iat: Math.round(Date.now() / 1000),
+      jti: '__test_jti__',
+      sid: '__test_sid__',
+      sub: '__test_sub__',
+      events: { 'http://schemas.openid.net/event/backchannel-logout': {} },
+      ...payload
+    },
+    key,
+    { algorithm: 'RS256', header: { kid }, ...options }
+  );
+
+const request = (body?: { [key: string]: any }, method = 'POST'): [IncomingMessage, ServerResponse] => {
+  const req = new IncomingMessage(new Socket());
+  req.method = method;
+  (req as any).body = body;
+  const res = new ServerResponse(req);
+  jest.spyOn(res, 'writeHead');
+  jest.spyOn(res, 'end');
+  return [req, res];
+};
+
+describe('backchannel logout route', () => {
+  let logoutStore: LogoutStore;
+  let handler: HandleBackchannelLogout;
+
+  beforeEach(() => {
+    if (!nock.isActive()) {
+      nock.activate();
+    }
+    nock('https://op.example.com').get('/.well-known/openid-configuration').reply(200, wellKnown);
+    nock('https://op.example.com').persist().get('/.well-known/jwks.json').reply(200, jwks);
+    const config = getConfig({ ...defaultConfig, baseURL: 'http://localhost:3000' });
+    logoutStore = new LogoutStore(config, new MemoryStore());
+    handler = backchannelLogoutHandler(
+      config,
+      clientFactory(config, { name: 'nextjs-zidentity', version }),
+      logoutStore
+    );
+  });
+
+  afterEach(() => {
+    nock.restore();
+    nock.cleanAll();
+  });
+
+  it('should record the sid of a valid logout token', async () => {
+    const [req, res] = request({ logout_token: makeLogoutToken() });
+    await handler(req, res);
+    expect(res.writeHead).toHaveBeenCalledWith(200, { 'Cache-Control': 'no-store' });
+    expect(res.end).toHaveBeenCalled();
+    await expect(logoutStore.isLoggedOut({ sid: '__test_sid__', sub: '__test_sub__' })).resolves.toBe(true);
+    await expect(logoutStore.isLoggedOut({ sid: '__other_sid__' })).resolves.toBe(false);
+  });
+
+  it('should record the sub of a logout token without a sid', async () => {
+    const [req, res] = request({ logout_token: makeLogoutToken({ sid: undefined }) });
+    await handler(req, res);
+    await expect(logoutStore.isLoggedOut({ sid: '__other_sid__', sub: '__test_sub__' }, 0)).resolves.toBe(true);
+  });
+
+  it('should only accept POST requests', async () => {
+    const [req, res] = request({ logout_token: makeLogoutToken() }, 'GET');
+    await expect(handler(req, res)).rejects.toThrow('Back-channel logout must use the POST method');
+  });
+
+  it('should require a logout token', async () => {
+    const [req, res] = request({});
+    await expect(handler(req, res)).rejects.toThrow('Missing logout_token');
+  });
+
+  it('should reject a logout token with an invalid signature', async () => {
+    const [header, payload] = makeLogoutToken().split('.');
+    const [req, res] = request({ logout_token: `${header}.${payload}.${makeLogoutToken().split('.')[2]}x` });
+    await expect(handler(req, res)).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('should reject a logout token for another audience', async () => {
+    const [req, res] = request({ logout_token: makeLogoutToken({ aud: '__other_client_id__' }) });
+    await expect(handler(req, res)).rejects.toThrow('unexpected "aud" claim value');
+  });
+
+  it('should reject a logout token without the logout event', async () => {
+    const [req, res] = request({ logout_token: makeLogoutToken({ events: {} }) });
+    await expect(handler(req, res)).rejects.toThrow('logout_token must contain a back-channel logout event');
+  });
+
+  it('should reject a logout token without a sid or sub', async () => {
+    const [req, res] = request({ logout_token: makeLogoutToken({ sid: undefined, sub: undefined }) });
+    await expect(handler(req, res)).rejects.toThrow('logout_token must contain a sid or sub claim');
+  });
+
+  it('should reject a logout token with a nonce', async () => {
+    const [req, res] = request({ logout_token: makeLogoutToken({ nonce: '__test_nonce__' }) });
+    await expect(handler(req, res)).rejects.toThrow('logout_token must not contain a nonce claim');
+  });
+
+  it('should reject a logout token without a jti', async () => {
+    const [req, res] = request({ logout_token: makeLogoutToken({ jti: undefined }) });
+    await expect(handler(req, res)).rejects.toThrow('logout_token must contain a jti claim');
+  });
+});
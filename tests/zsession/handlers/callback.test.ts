@@ -41,6 +41,79 @@ describe('callback', () => {
     ).rejects.toThrowError('checks.state argument is missing');
   });
 
+  it('should redirect to returnTo when a silent login finds no session', async () => {
+    const baseURL = await setup(defaultConfig);
+    const state = encodeState({ returnTo: '/foo', silent: true });
+    const cookieJar = toSignedCookieJar({ state, nonce: '__test_nonce__' }, baseURL);
+
+    const { res } = await post(baseURL, '/callback', {
+      body: { state, error: 'login_required', error_description: 'Login required' },
+      cookieJar,
+      fullResponse: true
+    });
+
+    expect(res.statusCode).toEqual(302);
+    expect(res.headers.location).toEqual('/foo');
+    await expect(get(baseURL, '/session', { cookieJar })).rejects.toThrowError('Unauthorized');
+  });
+
+  it('should error on other errors of a silent login', async () => {
+    const baseURL = await setup(defaultConfig);
+    const state = encodeState({ returnTo: '/foo', silent: true });
+    const cookieJar = toSignedCookieJar({ state, nonce: '__test_nonce__' }, baseURL);
+
+    await expect(
+      post(baseURL, '/callback', { body: { state, error: 'access_denied', error_description: 'Denied' }, cookieJar })
+    ).rejects.toThrowError('access_denied (Denied)');
+  });
+
+  it('should call onLoginError when the login fails', async () => {
+    const onLoginError = jest.fn();
+    const baseURL = await setup({ ...defaultConfig, events: { onLoginError } });
+    const cookieJar = toSignedCookieJar({ state: expectedDefaultState, nonce: '__test_nonce__' }, baseURL);
+
+    await expect(
+      post(baseURL, '/callback', {
+        body: { state: expectedDefaultState, error: 'access_denied', error_description: 'Denied' },
+        cookieJar
+      })
+    ).rejects.toThrowError('access_denied (Denied)');
+    expect(onLoginError).toHaveBeenCalledWith({
+      req: expect.anything(),
+      error: expect.objectContaining({ error: 'access_denied' })
+    });
+  });
+
+  it('should call onLoginSuccess with the new session', async () => {
+    const onLoginSuccess = jest.fn();
+    const baseURL = await setup({ ...defaultConfig, events: { onLoginSuccess } });
+    const cookieJar = toSignedCookieJar({ state: expectedDefaultState }, baseURL);
+
+    const { res } = await post(baseURL, '/callback', {
+      body: { state: expectedDefaultState, id_token: makeIdToken({ nonce: undefined }) },
+      cookieJar,
+      fullResponse: true
+    });
+
+    expect(res.statusCode).toEqual(302);
+    expect(onLoginSuccess).toHaveBeenCalledWith({
+      req: expect.anything(),
+      session: expect.objectContaining({ id_token: expect.any(String) })
+    });
+  });
+
+  it('should error when an interactive login returns login_required', async () => {
+    const baseURL = await setup(defaultConfig);
+    const cookieJar = toSignedCookieJar({ state: expectedDefaultState, nonce: '__test_nonce__' }, baseURL);
+
+    await expect(
+      post(baseURL, '/callback', {
+        body: { state: expectedDefaultState, error: 'login_required', error_description: 'Login required' },
+        cookieJar
+      })
+    ).rejects.toThrowError('login_required (Login required)');
+  });
+
   it("should error when state doesn't match", async () => {
     const baseURL = await setup(defaultConfig);
 
@@ -152,6 +225,57 @@ describe('callback', () => {
     ).rejects.toThrowError('nonce mismatch, expected undefined, got: __test_nonce__');
   });
 
+  it("should error when nonce doesn't match", async () => {
+    const baseURL = await setup(defaultConfig);
+
+    const cookieJar = toSignedCookieJar(
+      {
+        state: '__valid_state__',
+        nonce: '__valid_nonce__'
+      },
+      baseURL
+    );
+
+    await expect(
+      post(baseURL, '/callback', {
+        body: {
+          state: '__valid_state__',
+          id_token: makeIdToken({ nonce: '__test_nonce__' })
+        },
+        cookieJar
+      })
+    ).rejects.toThrowError('nonce mismatch, expected __valid_nonce__, got: __test_nonce__');
+  });
+
+  it("should error when the ID Token has no c_hash for response_type 'code id_token'", async () => {
+    const baseURL = await setup({
+      ...defaultConfig,
+      clientSecret: '__test_client_secret__',
+      authorizationParams: {
+        response_type: 'code id_token'
+      }
+    });
+
+    const cookieJar = toSignedCookieJar(
+      {
+        state: '__valid_state__',
+        nonce: '__test_nonce__'
+      },
+      baseURL
+    );
+
+    await expect(
+      post(baseURL, '/callback', {
+        body: {
+          state: '__valid_state__',
+          id_token: makeIdToken(),
+          code: 'jHkWEdUXMU1BwAsC4vtUsZwnNvTIxEl0z9K3vx5KF0Y'
+        },
+        cookieJar
+      })
+    ).rejects.toThrowError('missing required property c_hash');
+  });
+
   it('should error when legacy samesite fallback is off', async () => {
     const baseURL = await setup({ ...defaultConfig, legacySameSiteCookie: false });
 
@@ -5,6 +5,9 @@ import { defaultConfig, fromCookieJar, get } from '../fixtures/helpers';
 import { decodeState, encodeState } from '../../../src/zsession/hooks/get-login-state';
 import { LoginOptions } from '../../../src/zsession';
 import { IncomingMessage } from 'http';
+import nock from 'nock';
+import qs from 'querystring';
+import wellKnown from '../fixtures/well-known.json';
 
 describe('login', () => {
   afterEach(teardown);
@@ -148,6 +151,41 @@ describe('login', () => {
     expect(fromCookieJar(cookieJar, baseURL)._state).toEqual(parsed.query.state);
   });
 
+  it('should mark the state of a silent login', async () => {
+    const baseURL = await setup(defaultConfig, {
+      loginOptions: { returnTo: '/foo', authorizationParams: { prompt: 'none' } }
+    });
+
+    const { res } = await get(baseURL, '/login', { fullResponse: true });
+    const parsed = parse(res.headers.location, true);
+
+    expect(parsed.query.prompt).toEqual('none');
+    expect(decodeState(parsed.query.state as string)).toEqual({ returnTo: '/foo', silent: true });
+  });
+
+  it('should call onLoginStart with the authorization params', async () => {
+    const onLoginStart = jest.fn();
+    const baseURL = await setup({ ...defaultConfig, events: { onLoginStart } }, { loginOptions: { returnTo: '/foo' } });
+
+    await get(baseURL, '/login', { fullResponse: true });
+
+    expect(onLoginStart).toHaveBeenCalledWith({
+      req: expect.anything(),
+      authorizationParams: expect.objectContaining({ scope: 'openid profile email', nonce: expect.any(String) }),
+      returnTo: '/foo'
+    });
+  });
+
+  it('should not fail the login when an event callback throws', async () => {
+    const onLoginStart = jest.fn().mockRejectedValue(new Error('__test_error__'));
+    const baseURL = await setup({ ...defaultConfig, events: { onLoginStart } });
+
+    const { res } = await get(baseURL, '/login', { fullResponse: true });
+
+    expect(onLoginStart).toHaveBeenCalled();
+    expect(res.statusCode).toEqual(302);
+  });
+
   it('should not allow removing openid from scope', async () => {
     const baseURL = await setup(defaultConfig, { loginOptions: { authorizationParams: { scope: 'email' } } });
 
@@ -197,4 +235,57 @@ describe('login', () => {
     });
     await expect(get(baseURL, '/login')).rejects.toThrow('Custom state value must be an object.');
   });
+
+  it('should push the authorization parameters when pushedAuthorizationRequests is on', async () => {
+    const baseURL = await setup({
+      ...defaultConfig,
+      clientSecret: '__test_client_secret__',
+      pushedAuthorizationRequests: true,
+      getLoginState: () => ({ customState: 'x'.repeat(4000) })
+    });
+    nock.cleanAll();
+    nock('https://op.example.com')
+      .get('/.well-known/openid-configuration')
+      .reply(200, { ...wellKnown, pushed_authorization_request_endpoint: 'https://op.example.com/par' });
+    let pushed: { [key: string]: string } = {};
+    nock('https://op.example.com')
+      .post('/par')
+      .reply(201, (_uri, body) => {
+        pushed = qs.parse(body as string) as { [key: string]: string };
+        return { request_uri: 'urn:example:request_uri', expires_in: 60 };
+      });
+    const cookieJar = new CookieJar();
+
+    const { res } = await get(baseURL, '/login', { fullResponse: true, cookieJar });
+    expect(res.statusCode).toEqual(302);
+
+    const parsed = parse(res.headers.location, true);
+    expect(parsed.pathname).toEqual('/authorize');
+    expect({ ...parsed.query }).toStrictEqual({
+      client_id: '__test_client_id__',
+      request_uri: 'urn:example:request_uri'
+    });
+    expect(pushed).toMatchObject({
+      client_id: '__test_client_id__',
+      redirect_uri: `${baseURL}/callback`,
+      response_type: 'id_token',
+      scope: 'openid profile email',
+      state: fromCookieJar(cookieJar, baseURL)._state,
+      nonce: fromCookieJar(cookieJar, baseURL)._nonce
+    });
+    expect(decodeState(pushed.state).customState).toHaveLength(4000);
+  });
+
+  it('should send the authorization parameters in the URL when the issuer does not support PAR', async () => {
+    const baseURL = await setup({ ...defaultConfig, pushedAuthorizationRequests: true });
+
+    const { res } = await get(baseURL, '/login', { fullResponse: true });
+    const parsed = parse(res.headers.location, true);
+    expect(parsed.query).toMatchObject({
+      client_id: '__test_client_id__',
+      scope: 'openid profile email',
+      state: expect.any(String)
+    });
+    expect(parsed.query).not.toHaveProperty('request_uri');
+  });
 });
@@ -4,6 +4,9 @@ import { SessionResponse, setup, teardown } from '../fixtures/server';
 import { toSignedCookieJar, defaultConfig, get, post, fromCookieJar } from '../fixtures/helpers';
 import { makeIdToken } from '../fixtures/cert';
 import { encodeState } from '../../../src/zsession/hooks/get-login-state';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Socket } from 'net';
+import { getConfig, logoutHandler, ConfigParameters } from '../../../src/zsession';
 
 const login = async (baseURL: string): Promise<CookieJar> => {
   const nonce = '__test_nonce__';
@@ -158,3 +161,96 @@ describe('logout route', () => {
     expect(res.headers.location).toEqual(returnTo);
   });
 });
+
+describe('logout token revocation', () => {
+  const sessionCache = (tokens: { [key: string]: any }): any => ({
+    isAuthenticated: jest.fn().mockResolvedValue(true),
+    getIdToken: jest.fn().mockResolvedValue('__test_id_token__'),
+    getRefreshToken: jest.fn().mockResolvedValue(tokens.refresh_token),
+    getAccessTokens: jest
+      .fn()
+      .mockResolvedValue(tokens.access_tokens || (tokens.access_token ? [tokens.access_token] : [])),
+    delete: jest.fn()
+  });
+
+  const logout = async (
+    params: Partial<ConfigParameters>,
+    tokens: { [key: string]: any },
+    metadata: { [key: string]: unknown } = { revocation_endpoint: 'https://op.example.com/oauth/revoke' },
+    revoke = jest.fn()
+  ): Promise<{ revoke: jest.Mock; res: ServerResponse }> => {
+    const config = getConfig({ ...defaultConfig, baseURL: 'https://example.org', idpLogout: false, ...params });
+    const client = { issuer: { metadata }, revoke };
+    const req = new IncomingMessage(new Socket());
+    const res = new ServerResponse(req);
+    jest.spyOn(res, 'writeHead');
+    await logoutHandler(config, async () => client as any, sessionCache(tokens))(req, res);
+    return { revoke, res };
+  };
+
+  it('should revoke the refresh token', async () => {
+    const { revoke, res } = await logout({}, { refresh_token: '__test_refresh_token__', access_token: '__test_at__' });
+
+    expect(revoke).toHaveBeenCalledTimes(1);
+    expect(revoke).toHaveBeenCalledWith('__test_refresh_token__', 'refresh_token');
+    expect(res.statusCode).toEqual(302);
+  });
+
+  it('should revoke the access token when configured', async () => {
+    const { revoke } = await logout(
+      { revokeAccessTokenOnLogout: true },
+      { refresh_token: '__test_refresh_token__', access_token: '__test_at__' }
+    );
+
+    expect(revoke).toHaveBeenCalledWith('__test_refresh_token__', 'refresh_token');
+    expect(revoke).toHaveBeenCalledWith('__test_at__', 'access_token');
+  });
+
+  it('should revoke the access tokens for other audiences when configured', async () => {
+    const { revoke } = await logout(
+      { revokeAccessTokenOnLogout: true },
+      { refresh_token: '__test_refresh_token__', access_tokens: ['__test_at__', '__test_audience_at__'] }
+    );
+
+    expect(revoke).toHaveBeenCalledTimes(3);
+    expect(revoke).toHaveBeenCalledWith('__test_at__', 'access_token');
+    expect(revoke).toHaveBeenCalledWith('__test_audience_at__', 'access_token');
+  });
+
+  it('should not revoke when there are no tokens', async () => {
+    const { revoke } = await logout({ revokeAccessTokenOnLogout: true }, {});
+
+    expect(revoke).not.toHaveBeenCalled();
+  });
+
+  it('should not revoke when the issuer has no revocation endpoint', async () => {
+    const { revoke } = await logout({}, { refresh_token: '__test_refresh_token__' }, {});
+
+    expect(revoke).not.toHaveBeenCalled();
+  });
+
+  it('should log out when the revocation fails', async () => {
+    const { revoke, res } = await logout(
+      {},
+      { refresh_token: '__test_refresh_token__' },
+      undefined,
+      jest.fn().mockRejectedValue(new Error('server_error'))
+    );
+
+    expect(revoke).toHaveBeenCalled();
+    expect(res.writeHead).toHaveBeenCalledWith(302, { Location: 'https://example.org' });
+  });
+
+  it('should log out when the issuer can not be discovered', async () => {
+    const config = getConfig({ ...defaultConfig, baseURL: 'https://example.org', idpLogout: false });
+    const req = new IncomingMessage(new Socket());
+    const res = new ServerResponse(req);
+    jest.spyOn(res, 'writeHead');
+    const getClient = jest.fn().mockRejectedValue(new Error('discovery failed'));
+
+    await logoutHandler(config, getClient, sessionCache({ refresh_token: '__test_refresh_token__' }))(req, res);
+
+    expect(getClient).toHaveBeenCalled();
+    expect(res.writeHead).toHaveBeenCalledWith(302, { Location: 'https://example.org' });
+  });
+});
@@ -0,0 +1,69 @@
+import { getConfig, LogoutStore, MemoryStore, SessionStore } from '../../src/zsession';
+import { defaultConfig } from './fixtures/helpers';
+
+const config = getConfig({ ...defaultConfig, baseURL: 'http://localhost:3000' });
+const epoch = (): number => Math.floor(Date.now() / 1000);
+
+describe('LogoutStore', () => {
+  let store: SessionStore;
+  let logoutStore: LogoutStore;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    logoutStore = new LogoutStore(config, store);
+  });
+
+  it('should log out a session with a recorded sid', async () => {
+    await logoutStore.save({ sid: '__test_sid__', sub: '__test_sub__', iat: epoch() });
+    await expect(logoutStore.isLoggedOut({ sid: '__test_sid__', sub: '__other_sub__' })).resolves.toBe(true);
+    await expect(logoutStore.isLoggedOut({ sid: '__other_sid__', sub: '__test_sub__' })).resolves.toBe(false);
+  });
+
+  it('should log out sessions of a recorded sub that were created before the logout', async () => {
+    const iat = epoch();
+    await logoutStore.save({ sub: '__test_sub__', iat });
+    await expect(logoutStore.isLoggedOut({ sub: '__test_sub__' }, iat - 10)).resolves.toBe(true);
+    await expect(logoutStore.isLoggedOut({ sub: '__test_sub__' }, iat + 10)).resolves.toBe(false);
+    await expect(logoutStore.isLoggedOut({ sub: '__other_sub__' }, iat - 10)).resolves.toBe(false);
+  });
+
+  it('should keep the records of other issuers that share the store apart', async () => {
+    const other = new LogoutStore({ ...config, issuerBaseURL: 'https://other.example.com' }, store);
+    await logoutStore.save({ sid: '__test_sid__', sub: '__test_sub__', iat: epoch() });
+    await expect(other.isLoggedOut({ sid: '__test_sid__', sub: '__test_sub__' }, epoch() - 10)).resolves.toBe(false);
+  });
+
+  it('should store the records under url safe keys that expire with the session lifetime', async () => {
+    jest.spyOn(store, 'set');
+    await logoutStore.save({ sid: 'a/b+c=', iat: epoch() });
+    expect(store.set).toHaveBeenCalledWith(
+      expect.stringMatching(/^logout-sid-[\w-]+$/),
+      expect.objectContaining({
+        header: expect.objectContaining({ exp: expect.any(Number) })
+      })
+    );
+    const [[, { header }]] = (store.set as jest.Mock).mock.calls;
+    expect(header.exp - header.uat).toEqual(config.session.absoluteDuration);
+  });
+
+  it('should default to the configured session store', async () => {
+    const configStore = new MemoryStore();
+    const configured = new LogoutStore({ ...config, store: configStore });
+    jest.spyOn(configStore, 'set');
+    await configured.save({ sid: '__test_sid__', iat: epoch() });
+    expect(configStore.set).toHaveBeenCalled();
+  });
+
+  it('should warn once when the records are kept in memory', async () => {
+    const inMemory = new LogoutStore(config);
+    await inMemory.save({ sid: '__test_sid__', iat: epoch() });
+    await inMemory.save({ sid: '__other_sid__', iat: epoch() });
+    expect(console.warn).toHaveBeenCalledTimes(1);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Back-channel logouts are recorded in memory'));
+  });
+
+  it('should not warn when the records are kept in a store', async () => {
+    await logoutStore.save({ sid: '__test_sid__', iat: epoch() });
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,168 @@
+import { IncomingMessage } from 'http';
+import { Socket } from 'net';
+import timekeeper = require('timekeeper');
+import { getConfig, MemoryStore, SessionRegistry, SessionStore } from '../../src/zsession';
+import { tenantKey } from '../../src/zsession/utils/keys';
+import { defaultConfig } from './fixtures/helpers';
+
+const config = getConfig({ ...defaultConfig, baseURL: 'http://localhost:3000' });
+
+const request = (headers: { [key: string]: string } = {}): IncomingMessage => {
+  const req = new IncomingMessage(new Socket());
+  req.headers = headers;
+  return req;
+};
+
+describe('SessionRegistry', () => {
+  let store: SessionStore;
+  let sessionRegistry: SessionRegistry;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    sessionRegistry = new SessionRegistry(config, store);
+  });
+
+  it('should record the sessions of a user', async () => {
+    sessionRegistry = new SessionRegistry({ ...config, trustProxy: true }, store);
+    await sessionRegistry.register(
+      request({ 'user-agent': '__test_agent__', 'x-forwarded-for': '203.0.113.1, 10.0.0.1' }),
+      '__test_id_1__',
+      '__test_sub__'
+    );
+    await sessionRegistry.register(request(), '__test_id_2__', '__test_sub__');
+    await sessionRegistry.register(request(), '__test_id_3__', '__other_sub__');
+
+    await expect(sessionRegistry.getSessions('__test_sub__')).resolves.toEqual([
+      {
+        id: '__test_id_1__',
+        sub: '__test_sub__',
+        userAgent: '__test_agent__',
+        ip: '203.0.113.1',
+        iat: expect.any(Number),
+        uat: expect.any(Number)
+      },
+      expect.objectContaining({ id: '__test_id_2__', sub: '__test_sub__' })
+    ]);
+    await expect(sessionRegistry.isActive('__test_id_1__')).resolves.toBe(true);
+    await expect(sessionRegistry.isActive('__unknown_id__')).resolves.toBe(false);
+  });
+
+  it('should revoke a session', async () => {
+    await sessionRegistry.register(request(), '__test_id_1__', '__test_sub__');
+    await sessionRegistry.register(request(), '__test_id_2__', '__test_sub__');
+
+    await sessionRegistry.revoke('__test_id_1__');
+    await sessionRegistry.revoke('__unknown_id__');
+
+    await expect(sessionRegistry.isActive('__test_id_1__')).resolves.toBe(false);
+    await expect(sessionRegistry.getSessions('__test_sub__')).resolves.toEqual([
+      expect.objectContaining({ id: '__test_id_2__' })
+    ]);
+  });
+
+  it('should leave out expired sessions', async () => {
+    await sessionRegistry.register(request(), '__test_id_1__', '__test_sub__');
+    await sessionRegistry.register(request(), '__test_id_2__', '__test_sub__');
+    const key = `registry-session-${tenantKey(config, '__test_id_1__')}`;
+    const payload = await store.get(key);
+    await store.set(key, {
+      ...payload!,
+      header: { ...payload!.header, exp: payload!.header.iat - 1 }
+    });
+
+    await expect(sessionRegistry.isActive('__test_id_1__')).resolves.toBe(false);
+    await expect(sessionRegistry.getSessions('__test_sub__')).resolves.toEqual([
+      expect.objectContaining({ id: '__test_id_2__' })
+    ]);
+  });
+
+  it('should store the records under url safe keys', async () => {
+    jest.spyOn(store, 'set');
+    await sessionRegistry.register(request(), sessionRegistry.generateId(), 'a/b+c=');
+    expect((store.set as jest.Mock).mock.calls.map(([key]) => key)).toEqual([
+      expect.stringMatching(/^registry-session-[\w-]+$/),
+      expect.stringMatching(/^registry-sub-[\w-]+$/)
+    ]);
+  });
+
+  it('should keep the sessions of other clients that share the store apart', async () => {
+    const other = new SessionRegistry({ ...config, clientID: '__other_client_id__' }, store);
+    await sessionRegistry.register(request(), '__test_id_1__', '__test_sub__');
+    await other.register(request(), '__test_id_2__', '__test_sub__');
+
+    await expect(sessionRegistry.getSessions('__test_sub__')).resolves.toEqual([
+      expect.objectContaining({ id: '__test_id_1__' })
+    ]);
+    await expect(other.isActive('__test_id_1__')).resolves.toBe(false);
+  });
+
+  it('should only read the IP address from the X-Forwarded-For header when the proxy is trusted', async () => {
+    const req = request({ 'x-forwarded-for': '203.0.113.1' });
+    Object.defineProperty(req.socket, 'remoteAddress', { value: '198.51.100.1' });
+    await sessionRegistry.register(req, '__test_id_1__', '__test_sub__');
+
+    await expect(sessionRegistry.getSessions('__test_sub__')).resolves.toEqual([
+      expect.objectContaining({ ip: '198.51.100.1' })
+    ]);
+  });
+
+  it('should not lose sessions that are registered at the same time', async () => {
+    await Promise.all(
+      ['__test_id_1__', '__test_id_2__', '__test_id_3__'].map((id) =>
+        sessionRegistry.register(request(), id, '__test_sub__')
+      )
+    );
+
+    await expect(sessionRegistry.getSessions('__test_sub__')).resolves.toEqual([
+      expect.objectContaining({ id: '__test_id_1__' }),
+      expect.objectContaining({ id: '__test_id_2__' }),
+      expect.objectContaining({ id: '__test_id_3__' })
+    ]);
+  });
+
+  it('should keep a rolling session that is used for longer than the rolling duration', async () => {
+    const rollingConfig = {
+      ...config,
+      session: { ...config.session, rolling: true, rollingDuration: 60, absoluteDuration: false as const }
+    };
+    sessionRegistry = new SessionRegistry(rollingConfig, store);
+    const start = Date.now();
+    try {
+      await sessionRegistry.register(request(), '__test_id_1__', '__test_sub__');
+      for (let seconds = 50; seconds <= 200; seconds += 50) {
+        timekeeper.freeze(start + seconds * 1000);
+        await expect(sessionRegistry.isActive('__test_id_1__')).resolves.toBe(true);
+        await sessionRegistry.touch('__test_id_1__');
+      }
+      await expect(sessionRegistry.getSessions('__test_sub__')).resolves.toEqual([
+        expect.objectContaining({ id: '__test_id_1__', uat: Math.floor(start / 1000) + 200 })
+      ]);
+
+      timekeeper.freeze(start + 261 * 1000);
+      await expect(sessionRegistry.isActive('__test_id_1__')).resolves.toBe(false);
+    } finally {
+      timekeeper.reset();
+    }
+  });
+
+  it('should not renew a session past its absolute duration', async () => {
+    const absoluteConfig = {
+      ...config,
+      session: { ...config.session, rolling: true, rollingDuration: 60, absoluteDuration: 100 }
+    };
+    sessionRegistry = new SessionRegistry(absoluteConfig, store);
+    const start = Date.now();
+    try {
+      await sessionRegistry.register(request(), '__test_id_1__', '__test_sub__');
+      timekeeper.freeze(start + 50 * 1000);
+      await sessionRegistry.touch('__test_id_1__');
+      timekeeper.freeze(start + 101 * 1000);
+      await expect(sessionRegistry.isActive('__test_id_1__')).resolves.toBe(false);
+      await sessionRegistry.touch('__test_id_1__');
+      await sessionRegistry.touch('__unknown_id__');
+      await expect(sessionRegistry.isActive('__test_id_1__')).resolves.toBe(false);
+    } finally {
+      timekeeper.reset();
+    }
+  });
+});
@@ -0,0 +1,118 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { Socket } from 'net';
+import { JWK } from 'jose';
+import { parse } from 'cookie';
+import { getConfig, MemoryStore, StatefulStore } from '../../src/zsession';
+import { signing as deriveKey } from '../../src/zsession/utils/hkdf';
+import { generateCookieValue } from '../../src/zsession/transient-store';
+import { defaultConfig } from './fixtures/helpers';
+
+const epoch = (): number => (Date.now() / 1000) | 0;
+const key = JWK.asKey(deriveKey(defaultConfig.secret as string));
+
+const request = (cookie?: string): IncomingMessage => {
+  const req = new IncomingMessage(new Socket());
+  if (cookie) {
+    req.headers.cookie = cookie;
+  }
+  return req;
+};
+
+const setCookies = (res: ServerResponse): { [key: string]: string }[] =>
+  ((res.getHeader('Set-Cookie') as string[]) || []).map((header) => parse(header));
+
+describe('StatefulStore', () => {
+  let store: MemoryStore;
+  let sessionStore: StatefulStore;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    sessionStore = new StatefulStore(getConfig({ ...defaultConfig, baseURL: 'http://example.org' }), store);
+  });
+
+  it('should not read a session without a cookie', async () => {
+    await expect(sessionStore.read(request())).resolves.toEqual([]);
+  });
+
+  it('should not read a session with an unsigned session id', async () => {
+    const now = epoch();
+    await store.set('foo', { header: { iat: now, uat: now, exp: now + 60 }, data: { user: { sub: 'bar' } } });
+    await expect(sessionStore.read(request('appSession=foo.bar'))).resolves.toEqual([]);
+  });
+
+  it('should read a session with a signed session id', async () => {
+    const now = epoch();
+    await store.set('foo', { header: { iat: now, uat: now, exp: now + 60 }, data: { user: { sub: 'bar' } } });
+    const req = request(`appSession=${generateCookieValue('appSession', 'foo', key)}`);
+    await expect(sessionStore.read(req)).resolves.toEqual([{ user: { sub: 'bar' } }, now]);
+  });
+
+  it('should not read a session missing from the store', async () => {
+    const req = request(`appSession=${generateCookieValue('appSession', 'foo', key)}`);
+    await expect(sessionStore.read(req)).resolves.toEqual([]);
+  });
+
+  it('should not read an expired session', async () => {
+    const now = epoch();
+    await store.set('foo', { header: { iat: now - 7200, uat: now - 100000, exp: now + 60 }, data: {} });
+    const req = request(`appSession=${generateCookieValue('appSession', 'foo', key)}`);
+    await expect(sessionStore.read(req)).resolves.toEqual([]);
+  });
+
+  it('should fail to read a session when the store fails', async () => {
+    store.get = jest.fn().mockRejectedValue(new Error('store down'));
+    const req = request(`appSession=${generateCookieValue('appSession', 'foo', key)}`);
+    await expect(sessionStore.read(req)).rejects.toThrow('store down');
+  });
+
+  it('should not read a session that can not be parsed', async () => {
+    store.get = jest.fn().mockRejectedValue(new SyntaxError('Unexpected end of JSON input'));
+    const req = request(`appSession=${generateCookieValue('appSession', 'foo', key)}`);
+    await expect(sessionStore.read(req)).resolves.toEqual([]);
+  });
+
+  it('should save a new session under a new id and only put the signed id in the cookie', async () => {
+    const res = new ServerResponse(request());
+    await sessionStore.save(request(), res, { user: { sub: 'bar' } });
+    const [cookie] = setCookies(res);
+    const [id] = cookie.appSession.split('.');
+    expect(cookie.appSession).toEqual(generateCookieValue('appSession', id, key));
+    await expect(store.get(id)).resolves.toMatchObject({ data: { user: { sub: 'bar' } } });
+  });
+
+  it('should update an existing session in place', async () => {
+    const now = epoch();
+    await store.set('foo', { header: { iat: now, uat: now, exp: now + 60 }, data: { user: { sub: 'bar' } } });
+    const req = request(`appSession=${generateCookieValue('appSession', 'foo', key)}`);
+    const res = new ServerResponse(req);
+    await sessionStore.save(req, res, { user: { sub: 'baz' } }, now);
+    expect(setCookies(res)[0].appSession).toEqual(generateCookieValue('appSession', 'foo', key));
+    await expect(store.get('foo')).resolves.toMatchObject({ header: { iat: now }, data: { user: { sub: 'baz' } } });
+  });
+
+  it('should replace the id of an existing session when a new session is created', async () => {
+    const now = epoch();
+    await store.set('foo', { header: { iat: now, uat: now, exp: now + 60 }, data: { user: { sub: 'bar' } } });
+    const req = request(`appSession=${generateCookieValue('appSession', 'foo', key)}`);
+    const res = new ServerResponse(req);
+    await sessionStore.save(req, res, { user: { sub: 'baz' } });
+    expect(setCookies(res)[0].appSession).not.toEqual(generateCookieValue('appSession', 'foo', key));
+    await expect(store.get('foo')).resolves.toBeUndefined();
+  });
+
+  it('should delete the session and clear the cookie', async () => {
+    const now = epoch();
+    await store.set('foo', { header: { iat: now, uat: now, exp: now + 60 }, data: { user: { sub: 'bar' } } });
+    const req = request(`appSession=${generateCookieValue('appSession', 'foo', key)}`);
+    const res = new ServerResponse(req);
+    await sessionStore.save(req, res, null);
+    expect(setCookies(res)[0]).toMatchObject({ appSession: '', 'Max-Age': '0' });
+    await expect(store.get('foo')).resolves.toBeUndefined();
+  });
+
+  it('should clear the cookie when there is no session to delete', async () => {
+    const res = new ServerResponse(request());
+    await sessionStore.save(request(), res, undefined);
+    expect(setCookies(res)[0]).toMatchObject({ appSession: '' });
+  });
+});
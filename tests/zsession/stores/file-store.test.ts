@@ -0,0 +1,54 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileStore } from '../../../src/zsession';
+
+const epoch = (): number => (Date.now() / 1000) | 0;
+
+describe('FileStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'file-store-')), 'sessions');
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(dir), { recursive: true, force: true });
+  });
+
+  it('should set, get and delete a session', async () => {
+    const store = new FileStore({ dir });
+    const payload = { header: { iat: epoch(), uat: epoch(), exp: epoch() + 60 }, data: { user: { sub: 'foo' } } };
+    await store.set('foo', payload);
+    expect(fs.existsSync(path.join(dir, 'foo.json'))).toBe(true);
+    await expect(store.get('foo')).resolves.toEqual(payload);
+    await store.delete('foo');
+    expect(fs.existsSync(path.join(dir, 'foo.json'))).toBe(false);
+    await expect(store.get('foo')).resolves.toBeUndefined();
+  });
+
+  it('should ignore deleting a missing session', async () => {
+    const store = new FileStore({ dir });
+    await expect(store.delete('foo')).resolves.toBeUndefined();
+  });
+
+  it('should remove expired sessions', async () => {
+    const store = new FileStore({ dir });
+    await store.set('foo', { header: { iat: 0, uat: 0, exp: epoch() - 1 }, data: {} });
+    await expect(store.get('foo')).resolves.toBeUndefined();
+    expect(fs.existsSync(path.join(dir, 'foo.json'))).toBe(false);
+  });
+
+  it('should reject session ids that are not safe file names', async () => {
+    const store = new FileStore({ dir });
+    await expect(store.get('../foo')).rejects.toThrow('Invalid session id');
+  });
+
+  it('should rethrow unexpected file system errors', async () => {
+    const store = new FileStore({ dir });
+    await store.set('foo', { header: { iat: 0, uat: 0, exp: epoch() + 60 }, data: {} });
+    fs.mkdirSync(path.join(dir, 'bar.json'));
+    await expect(store.get('bar')).rejects.toThrow('EISDIR');
+    await expect(store.delete('bar')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,20 @@
+import { MemoryStore } from '../../../src/zsession';
+
+const epoch = (): number => (Date.now() / 1000) | 0;
+
+describe('MemoryStore', () => {
+  it('should set, get and delete a session', async () => {
+    const store = new MemoryStore();
+    const payload = { header: { iat: epoch(), uat: epoch(), exp: epoch() + 60 }, data: { user: { sub: 'foo' } } };
+    await store.set('foo', payload);
+    await expect(store.get('foo')).resolves.toEqual(payload);
+    await store.delete('foo');
+    await expect(store.get('foo')).resolves.toBeUndefined();
+  });
+
+  it('should not return expired sessions', async () => {
+    const store = new MemoryStore();
+    await store.set('foo', { header: { iat: 0, uat: 0, exp: epoch() - 1 }, data: {} });
+    await expect(store.get('foo')).resolves.toBeUndefined();
+  });
+});